@@ -0,0 +1,59 @@
+import { canonicalize, hashSoulDocument, isValidPublicKey } from './crypto.js';
+import { ADMIN_PROTOCOL, type AdminIdentity, type AdminRequestEnvelope } from './types.js';
+
+// ============================================
+// Registry Administration
+// ============================================
+
+export const ADMIN_HEADER = 'Soul-Admin';
+export const ADMIN_TIMESTAMP_HEADER = 'Soul-Admin-Timestamp';
+export const ADMIN_NONCE_HEADER = 'Soul-Admin-Nonce';
+export const ADMIN_SIGNATURE_HEADER = 'Soul-Admin-Signature';
+
+/**
+ * Admin identities from configuration: comma-separated "name:publicKey" pairs
+ */
+export function parseAdminKeys(value: string): AdminIdentity[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.lastIndexOf(':');
+      const name = entry.slice(0, separator).trim();
+      const publicKey = entry.slice(separator + 1).trim();
+      if (separator <= 0 || !isValidPublicKey(publicKey)) {
+        throw new Error(`Invalid admin key entry "${entry}" (expected name:publicKey)`);
+      }
+      return { name, publicKey };
+    });
+}
+
+/**
+ * Rebuild the envelope an admin must have signed for a request
+ */
+export function buildAdminEnvelope(
+  admin: string,
+  method: string,
+  path: string,
+  body: Record<string, unknown>,
+  timestamp: string,
+  nonce: string
+): AdminRequestEnvelope {
+  return {
+    protocol: ADMIN_PROTOCOL,
+    admin,
+    method: method.toUpperCase(),
+    path,
+    payloadHash: hashSoulDocument(body),
+    timestamp,
+    nonce,
+  };
+}
+
+/**
+ * The exact string signed for an admin request
+ */
+export function encodeAdminEnvelope(envelope: AdminRequestEnvelope): string {
+  return canonicalize(envelope);
+}
@@ -0,0 +1,113 @@
+import type { CapabilityDefinition, CapabilityMode, RiskAssessment, RiskLevel } from './types.js';
+
+// ============================================
+// Capability Vocabulary (comm.email.send)
+// ============================================
+
+export const CAPABILITY_SEPARATOR = '.';
+export const CUSTOM_CAPABILITY_PREFIX = 'x-';
+
+// Custom and unrecognized capabilities have no agreed risk, so they count as medium
+export const CUSTOM_CAPABILITY_WEIGHT = 5;
+
+export interface CapabilityViolation {
+  error: string;
+  details: { unknown: string[]; mode: CapabilityMode };
+}
+
+type Vocabulary = Pick<CapabilityDefinition, 'id' | 'description' | 'riskWeight'>[];
+
+// Seeded into every registry; risk weights run 0 (harmless) to 10 (can move money or act in the world)
+export const DEFAULT_CAPABILITIES: Vocabulary = [
+  { id: 'comm', description: 'Communicate with people or other agents', riskWeight: 3 },
+  { id: 'comm.email', description: 'Work with email', riskWeight: 3 },
+  { id: 'comm.email.read', description: 'Read an email inbox', riskWeight: 3 },
+  { id: 'comm.email.send', description: 'Send email', riskWeight: 5 },
+  { id: 'comm.chat', description: 'Take part in chat conversations', riskWeight: 2 },
+  { id: 'comm.chat.send', description: 'Post chat messages unprompted', riskWeight: 4 },
+  { id: 'comm.voice', description: 'Place or answer voice calls', riskWeight: 5 },
+  { id: 'web', description: 'Use the web', riskWeight: 2 },
+  { id: 'web.search', description: 'Run web searches', riskWeight: 1 },
+  { id: 'web.browse', description: 'Fetch and read web pages', riskWeight: 2 },
+  { id: 'web.submit', description: 'Submit forms and act on websites', riskWeight: 6 },
+  { id: 'data', description: 'Work with stored data', riskWeight: 3 },
+  { id: 'data.read', description: 'Read databases and documents', riskWeight: 3 },
+  { id: 'data.write', description: 'Create and change records', riskWeight: 6 },
+  { id: 'data.delete', description: 'Delete records', riskWeight: 8 },
+  { id: 'code', description: 'Work with source code', riskWeight: 4 },
+  { id: 'code.generate', description: 'Write code for review', riskWeight: 2 },
+  { id: 'code.execute', description: 'Run code', riskWeight: 8 },
+  { id: 'code.deploy', description: 'Deploy code to running systems', riskWeight: 9 },
+  { id: 'system', description: 'Operate computer systems', riskWeight: 7 },
+  { id: 'system.files', description: 'Read and write local files', riskWeight: 6 },
+  { id: 'system.shell', description: 'Run shell commands', riskWeight: 9 },
+  { id: 'finance', description: 'Handle money', riskWeight: 7 },
+  { id: 'finance.read', description: 'Read balances and transactions', riskWeight: 4 },
+  { id: 'finance.pay', description: 'Make payments', riskWeight: 10 },
+  { id: 'finance.trade', description: 'Trade assets', riskWeight: 10 },
+  { id: 'identity', description: 'Act with credentials', riskWeight: 7 },
+  { id: 'identity.credentials', description: 'Hold passwords, tokens or keys for others', riskWeight: 8 },
+  { id: 'identity.sign', description: 'Sign documents or transactions', riskWeight: 8 },
+  { id: 'media', description: 'Work with images, audio and video', riskWeight: 2 },
+  { id: 'media.analyze', description: 'Describe or classify media', riskWeight: 1 },
+  { id: 'media.generate', description: 'Generate media', riskWeight: 3 },
+  { id: 'physical', description: 'Act in the physical world', riskWeight: 9 },
+  { id: 'physical.actuate', description: 'Drive robots or connected devices', riskWeight: 10 },
+];
+
+/**
+ * The capability this one refines, or null at the top of the hierarchy
+ */
+export function parentCapabilityOf(id: string): string | null {
+  const separator = id.lastIndexOf(CAPABILITY_SEPARATOR);
+  return separator > 0 ? id.slice(0, separator) : null;
+}
+
+export function isCustomCapability(id: string): boolean {
+  return id.startsWith(CUSTOM_CAPABILITY_PREFIX);
+}
+
+/**
+ * Check declared capabilities against the approved vocabulary.
+ * Permissive mode also lets through custom capabilities named "x-...".
+ */
+export function checkCapabilities(
+  capabilities: string[],
+  known: Map<string, CapabilityDefinition>,
+  mode: CapabilityMode
+): CapabilityViolation | null {
+  const unknown = capabilities.filter(id =>
+    !known.has(id) && !(mode === 'permissive' && isCustomCapability(id)));
+  if (unknown.length === 0) return null;
+
+  return {
+    error: `Unknown capabilities: ${unknown.join(', ')}`,
+    details: { unknown, mode },
+  };
+}
+
+export function riskLevelOf(weight: number): RiskLevel {
+  if (weight >= 7) return 'high';
+  if (weight >= 4) return 'medium';
+  return 'low';
+}
+
+/**
+ * Risk implied by a soul's capabilities (its riskiest one), next to the level it declared
+ */
+export function assessRisk(
+  capabilities: string[],
+  declared: RiskLevel | undefined,
+  known: Map<string, CapabilityDefinition>
+): RiskAssessment {
+  const weights = capabilities.map(id => known.get(id)?.riskWeight ?? CUSTOM_CAPABILITY_WEIGHT);
+  const computed = riskLevelOf(Math.max(0, ...weights));
+  const order: RiskLevel[] = ['low', 'medium', 'high'];
+
+  return {
+    declared: declared ?? null,
+    computed,
+    understated: order.indexOf(declared ?? 'low') < order.indexOf(computed),
+    unrecognized: capabilities.filter(id => !known.has(id)),
+  };
+}
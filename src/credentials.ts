@@ -0,0 +1,196 @@
+import { randomUUID } from 'crypto';
+import {
+  base58btcEncode,
+  decodeJwt,
+  publicKeyToMultibase,
+  sha256Canonical,
+  signJwt,
+  signMessage,
+  verifyJwt,
+  verifySignature,
+} from './crypto.js';
+import type { RegistryIdentity } from './issuer.js';
+import type { BitstringStatusListEntry } from './statuslist.js';
+import { VerifiableCredentialSchema, type SoulRecord } from './types.js';
+
+// ============================================
+// Verifiable Credentials (W3C VC Data Model 2.0)
+// ============================================
+
+export const CREDENTIALS_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+export interface DataIntegrityProof {
+  '@context'?: string[];
+  type: 'DataIntegrityProof';
+  cryptosuite: 'eddsa-jcs-2022';
+  created: string;
+  verificationMethod: string;
+  proofPurpose: 'assertionMethod';
+  proofValue?: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: { id: string; [claim: string]: unknown };
+  credentialStatus?: BitstringStatusListEntry[];
+  proof?: DataIntegrityProof;
+}
+
+export interface CredentialVerificationResult {
+  valid: boolean;
+  format: 'json' | 'jwt';
+  credential: VerifiableCredential | null;
+  errors: string[];
+}
+
+/**
+ * Credential stating that a soul proved control of its key through challenge-response
+ */
+export function buildVerificationCredential(
+  soul: SoulRecord,
+  verifiedAt: string,
+  issuer: RegistryIdentity,
+  ttlSeconds: number,
+  credentialStatus?: BitstringStatusListEntry[]
+): VerifiableCredential {
+  return {
+    '@context': [CREDENTIALS_CONTEXT],
+    id: `urn:uuid:${randomUUID()}`,
+    type: ['VerifiableCredential', 'SoulVerificationCredential'],
+    issuer: issuer.did,
+    validFrom: verifiedAt,
+    validUntil: new Date(new Date(verifiedAt).getTime() + ttlSeconds * 1000).toISOString(),
+    credentialSubject: {
+      id: soul.did,
+      proofOfControl: 'challenge-response',
+      verifiedAt,
+      publicKeyMultibase: publicKeyToMultibase(soul.publicKey),
+      status: soul.status,
+      capabilities: soul.capabilities || [],
+      riskLevel: soul.riskLevel || null,
+    },
+    ...(credentialStatus && { credentialStatus }),
+  };
+}
+
+/**
+ * Attach an eddsa-jcs-2022 Data Integrity proof
+ */
+export async function addDataIntegrityProof(
+  credential: VerifiableCredential,
+  issuer: RegistryIdentity
+): Promise<VerifiableCredential> {
+  const { proof: _existing, ...unsecured } = credential;
+  const proofConfig: DataIntegrityProof = {
+    '@context': unsecured['@context'],
+    type: 'DataIntegrityProof',
+    cryptosuite: 'eddsa-jcs-2022',
+    created: new Date().toISOString(),
+    verificationMethod: issuer.keyId,
+    proofPurpose: 'assertionMethod',
+  };
+
+  const signature = await signMessage(proofHashData(proofConfig, unsecured), issuer.privateKey);
+  const { '@context': _context, ...proof } = proofConfig;
+
+  return {
+    ...unsecured,
+    proof: { ...proof, proofValue: base58btcEncode(Buffer.from(signature, 'hex')) },
+  };
+}
+
+/**
+ * Encode a credential as a JWT (VC-JOSE), with the usual registered claims for offline checks
+ */
+export async function encodeCredentialJwt(
+  credential: VerifiableCredential,
+  issuer: RegistryIdentity
+): Promise<string> {
+  const { proof: _proof, ...unsecured } = credential;
+  return signJwt({
+    ...unsecured,
+    iss: unsecured.issuer,
+    sub: unsecured.credentialSubject.id,
+    jti: unsecured.id,
+    nbf: toEpochSeconds(unsecured.validFrom),
+    exp: unsecured.validUntil ? toEpochSeconds(unsecured.validUntil) : undefined,
+  }, issuer.privateKey, { kid: issuer.keyId, typ: 'vc+jwt' });
+}
+
+/**
+ * Check a credential (JSON with Data Integrity proof, or JWT) against the registry key
+ */
+export async function verifyCredential(
+  input: VerifiableCredential | string,
+  issuer: RegistryIdentity,
+  now: Date = new Date()
+): Promise<CredentialVerificationResult> {
+  const errors: string[] = [];
+  let credential: VerifiableCredential;
+  let format: 'json' | 'jwt';
+
+  if (typeof input === 'string') {
+    format = 'jwt';
+    const decoded = decodeJwt(input);
+    if (!decoded) {
+      return { valid: false, format, credential: null, errors: ['Malformed JWT'] };
+    }
+
+    const { iss: _iss, sub: _sub, jti: _jti, nbf: _nbf, exp: _exp, ...claims } = decoded.payload;
+    const parsed = VerifiableCredentialSchema.safeParse(claims);
+    if (!parsed.success) {
+      return { valid: false, format, credential: null, errors: ['Malformed credential'] };
+    }
+    credential = parsed.data as VerifiableCredential;
+
+    if (decoded.header.kid !== issuer.keyId) errors.push('Unknown signing key');
+    else if (!(await verifyJwt(input, issuer.publicKey))) errors.push('Invalid signature');
+  } else {
+    format = 'json';
+    const parsed = VerifiableCredentialSchema.safeParse(input);
+    if (!parsed.success) {
+      return { valid: false, format, credential: null, errors: ['Malformed credential'] };
+    }
+    credential = input;
+    const { proof, ...unsecured } = input;
+
+    if (!proof || proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'eddsa-jcs-2022' || !proof.proofValue) {
+      errors.push('Missing or unsupported proof');
+    } else if (proof.verificationMethod !== issuer.keyId) {
+      errors.push('Unknown signing key');
+    } else {
+      const { proofValue, ...proofOptions } = proof;
+      const proofConfig = { ...proofOptions, '@context': unsecured['@context'] };
+      if (!(await verifySignature(proofHashData(proofConfig, unsecured), proofValue, issuer.publicKey))) {
+        errors.push('Invalid signature');
+      }
+    }
+  }
+
+  if (credential.issuer !== issuer.did) errors.push('Not issued by this registry');
+  if (credential.validFrom && new Date(credential.validFrom) > now) errors.push('Credential not yet valid');
+  if (credential.validUntil && new Date(credential.validUntil) < now) errors.push('Credential expired');
+
+  return { valid: errors.length === 0, format, credential, errors };
+}
+
+/**
+ * eddsa-jcs-2022 hash data: SHA-256(JCS(proof config)) || SHA-256(JCS(document))
+ */
+function proofHashData(proofConfig: object, unsecured: object): Uint8Array {
+  const configHash = sha256Canonical(proofConfig);
+  const documentHash = sha256Canonical(unsecured);
+  const data = new Uint8Array(configHash.length + documentHash.length);
+  data.set(configHash);
+  data.set(documentHash, configHash.length);
+  return data;
+}
+
+function toEpochSeconds(iso: string): number {
+  return Math.floor(new Date(iso).getTime() / 1000);
+}
@@ -1,6 +1,8 @@
 import * as ed from '@noble/ed25519';
 import { sha512 } from '@noble/hashes/sha512';
+import { sha256 } from '@noble/hashes/sha256';
 import { randomBytes } from 'crypto';
+import type { ChallengePayload } from './types.js';
 
 // Configure ed25519 to use sha512
 ed.etc.sha512Sync = (...m) => sha512(ed.etc.concatBytes(...m));
@@ -9,6 +11,8 @@ ed.etc.sha512Sync = (...m) => sha512(ed.etc.concatBytes(...m));
 // Cryptographic Utilities
 // ============================================
 
+const ED25519_SIGNATURE_LENGTH = 64;
+
 /**
  * Generate a random nonce for challenges
  */
@@ -23,6 +27,13 @@ export function generateChallengeId(): string {
   return `ch_${randomBytes(16).toString('hex')}`;
 }
 
+/**
+ * Generate a unique prefixed identifier (e.g. "rc_..." for recovery requests)
+ */
+export function generateId(prefix: string): string {
+  return `${prefix}_${randomBytes(16).toString('hex')}`;
+}
+
 /**
  * Verify an Ed25519 signature
  */
@@ -39,6 +50,7 @@ export async function verifySignature(
     // Handle different signature formats
     const sigBytes = decodeBase58OrHex(signature);
     const pubKeyBytes = decodeBase58OrHex(publicKey);
+    if (sigBytes.length !== ED25519_SIGNATURE_LENGTH) return false;
     
     return await ed.verifyAsync(sigBytes, msgBytes, pubKeyBytes);
   } catch (error) {
@@ -47,6 +59,95 @@ export async function verifySignature(
   }
 }
 
+/**
+ * Signature bytes as lowercase hex, whichever encoding was sent (null unless 64 bytes).
+ * Replay checks key on this, so a re-encoded signature counts as the same one.
+ */
+export function normalizeSignature(signature: string): string | null {
+  try {
+    const bytes = decodeBase58OrHex(signature);
+    return bytes.length === ED25519_SIGNATURE_LENGTH ? Buffer.from(bytes).toString('hex') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate a new Ed25519 private key (hex)
+ */
+export function generatePrivateKey(): string {
+  return Buffer.from(ed.utils.randomPrivateKey()).toString('hex');
+}
+
+/**
+ * Derive the Ed25519 public key (hex) for a private key (hex)
+ */
+export async function getPublicKey(privateKey: string): Promise<string> {
+  return Buffer.from(await ed.getPublicKeyAsync(Buffer.from(privateKey, 'hex'))).toString('hex');
+}
+
+/**
+ * Sign a message with an Ed25519 private key (hex), returning a hex signature
+ */
+export async function signMessage(message: string | Uint8Array, privateKey: string): Promise<string> {
+  const msgBytes = typeof message === 'string'
+    ? new TextEncoder().encode(message)
+    : message;
+  const signature = await ed.signAsync(msgBytes, Buffer.from(privateKey, 'hex'));
+  return Buffer.from(signature).toString('hex');
+}
+
+/**
+ * Check that a public key decodes to a 32-byte Ed25519 key
+ */
+export function isValidPublicKey(publicKey: string): boolean {
+  try {
+    return decodeBase58OrHex(publicKey).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hash a public key for pre-commitment (SHA-256 over the raw key bytes, hex)
+ */
+export function hashPublicKey(publicKey: string): string {
+  return Buffer.from(sha256(decodeBase58OrHex(publicKey))).toString('hex');
+}
+
+/**
+ * Content address of a charter document (SHA-256 over the UTF-8 text, hex)
+ */
+export function hashCharter(content: string): string {
+  return Buffer.from(sha256(new TextEncoder().encode(content))).toString('hex');
+}
+
+// Multicodec varint prefix for ed25519-pub
+const ED25519_MULTICODEC = new Uint8Array([0xed, 0x01]);
+
+/**
+ * Encode an Ed25519 public key as a Multikey multibase value ("z6Mk...")
+ */
+export function publicKeyToMultibase(publicKey: string): string {
+  const keyBytes = decodeBase58OrHex(publicKey);
+  const prefixed = new Uint8Array(ED25519_MULTICODEC.length + keyBytes.length);
+  prefixed.set(ED25519_MULTICODEC);
+  prefixed.set(keyBytes, ED25519_MULTICODEC.length);
+  return `z${base58Encode(prefixed)}`;
+}
+
+/**
+ * Decode a Multikey multibase value back to a hex Ed25519 public key
+ */
+export function multibaseToPublicKey(multibase: string): string {
+  if (!multibase.startsWith('z')) throw new Error('Expected a base58btc multibase value');
+  const bytes = base58Decode(multibase.slice(1));
+  if (bytes.length !== 34 || bytes[0] !== ED25519_MULTICODEC[0] || bytes[1] !== ED25519_MULTICODEC[1]) {
+    throw new Error('Not an Ed25519 Multikey');
+  }
+  return Buffer.from(bytes.slice(2)).toString('hex');
+}
+
 /**
  * Recursively sort object keys for canonical JSON
  */
@@ -60,16 +161,95 @@ function sortObjectKeys(obj: unknown): unknown {
   return sorted;
 }
 
+/**
+ * Canonical JSON with sorted keys
+ */
+export function canonicalize(value: unknown): string {
+  return JSON.stringify(sortObjectKeys(value));
+}
+
 /**
  * Hash a soul document for signing (canonical JSON with sorted keys)
  */
 export function hashSoulDocument(doc: object): string {
-  const sorted = sortObjectKeys(doc);
-  const canonical = JSON.stringify(sorted);
+  const canonical = canonicalize(doc);
   const hash = sha512(new TextEncoder().encode(canonical));
   return Buffer.from(hash).toString('hex');
 }
 
+/**
+ * The exact string an agent signs for a structured challenge
+ */
+export function encodeChallengePayload(payload: ChallengePayload): string {
+  return canonicalize(payload);
+}
+
+/**
+ * SHA-256 over canonical JSON, as raw bytes
+ */
+export function sha256Canonical(value: unknown): Uint8Array {
+  return sha256(new TextEncoder().encode(canonicalize(value)));
+}
+
+// ============================================
+// Encodings & JWS
+// ============================================
+
+export function base64UrlEncode(input: string | Uint8Array): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+export function base64UrlDecode(input: string): Uint8Array {
+  return new Uint8Array(Buffer.from(input, 'base64url'));
+}
+
+export function base58btcEncode(bytes: Uint8Array): string {
+  return `z${base58Encode(bytes)}`;
+}
+
+/**
+ * Sign a compact JWS (EdDSA) over a JSON payload
+ */
+export async function signJwt(
+  payload: object,
+  privateKey: string,
+  header: Record<string, unknown> = {}
+): Promise<string> {
+  const encodedHeader = base64UrlEncode(JSON.stringify({ alg: 'EdDSA', ...header }));
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const signingInput = `${encodedHeader}.${encodedPayload}`;
+  const signature = await signMessage(signingInput, privateKey);
+  return `${signingInput}.${base64UrlEncode(Buffer.from(signature, 'hex'))}`;
+}
+
+/**
+ * Decode a compact JWS without checking its signature
+ */
+export function decodeJwt(token: string): { header: Record<string, any>; payload: Record<string, any> } | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    const isObject = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+    return isObject(header) && isObject(payload) ? { header, payload } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a compact EdDSA JWS against a public key
+ */
+export async function verifyJwt(token: string, publicKey: string): Promise<boolean> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return false;
+  const decoded = decodeJwt(token);
+  if (!decoded || decoded.header.alg !== 'EdDSA') return false;
+  const signature = Buffer.from(parts[2], 'base64url').toString('hex');
+  return verifySignature(`${parts[0]}.${parts[1]}`, signature, publicKey);
+}
+
 /**
  * Decode base58 or hex string to bytes
  */
@@ -96,6 +276,34 @@ function decodeBase58OrHex(input: string): Uint8Array {
  */
 const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
 
+function base58Encode(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+
+  // Handle leading zeros
+  let result = '';
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    result += '1';
+  }
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET[digits[i]];
+  }
+  return result;
+}
+
 function base58Decode(str: string): Uint8Array {
   const bytes: number[] = [];
   for (const char of str) {
@@ -1,17 +1,55 @@
 import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 import { readFileSync, writeFileSync, existsSync } from 'fs';
-import type { SoulRecord, Challenge, SoulStatus, Contact } from './types.js';
+import { canonicalize, generateId } from './crypto.js';
+import { encodeLogEntry, hashLeaf } from './transparency.js';
+import { nameSkeleton, type NameHolder } from './names.js';
+import { DEFAULT_CAPABILITIES, parentCapabilityOf } from './capabilities.js';
+import { ftsQuery, likePattern, searchRank, encodeSearchCursor, type SearchCursor } from './search.js';
+import type { SoulRecord, SoulKey, KeyChangeReason, Challenge, SoulStatus, LifecycleAuthority, SoulFieldUpdate, SearchParams, SearchSort, SearchFacets, RecoveryRequest, SoulTransfer, TransferStatus, Delegation, DelegationScope, CapabilityDefinition, CapabilityStatus, Charter, CharterEntry, OperatorRecord, Session, SoulEvent, SoulEventType, SoulFieldChange, SoulSnapshot, EventAttribution, SoulProvenance, FederationPeer, FederationConflict, WebhookSubscription, WebhookDelivery, WebhookDeliveryStatus, WebhookPayload, StatusChange, AdminAction, AdminActionType, FrozenName, NameApproval, ModerationItem, AbuseReport, ReportCategory, ReportStatus, ReportSummary } from './types.js';
+import { WEBHOOK_PROTOCOL } from './types.js';
 
 // ============================================
 // Database Layer (using sql.js - pure JavaScript SQLite)
 // ============================================
 
+// Soul fields that can change after registration, and where they are stored
+const SOUL_FIELD_COLUMNS: Record<keyof SoulFieldUpdate, { column: string; json: boolean }> = {
+  avatar: { column: 'avatar', json: false },
+  description: { column: 'description', json: false },
+  website: { column: 'website', json: false },
+  contact: { column: 'contact_json', json: true },
+  capabilities: { column: 'capabilities_json', json: true },
+  riskLevel: { column: 'risk_level', json: false },
+  recovery: { column: 'recovery_json', json: true },
+};
+
+// What each result order sorts on (ties go to the newer row)
+const SEARCH_SORT_COLUMNS: Record<SearchSort, { expression: string; descending: boolean }> = {
+  relevance: { expression: `search_rank(matchinfo(souls_fts, 'pcy'))`, descending: true },
+  newest: { expression: 'souls.registered_at', descending: true },
+  oldest: { expression: 'souls.registered_at', descending: false },
+  name: { expression: 'souls.name', descending: false },
+  'most-verified': { expression: 'souls.verification_count', descending: true },
+  'recently-verified': { expression: `COALESCE(souls.last_verified_at, '')`, descending: true },
+};
+
+const FACET_COLUMNS: Record<Exclude<keyof SearchFacets, 'capabilities'>, string> = {
+  status: 'souls.status',
+  riskLevel: 'souls.risk_level',
+  platform: 'souls.birth_platform',
+  baseModel: 'souls.birth_base_model',
+};
+
+// Events recording a soul's full state; replaying a soul's history starts from the latest one
+const BASELINE_EVENTS: SoulEventType[] = ['soul.registered', 'soul.snapshot', 'soul.superseded'];
+
 let SQL: Awaited<ReturnType<typeof initSqlJs>>;
 
 export class RegistryDB {
   private db!: SqlJsDatabase;
   private dbPath: string;
   private initialized = false;
+  private eventListeners = new Set<(event: SoulEvent) => void>();
 
   constructor(dbPath: string = ':memory:') {
     this.dbPath = dbPath;
@@ -29,6 +67,7 @@ export class RegistryDB {
     } else {
       this.db = new SQL.Database();
     }
+    this.db.create_function('search_rank', searchRank);
 
     this.createSchema();
     this.initialized = true;
@@ -78,16 +117,448 @@ export class RegistryDB {
       )
     `);
 
+    // Key history table (one row per key a soul has ever held)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS soul_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        did TEXT NOT NULL,
+        public_key TEXT NOT NULL,
+        valid_from TEXT NOT NULL,
+        valid_until TEXT,
+        reason TEXT NOT NULL,
+        signature TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Recovery requests table
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS recovery_requests (
+        id TEXT PRIMARY KEY,
+        did TEXT NOT NULL,
+        new_public_key TEXT NOT NULL,
+        method TEXT NOT NULL,
+        approvals_json TEXT NOT NULL,
+        initiated_at TEXT NOT NULL,
+        executable_at TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        resolved_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Name transfers between keys
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS soul_transfers (
+        id TEXT PRIMARY KEY,
+        did TEXT NOT NULL,
+        from_public_key TEXT NOT NULL,
+        to_public_key TEXT NOT NULL,
+        operator TEXT,
+        offer_signature TEXT NOT NULL,
+        accept_signature TEXT,
+        offered_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        resolved_at TEXT
+      )
+    `);
+
+    // Delegate keys that may sign for a soul within a scope
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS delegations (
+        id TEXT PRIMARY KEY,
+        did TEXT NOT NULL,
+        public_key TEXT NOT NULL,
+        scopes_json TEXT NOT NULL,
+        label TEXT,
+        signature TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT
+      )
+    `);
+
+    // Operators table
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS operators (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL COLLATE NOCASE,
+        public_key TEXT NOT NULL,
+        contact_json TEXT,
+        website TEXT,
+        signature TEXT NOT NULL,
+        registered_at TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Sessions table (tokens minted for relying parties)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        did TEXT NOT NULL,
+        audience TEXT NOT NULL,
+        issued_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        revoked_at TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Nonces already spent by signed mutations (replay protection)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS used_nonces (
+        did TEXT NOT NULL,
+        nonce TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (did, nonce)
+      )
+    `);
+
+    // Append-only change history (one row per registration, update, status change or verification)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS soul_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        did TEXT NOT NULL,
+        type TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        signature TEXT,
+        changes_json TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Transparency log leaves (one per soul event, in log order)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS log_leaves (
+        leaf_index INTEGER PRIMARY KEY,
+        event_id INTEGER UNIQUE NOT NULL,
+        did TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        entry TEXT NOT NULL,
+        leaf_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Peer registries this instance replicates from
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS federation_peers (
+        url TEXT PRIMARY KEY,
+        registry_did TEXT,
+        public_key TEXT,
+        last_sequence INTEGER NOT NULL DEFAULT 0,
+        last_synced_at TEXT,
+        last_error TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Name collisions met while replicating
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS federation_conflicts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        did TEXT NOT NULL,
+        name TEXT NOT NULL,
+        peer TEXT NOT NULL,
+        winner TEXT NOT NULL,
+        existing_json TEXT NOT NULL,
+        incoming_json TEXT NOT NULL,
+        detected_at TEXT NOT NULL
+      )
+    `);
+
+    // Webhook subscriptions (management token stored as a SHA-256 hash)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        dids_json TEXT NOT NULL,
+        events_json TEXT NOT NULL,
+        token_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Webhook delivery queue and log
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        subscription_id TEXT NOT NULL,
+        event_id INTEGER NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TEXT,
+        last_attempt_at TEXT,
+        last_status_code INTEGER,
+        last_error TEXT,
+        delivered_at TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Status list changes (one row per status transition; the row ID is the list version)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS status_changes (
+        version INTEGER PRIMARY KEY AUTOINCREMENT,
+        registry_id INTEGER NOT NULL,
+        did TEXT NOT NULL,
+        status TEXT NOT NULL,
+        changed_at TEXT NOT NULL
+      )
+    `);
+
+    // Names no one may register, set by registry admins
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS frozen_names (
+        name TEXT PRIMARY KEY COLLATE NOCASE,
+        reason TEXT NOT NULL,
+        frozen_by TEXT NOT NULL,
+        frozen_at TEXT NOT NULL
+      )
+    `);
+
+    // Admin approvals for names the name policy would reject
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS name_approvals (
+        name TEXT PRIMARY KEY COLLATE NOCASE,
+        public_key TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        approved_by TEXT NOT NULL,
+        approved_at TEXT NOT NULL
+      )
+    `);
+
+    // Capability vocabulary: built-in, proposed by souls, or defined by admins
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS capabilities (
+        id TEXT PRIMARY KEY,
+        parent TEXT,
+        description TEXT NOT NULL,
+        risk_weight INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        proposed_by TEXT,
+        rationale TEXT,
+        created_at TEXT NOT NULL,
+        reviewed_by TEXT,
+        reviewed_at TEXT,
+        review_reason TEXT
+      )
+    `);
+
+    // Charter documents, content-addressed
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS charters (
+        hash TEXT PRIMARY KEY,
+        media_type TEXT NOT NULL,
+        content TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Each soul's verified birth charter (sequence 0) and signed amendments
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS soul_charters (
+        did TEXT NOT NULL,
+        sequence INTEGER NOT NULL,
+        charter_hash TEXT NOT NULL,
+        previous_hash TEXT,
+        summary TEXT,
+        actor TEXT NOT NULL,
+        signature TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (did, sequence)
+      )
+    `);
+
+    // Moderation notes on souls
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS moderation_items (
+        id TEXT PRIMARY KEY,
+        did TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        body TEXT NOT NULL,
+        pending INTEGER NOT NULL DEFAULT 0,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        resolved_by TEXT,
+        resolved_at TEXT,
+        resolution TEXT
+      )
+    `);
+
+    // Abuse reports filed against souls
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS reports (
+        id TEXT PRIMARY KEY,
+        did TEXT NOT NULL,
+        category TEXT NOT NULL,
+        description TEXT NOT NULL,
+        evidence_json TEXT NOT NULL,
+        impersonates TEXT,
+        reporter_did TEXT,
+        reporter_key TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        handled_by TEXT,
+        note TEXT
+      )
+    `);
+
+    // Audit trail of admin actions
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS admin_actions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        admin TEXT NOT NULL,
+        action TEXT NOT NULL,
+        target TEXT NOT NULL,
+        reason TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+
+    // Registry-level settings (signing key, etc.)
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS registry_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )
+    `);
+
+    // Columns added after the initial schema
+    this.addColumnIfMissing('souls', 'recovery_json', 'TEXT');
+    this.addColumnIfMissing('souls', 'operator_attested', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('souls', 'operator_proof', 'TEXT');
+    this.addColumnIfMissing('souls', 'origin_registry', 'TEXT');
+    this.addColumnIfMissing('souls', 'origin_url', 'TEXT');
+    this.addColumnIfMissing('souls', 'origin_sequence', 'INTEGER');
+    this.addColumnIfMissing('souls', 'replicated_at', 'TEXT');
+    this.addColumnIfMissing('souls', 'status_changed_by', 'TEXT');
+    this.addColumnIfMissing('souls', 'name_skeleton', 'TEXT');
+    this.addColumnIfMissing('souls', 'current_operator', 'TEXT');
+    this.addColumnIfMissing('challenges', 'audience', 'TEXT');
+    this.addColumnIfMissing('challenges', 'purpose', 'TEXT');
+    this.addColumnIfMissing('challenges', 'payload', 'TEXT');
+    this.addColumnIfMissing('challenges', 'legacy', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('webhook_subscriptions', 'subscriber_did', 'TEXT');
+    this.addColumnIfMissing('charters', 'uploaded_by', 'TEXT');
+
+    // Backfill key history for souls registered before key rotation existed
+    this.db.run(`
+      INSERT INTO soul_keys (did, public_key, valid_from, reason)
+      SELECT did, public_key, registered_at, 'registration' FROM souls
+      WHERE did NOT IN (SELECT did FROM soul_keys)
+    `);
+
+    // Challenges issued before structured payloads existed were bare nonces
+    this.db.run(`UPDATE challenges SET legacy = 1 WHERE payload IS NULL AND legacy = 0`);
+
+    // Start the history of souls registered before it was recorded
+    const untracked = this.db.exec(`SELECT * FROM souls WHERE did NOT IN (SELECT did FROM soul_events)`);
+    for (const values of untracked[0]?.values ?? []) {
+      const soul = this.rowToSoul(untracked[0].columns, values);
+      this.recordEvent('soul.snapshot', null, soul, { actor: 'registry' });
+    }
+
+    // Seed status lists with souls that were suspended or revoked before lists existed
+    this.db.run(`
+      INSERT INTO status_changes (registry_id, did, status, changed_at)
+      SELECT id, did, status, COALESCE(status_changed_at, registered_at) FROM souls
+      WHERE status != 'active' AND id NOT IN (SELECT registry_id FROM status_changes)
+    `);
+
+    // Confusable-name checks compare skeletons of every registered name
+    const unindexed = this.db.exec(`SELECT did, name FROM souls WHERE name_skeleton IS NULL`);
+    for (const [did, name] of unindexed[0]?.values ?? []) {
+      this.db.run(`UPDATE souls SET name_skeleton = ? WHERE did = ?`, [nameSkeleton(name as string), did]);
+    }
+
+    // Full-text index over what a soul is and does, kept in step by triggers.
+    // FTS4 rather than FTS5: the sql.js build only ships FTS3/4.
+    this.db.run(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS souls_fts USING fts4(name, description, capabilities, tokenize=unicode61)
+    `);
+    const capabilityText = (row: string) => `(SELECT group_concat(value, ' ') FROM json_each(${row}.capabilities_json))`;
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS souls_fts_insert AFTER INSERT ON souls BEGIN
+        INSERT INTO souls_fts (docid, name, description, capabilities)
+        VALUES (new.id, new.name, new.description, ${capabilityText('new')});
+      END
+    `);
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS souls_fts_update AFTER UPDATE OF name, description, capabilities_json ON souls BEGIN
+        UPDATE souls_fts SET name = new.name, description = new.description, capabilities = ${capabilityText('new')}
+        WHERE docid = new.id;
+      END
+    `);
+    this.db.run(`
+      CREATE TRIGGER IF NOT EXISTS souls_fts_delete AFTER DELETE ON souls BEGIN
+        DELETE FROM souls_fts WHERE docid = old.id;
+      END
+    `);
+    this.db.run(`
+      INSERT INTO souls_fts (docid, name, description, capabilities)
+      SELECT id, name, description, ${capabilityText('souls')} FROM souls
+      WHERE id NOT IN (SELECT docid FROM souls_fts)
+    `);
+
+    // Built-in vocabulary; entries an admin has since changed are left alone
+    const seededAt = new Date().toISOString();
+    for (const capability of DEFAULT_CAPABILITIES) {
+      this.db.run(`
+        INSERT OR IGNORE INTO capabilities (id, parent, description, risk_weight, status, created_at)
+        VALUES (?, ?, ?, ?, 'approved', ?)
+      `, [capability.id, parentCapabilityOf(capability.id), capability.description, capability.riskWeight, seededAt]);
+    }
+
+    // Log events recorded before the transparency log existed
+    this.backfillLogLeaves();
+
     // Indexes
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_souls_name ON souls(name)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_souls_status ON souls(status)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_souls_operator ON souls(birth_operator)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_souls_registered_at ON souls(registered_at, id)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_challenges_did ON challenges(did)`);
     this.db.run(`CREATE INDEX IF NOT EXISTS idx_challenges_expires ON challenges(expires_at)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_soul_keys_did ON soul_keys(did)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_recovery_requests_did ON recovery_requests(did)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_soul_transfers_did ON soul_transfers(did, status)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_delegations_did ON delegations(did)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_capabilities_parent ON capabilities(parent, status)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_did ON sessions(did)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_sessions_expires ON sessions(expires_at)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_soul_events_did ON soul_events(did, version)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_log_leaves_did ON log_leaves(did, version)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_status_changes_registry_id ON status_changes(registry_id)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_moderation_items_did ON moderation_items(did)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_moderation_items_pending ON moderation_items(pending, created_at)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_reports_did ON reports(did, status)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_souls_name_skeleton ON souls(name_skeleton)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_reports_reporter ON reports(reporter_key, created_at)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_subscriber ON webhook_subscriptions(subscriber_did)`);
+    this.db.run(`CREATE INDEX IF NOT EXISTS idx_charters_uploader ON charters(uploaded_by, created_at)`);
 
     this.save();
   }
 
+  private addColumnIfMissing(table: string, column: string, definition: string) {
+    const info = this.db.exec(`PRAGMA table_info(${table})`);
+    const exists = info[0]?.values.some(row => row[1] === column);
+    if (!exists) {
+      this.db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   private save() {
     if (this.dbPath !== ':memory:') {
       const data = this.db.export();
@@ -99,14 +570,15 @@ export class RegistryDB {
   // Soul Operations
   // ============================================
 
-  createSoul(soul: Omit<SoulRecord, '_registryId' | '_version'>): SoulRecord {
+  createSoul(soul: Omit<SoulRecord, '_registryId' | '_version'>, attribution: EventAttribution, operatorProof?: string): SoulRecord {
     this.db.run(`
       INSERT INTO souls (
         did, name, public_key,
         birth_timestamp, birth_operator, birth_base_model, birth_platform, birth_charter_hash,
-        avatar, description, website, contact_json, capabilities_json, risk_level,
-        status, registered_at, verification_count
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        avatar, description, website, contact_json, capabilities_json, risk_level, recovery_json,
+        operator_attested, operator_proof,
+        status, registered_at, verification_count, name_skeleton
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       soul.did,
       soul.name,
@@ -122,17 +594,28 @@ export class RegistryDB {
       soul.contact ? JSON.stringify(soul.contact) : null,
       soul.capabilities ? JSON.stringify(soul.capabilities) : null,
       soul.riskLevel || null,
+      soul.recovery ? JSON.stringify(soul.recovery) : null,
+      soul.operatorAttested ? 1 : 0,
+      operatorProof || null,
       soul.status,
       soul.registeredAt,
       soul.verificationCount,
+      nameSkeleton(soul.name),
     ]);
 
-    this.save();
-
     // Get the inserted ID
     const result = this.db.exec(`SELECT last_insert_rowid() as id`);
     const lastId = result[0]?.values[0]?.[0] as number;
 
+    this.db.run(`
+      INSERT INTO soul_keys (did, public_key, valid_from, reason)
+      VALUES (?, ?, ?, 'registration')
+    `, [soul.did, soul.publicKey, soul.registeredAt]);
+
+    this.recordEvent('soul.registered', null, this.getSoulByDid(soul.did)!, attribution);
+
+    this.save();
+
     return {
       ...soul,
       _registryId: lastId,
@@ -152,76 +635,216 @@ export class RegistryDB {
     return this.rowToSoul(result[0].columns, result[0].values[0]);
   }
 
-  searchSouls(params: {
-    name?: string;
-    operator?: string;
-    status?: SoulStatus;
-    registeredAfter?: string;
-    registeredBefore?: string;
-    limit: number;
-    offset: number;
-  }): { results: SoulRecord[]; total: number } {
+  /**
+   * Every soul under a namespace, at any depth, parents before their children
+   */
+  getNamespaceMembers(did: string): SoulRecord[] {
+    const prefix = `${did}:`.toLowerCase();
+    const result = this.db.exec(`
+      SELECT * FROM souls WHERE SUBSTR(LOWER(did), 1, ?) = ? ORDER BY LENGTH(did), did
+    `, [prefix.length, prefix]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToSoul(result[0].columns, values));
+  }
+
+  /**
+   * Souls whose name skeleton is within `maxDistance` characters of the given length
+   */
+  findNameHolders(skeleton: string, maxDistance: number): NameHolder[] {
+    const result = this.db.exec(`
+      SELECT did, name, name_skeleton, verification_count FROM souls
+      WHERE LENGTH(name_skeleton) BETWEEN ? AND ?
+    `, [skeleton.length - maxDistance, skeleton.length + maxDistance]);
+    return (result[0]?.values ?? []).map(([did, name, nameSkeleton, verificationCount]) => ({
+      did: did as string,
+      name: name as string,
+      skeleton: nameSkeleton as string,
+      verificationCount: verificationCount as number,
+    }));
+  }
+
+  /**
+   * Filtered, sorted page of souls plus facet counts over everything that matched.
+   * Paging by `cursor` picks up after the last soul seen, so souls registered meanwhile do not shift pages.
+   */
+  searchSouls(
+    params: Omit<SearchParams, 'sort' | 'cursor'> & { sort: SearchSort },
+    cursor: SearchCursor | null = null
+  ): { results: SoulRecord[]; total: number; nextCursor: string | null; facets: SearchFacets } {
     const conditions: string[] = [];
     const bindings: any[] = [];
+    let from = 'souls';
 
+    const match = params.q ? ftsQuery(params.q) : null;
+    if (match) {
+      from = 'souls JOIN souls_fts ON souls_fts.docid = souls.id';
+      conditions.push(`souls_fts MATCH ?`);
+      bindings.push(match);
+    }
     if (params.name) {
-      conditions.push(`name LIKE ?`);
-      bindings.push(params.name.replace('*', '%'));
+      conditions.push(`souls.name LIKE ? ESCAPE '\\'`);
+      bindings.push(likePattern(params.name));
     }
     if (params.operator) {
-      conditions.push(`birth_operator LIKE ?`);
-      bindings.push(params.operator.replace('*', '%'));
+      conditions.push(`COALESCE(souls.current_operator, souls.birth_operator) LIKE ? ESCAPE '\\'`);
+      bindings.push(likePattern(params.operator));
     }
     if (params.status) {
-      conditions.push(`status = ?`);
+      conditions.push(`souls.status = ?`);
       bindings.push(params.status);
     }
+    if (params.namespace) {
+      const prefix = `${namespaceDid(params.namespace)}:`.toLowerCase();
+      conditions.push(`SUBSTR(LOWER(souls.did), 1, ?) = ?`);
+      bindings.push(prefix.length, prefix);
+    }
+    if (params.attested !== undefined) {
+      conditions.push(`souls.operator_attested = ?`);
+      bindings.push(params.attested ? 1 : 0);
+    }
+    if (params.riskLevel) {
+      conditions.push(`souls.risk_level = ?`);
+      bindings.push(params.riskLevel);
+    }
+    if (params.capability && params.capability.length > 0) {
+      // A capability also matches the capabilities refining it: "comm.email" finds "comm.email.send"
+      const hasCapability = (count: number) => `EXISTS (SELECT 1 FROM json_each(souls.capabilities_json) WHERE ${
+        Array(count).fill(`(LOWER(value) = LOWER(?) OR LOWER(value) LIKE LOWER(?) ESCAPE '\\')`).join(' OR ')
+      })`;
+      const capabilityBindings = (capability: string) => [capability, `${likePattern(capability)}.%`];
+      if (params.capabilityMatch === 'any') {
+        conditions.push(hasCapability(params.capability.length));
+        bindings.push(...params.capability.flatMap(capabilityBindings));
+      } else {
+        for (const capability of params.capability) {
+          conditions.push(hasCapability(1));
+          bindings.push(...capabilityBindings(capability));
+        }
+      }
+    }
+    if (params.platform) {
+      conditions.push(`souls.birth_platform LIKE ? ESCAPE '\\'`);
+      bindings.push(likePattern(params.platform));
+    }
+    if (params.baseModel) {
+      conditions.push(`souls.birth_base_model LIKE ? ESCAPE '\\'`);
+      bindings.push(likePattern(params.baseModel));
+    }
+    if (params.verifiedWithinDays) {
+      conditions.push(`souls.last_verified_at >= ?`);
+      bindings.push(new Date(Date.now() - params.verifiedWithinDays * 24 * 60 * 60 * 1000).toISOString());
+    }
+    if (params.minVerifications !== undefined) {
+      conditions.push(`souls.verification_count >= ?`);
+      bindings.push(params.minVerifications);
+    }
     if (params.registeredAfter) {
-      conditions.push(`registered_at >= ?`);
+      conditions.push(`souls.registered_at >= ?`);
       bindings.push(params.registeredAfter);
     }
     if (params.registeredBefore) {
-      conditions.push(`registered_at <= ?`);
+      conditions.push(`souls.registered_at <= ?`);
       bindings.push(params.registeredBefore);
     }
 
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
     // Get total count
-    const countResult = this.db.exec(`SELECT COUNT(*) as count FROM souls ${whereClause}`, bindings);
+    const countResult = this.db.exec(`SELECT COUNT(*) as count FROM ${from} ${whereClause}`, bindings);
     const total = countResult[0]?.values[0]?.[0] as number || 0;
 
-    // Get results
+    // Get results, one extra to tell whether another page follows
+    const { expression, descending } = SEARCH_SORT_COLUMNS[params.sort];
+    const direction = descending ? 'DESC' : 'ASC';
+    const pageConditions = [...conditions];
+    const pageBindings = [...bindings];
+    if (cursor) {
+      const after = descending ? '<' : '>';
+      pageConditions.push(`(${expression} ${after} ? OR (${expression} = ? AND souls.id < ?))`);
+      pageBindings.push(cursor.value, cursor.value, cursor.id);
+    }
     const query = `
-      SELECT * FROM souls ${whereClause}
-      ORDER BY registered_at DESC
+      SELECT souls.*, ${expression} AS sort_value FROM ${from}
+      ${pageConditions.length > 0 ? `WHERE ${pageConditions.join(' AND ')}` : ''}
+      ORDER BY sort_value ${direction}, souls.id DESC
       LIMIT ? OFFSET ?
     `;
-    const result = this.db.exec(query, [...bindings, params.limit, params.offset]);
+    const result = this.db.exec(query, [...pageBindings, params.limit + 1, cursor ? 0 : params.offset]);
+
+    const rows = result[0]?.values ?? [];
+    const results = rows.slice(0, params.limit).map(row => this.rowToSoul(result[0].columns, row));
+
+    let nextCursor: string | null = null;
+    if (rows.length > params.limit) {
+      const last = rows[params.limit - 1];
+      const column = (name: string) => last[result[0].columns.indexOf(name)];
+      nextCursor = encodeSearchCursor({
+        sort: params.sort,
+        value: column('sort_value') as string | number,
+        id: column('id') as number,
+      });
+    }
 
-    const results: SoulRecord[] = [];
-    if (result[0]) {
-      for (const row of result[0].values) {
-        results.push(this.rowToSoul(result[0].columns, row));
+    const facets: SearchFacets = { status: {}, riskLevel: {}, platform: {}, baseModel: {}, capabilities: {} };
+    const countBy = (column: string, join = '', limit = '') => {
+      const counts: Record<string, number> = {};
+      const facet = this.db.exec(`
+        SELECT ${column}, COUNT(*) FROM ${from}${join} ${whereClause}
+        GROUP BY ${column} HAVING ${column} IS NOT NULL
+        ORDER BY COUNT(*) DESC, ${column} ${limit}
+      `, bindings);
+      for (const [value, count] of facet[0]?.values ?? []) {
+        counts[value as string] = count as number;
       }
+      return counts;
+    };
+    for (const [facet, column] of Object.entries(FACET_COLUMNS)) {
+      facets[facet as keyof typeof FACET_COLUMNS] = countBy(column);
     }
+    facets.capabilities = countBy('LOWER(capability.value)', ', json_each(souls.capabilities_json) AS capability', 'LIMIT 20');
 
-    return { results, total };
+    return { results, total, nextCursor, facets };
   }
 
-  updateSoulStatus(did: string, status: SoulStatus, reason: string): boolean {
+  /**
+   * Change a soul's status. With `expectedVersion`, nothing is written unless the soul is still at that version.
+   */
+  updateSoulStatus(
+    did: string,
+    status: SoulStatus,
+    reason: string,
+    changedBy: LifecycleAuthority,
+    attribution: EventAttribution,
+    expectedVersion?: number
+  ): boolean {
+    const before = this.getSoulByDid(did);
+    const now = new Date().toISOString();
+    const { where, bindings } = soulAtVersion(did, expectedVersion);
     this.db.run(`
       UPDATE souls 
-      SET status = ?, status_reason = ?, status_changed_at = ?, 
+      SET status = ?, status_reason = ?, status_changed_at = ?, status_changed_by = ?,
           version = version + 1, updated_at = datetime('now')
-      WHERE did = ?
-    `, [status, reason, new Date().toISOString(), did]);
+      WHERE ${where}
+    `, [status, reason, now, changedBy, ...bindings]);
+    const updated = this.db.getRowsModified() > 0;
+    if (updated) {
+      this.recordStatusChange(before!._registryId, did, status, now);
+      this.recordUpdate('status.changed', before!, attribution);
+    }
+
+    // Outstanding sessions die with the soul's standing
+    if (updated && status !== 'active') {
+      this.db.run(`
+        UPDATE sessions SET revoked_at = ? WHERE did = ? AND revoked_at IS NULL AND expires_at > ?
+      `, [now, did, now]);
+    }
     
     this.save();
-    return this.db.getRowsModified() > 0;
+    return updated;
   }
 
-  incrementVerificationCount(did: string): void {
+  incrementVerificationCount(did: string, attribution: EventAttribution): void {
+    const before = this.getSoulByDid(did);
     this.db.run(`
       UPDATE souls 
       SET verification_count = verification_count + 1, 
@@ -229,79 +852,1809 @@ export class RegistryDB {
           updated_at = datetime('now')
       WHERE did = ?
     `, [new Date().toISOString(), did]);
+    if (this.db.getRowsModified() > 0) this.recordUpdate('soul.verified', before!, attribution);
     
     this.save();
   }
 
-  updateSoulContact(did: string, contact: Contact): boolean {
+  /**
+   * Set mutable fields in one versioned change (null clears a field). With `expectedVersion`,
+   * nothing is written unless the soul is still at that version.
+   */
+  updateSoulFields(
+    did: string,
+    fields: SoulFieldUpdate,
+    type: SoulEventType,
+    attribution: EventAttribution,
+    expectedVersion?: number
+  ): boolean {
+    const entries = (Object.entries(fields) as [keyof SoulFieldUpdate, unknown][])
+      .filter(([, value]) => value !== undefined);
+    if (entries.length === 0) return false;
+
+    const before = this.getSoulByDid(did);
+    const { where, bindings } = soulAtVersion(did, expectedVersion);
+
     this.db.run(`
-      UPDATE souls 
-      SET contact_json = ?, 
-          version = version + 1, 
+      UPDATE souls
+      SET ${entries.map(([field]) => `${SOUL_FIELD_COLUMNS[field].column} = ?`).join(', ')},
+          version = version + 1,
           updated_at = datetime('now')
-      WHERE did = ?
-    `, [JSON.stringify(contact), did]);
-    
+      WHERE ${where}
+    `, [
+      ...entries.map(([field, value]) => {
+        if (value === null) return null;
+        return SOUL_FIELD_COLUMNS[field].json ? JSON.stringify(value) : value as string;
+      }),
+      ...bindings,
+    ]);
+    const updated = this.db.getRowsModified() > 0;
+    if (updated) this.recordUpdate(type, before!, attribution);
+
     this.save();
-    return this.db.getRowsModified() > 0;
+    return updated;
+  }
+
+  // ============================================
+  // Change History Operations
+  // ============================================
+
+  private recordUpdate(type: SoulEventType, before: SoulRecord, attribution: EventAttribution) {
+    this.recordEvent(type, before, this.getSoulByDid(before.did)!, attribution);
   }
 
-  updateSoulCapabilities(did: string, capabilities: string[], riskLevel?: string): boolean {
+  private recordEvent(type: SoulEventType, before: SoulRecord | null, after: SoulRecord, attribution: EventAttribution) {
+    const changes = diffSouls(before, after);
+    const timestamp = new Date().toISOString();
     this.db.run(`
-      UPDATE souls 
-      SET capabilities_json = ?, 
-          risk_level = ?,
-          version = version + 1, 
-          updated_at = datetime('now')
-      WHERE did = ?
-    `, [JSON.stringify(capabilities), riskLevel || null, did]);
-    
-    this.save();
-    return this.db.getRowsModified() > 0;
+      INSERT INTO soul_events (did, type, actor, signature, changes_json, version, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      after.did,
+      type,
+      attribution.actor,
+      attribution.signature || null,
+      JSON.stringify(changes),
+      after._version,
+      timestamp,
+    ]);
+    const sequence = this.db.exec(`SELECT last_insert_rowid()`)[0].values[0][0] as number;
+
+    // Round-trip the changes through JSON so the logged event matches what getSoulEvents returns
+    const event: SoulEvent = {
+      sequence,
+      did: after.did,
+      type,
+      actor: attribution.actor,
+      signature: attribution.signature || undefined,
+      changes: JSON.parse(JSON.stringify(changes)),
+      version: after._version,
+      timestamp,
+    };
+    this.appendLogLeaf(event, toSnapshot(after));
+    this.enqueueWebhookDeliveries(event);
+    this.eventListeners.forEach(listener => listener(event));
   }
 
-  private rowToSoul(columns: string[], values: unknown[]): SoulRecord {
-    const row: Record<string, unknown> = {};
-    columns.forEach((col: string, i: number) => {
-      row[col] = values[i];
-    });
+  /**
+   * Be told about every soul event as it is recorded. Returns an unsubscribe function.
+   */
+  onSoulEvent(listener: (event: SoulEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
 
-    return {
-      did: row.did as string,
-      name: row.name as string,
-      publicKey: row.public_key as string,
-      birth: {
-        timestamp: row.birth_timestamp as string,
-        operator: row.birth_operator as string,
-        baseModel: (row.birth_base_model as string) || undefined,
-        platform: (row.birth_platform as string) || undefined,
-        charterHash: (row.birth_charter_hash as string) || undefined,
-      },
-      avatar: (row.avatar as string) || undefined,
-      description: (row.description as string) || undefined,
-      website: (row.website as string) || undefined,
-      contact: row.contact_json ? JSON.parse(row.contact_json as string) : undefined,
-      capabilities: row.capabilities_json ? JSON.parse(row.capabilities_json as string) : undefined,
+  /**
+   * Events after a sequence number across all souls, optionally filtered (for stream catch-up)
+   */
+  getEventsAfter(after: number, filter: {
+    dids?: string[];
+    operators?: string[];
+    types?: SoulEventType[];
+  }, limit: number): SoulEvent[] {
+    const conditions = ['e.id > ?'];
+    const bindings: any[] = [after];
+    if (filter.dids?.length) {
+      conditions.push(`e.did IN (${filter.dids.map(() => '?').join(', ')})`);
+      bindings.push(...filter.dids);
+    }
+    if (filter.types?.length) {
+      conditions.push(`e.type IN (${filter.types.map(() => '?').join(', ')})`);
+      bindings.push(...filter.types);
+    }
+    if (filter.operators?.length) {
+      conditions.push(`LOWER(COALESCE(s.current_operator, s.birth_operator)) IN (${filter.operators.map(() => 'LOWER(?)').join(', ')})`);
+      bindings.push(...filter.operators);
+    }
+
+    const result = this.db.exec(`
+      SELECT e.* FROM soul_events e
+      LEFT JOIN souls s ON s.did = e.did
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY e.id ASC
+      LIMIT ?
+    `, [...bindings, limit]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToEvent(result[0].columns, values));
+  }
+
+  getLatestEventSequence(): number {
+    const result = this.db.exec(`SELECT MAX(id) FROM soul_events`);
+    return result[0]?.values[0]?.[0] as number || 0;
+  }
+
+  getSoulEvents(did: string, params: { type?: string; limit: number; offset: number }): { events: SoulEvent[]; total: number } {
+    const conditions = ['did = ?'];
+    const bindings: any[] = [did];
+    if (params.type) {
+      conditions.push('type = ?');
+      bindings.push(params.type);
+    }
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = this.db.exec(`SELECT COUNT(*) FROM soul_events ${whereClause}`, bindings);
+    const total = countResult[0]?.values[0]?.[0] as number || 0;
+
+    const result = this.db.exec(`
+      SELECT * FROM soul_events ${whereClause}
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `, [...bindings, params.limit, params.offset]);
+    const events = result[0] ? result[0].values.map(values => this.rowToEvent(result[0].columns, values)) : [];
+
+    return { events, total };
+  }
+
+  /**
+   * Reconstruct a soul as it stood at a given version by replaying its history.
+   * Returns null if the version never existed or predates the recorded history.
+   */
+  getSoulAtVersion(did: string, version: number): { soul: SoulSnapshot; asOf: string } | null {
+    const result = this.db.exec(`
+      SELECT * FROM soul_events WHERE did = ? AND version <= ? ORDER BY id ASC
+    `, [did, version]);
+    if (!result[0]) return null;
+    const events = result[0].values.map(values => this.rowToEvent(result[0].columns, values));
+
+    // Replay starts from the registration, the snapshot taken when tracking began, or a takeover by a peer's soul
+    let baseline = events.length - 1;
+    while (baseline >= 0 && !BASELINE_EVENTS.includes(events[baseline].type)) {
+      baseline--;
+    }
+    if (baseline < 0 || !events.some(e => e.version === version)) return null;
+
+    const state: Record<string, unknown> = {};
+    for (const event of events.slice(baseline)) {
+      applyChanges(state, event);
+    }
+
+    return { soul: state as unknown as SoulSnapshot, asOf: events[events.length - 1].timestamp };
+  }
+
+  private rowToEvent(columns: string[], values: unknown[]): SoulEvent {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      sequence: row.id as number,
+      did: row.did as string,
+      type: row.type as SoulEventType,
+      actor: row.actor as string,
+      signature: (row.signature as string) || undefined,
+      changes: JSON.parse(row.changes_json as string),
+      version: row.version as number,
+      timestamp: row.created_at as string,
+    };
+  }
+
+  // ============================================
+  // Transparency Log Operations
+  // ============================================
+
+  private appendLogLeaf(event: SoulEvent, state: SoulSnapshot) {
+    const entry = encodeLogEntry(event, state);
+    this.db.run(`
+      INSERT INTO log_leaves (leaf_index, event_id, did, version, entry, leaf_hash)
+      VALUES ((SELECT COUNT(*) FROM log_leaves), ?, ?, ?, ?, ?)
+    `, [event.sequence, event.did, event.version, entry, hashLeaf(entry)]);
+  }
+
+  private backfillLogLeaves() {
+    const counts = this.db.exec(`SELECT (SELECT COUNT(*) FROM soul_events), (SELECT COUNT(*) FROM log_leaves)`);
+    const [events, leaves] = counts[0].values[0] as number[];
+    if (events === leaves) return;
+
+    const result = this.db.exec(`SELECT * FROM soul_events ORDER BY id ASC`);
+    if (!result[0]) return;
+
+    const logged = new Set(
+      (this.db.exec(`SELECT event_id FROM log_leaves`)[0]?.values ?? []).map(row => row[0] as number)
+    );
+    const states = new Map<string, Record<string, unknown>>();
+    for (const values of result[0].values) {
+      const event = this.rowToEvent(result[0].columns, values);
+      if (BASELINE_EVENTS.includes(event.type)) {
+        states.set(event.did, {});
+      }
+      const state = states.get(event.did) ?? {};
+      applyChanges(state, event);
+      states.set(event.did, state);
+
+      if (!logged.has(event.sequence)) {
+        this.appendLogLeaf(event, state as unknown as SoulSnapshot);
+      }
+    }
+  }
+
+  getLogSize(): number {
+    const result = this.db.exec(`SELECT COUNT(*) FROM log_leaves`);
+    return result[0]?.values[0]?.[0] as number || 0;
+  }
+
+  /**
+   * Leaf hashes (hex) of leaves [start, end), in log order
+   */
+  getLogLeafHashes(start: number, end: number): string[] {
+    const result = this.db.exec(`
+      SELECT leaf_hash FROM log_leaves WHERE leaf_index >= ? AND leaf_index < ? ORDER BY leaf_index ASC
+    `, [start, end]);
+    return (result[0]?.values ?? []).map(row => row[0] as string);
+  }
+
+  getLogEntries(start: number, end: number): LogLeaf[] {
+    const result = this.db.exec(`
+      SELECT * FROM log_leaves WHERE leaf_index >= ? AND leaf_index < ? ORDER BY leaf_index ASC
+    `, [start, end]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToLogLeaf(result[0].columns, values));
+  }
+
+  /**
+   * The latest leaf for a soul, or for one version of it
+   */
+  findLogLeaf(did: string, version?: number): LogLeaf | null {
+    const result = version === undefined
+      ? this.db.exec(`SELECT * FROM log_leaves WHERE did = ? ORDER BY leaf_index DESC LIMIT 1`, [did])
+      : this.db.exec(`
+          SELECT * FROM log_leaves WHERE did = ? AND version = ? ORDER BY leaf_index DESC LIMIT 1
+        `, [did, version]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToLogLeaf(result[0].columns, result[0].values[0]);
+  }
+
+  private rowToLogLeaf(columns: string[], values: unknown[]): LogLeaf {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      leafIndex: row.leaf_index as number,
+      leafHash: row.leaf_hash as string,
+      entry: row.entry as string,
+    };
+  }
+
+  // ============================================
+  // Federation Operations
+  // ============================================
+
+  /**
+   * Events this registry originated, for peers to replicate (replicated souls are not re-exported)
+   */
+  getFeedEvents(after: number, limit: number): SoulEvent[] {
+    const result = this.db.exec(`
+      SELECT * FROM soul_events
+      WHERE id > ? AND did NOT IN (SELECT did FROM souls WHERE origin_registry IS NOT NULL)
+      ORDER BY id ASC
+      LIMIT ?
+    `, [after, limit]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToEvent(result[0].columns, values));
+  }
+
+  /**
+   * Write a soul's state as replayed from a peer registry's event.
+   * A "soul.superseded" event takes over a record held here for another origin, keeping its history.
+   */
+  replicateSoul(state: SoulSnapshot, event: SoulEvent, provenance: SoulProvenance): SoulRecord {
+    const before = this.getSoulByDid(state.did);
+    // A takeover happens here and now; anything else when the origin recorded it
+    const changedAt = event.type === 'soul.superseded' ? new Date().toISOString() : event.timestamp;
+    const values = [
+      state.name,
+      nameSkeleton(state.name),
+      state.publicKey,
+      state.birth.timestamp,
+      state.birth.operator,
+      state.birth.baseModel || null,
+      state.birth.platform || null,
+      state.birth.charterHash || null,
+      state.avatar || null,
+      state.description || null,
+      state.website || null,
+      state.contact ? JSON.stringify(state.contact) : null,
+      state.capabilities ? JSON.stringify(state.capabilities) : null,
+      state.riskLevel || null,
+      state.recovery ? JSON.stringify(state.recovery) : null,
+      state.operatorAttested ? 1 : 0,
+      state.currentOperator || null,
+      state.status,
+      state.statusReason || null,
+      state.statusChangedAt || null,
+      state.statusChangedBy || null,
+      state.registeredAt,
+      state.lastVerifiedAt || null,
+      state.verificationCount,
+      event.version,
+      provenance.registry,
+      provenance.url,
+      provenance.sequence,
+      provenance.replicatedAt,
+      state.did,
+    ];
+
+    if (before) {
+      this.db.run(`
+        UPDATE souls
+        SET name = ?, name_skeleton = ?, public_key = ?,
+            birth_timestamp = ?, birth_operator = ?, birth_base_model = ?, birth_platform = ?, birth_charter_hash = ?,
+            avatar = ?, description = ?, website = ?, contact_json = ?, capabilities_json = ?, risk_level = ?, recovery_json = ?,
+            operator_attested = ?, current_operator = ?, status = ?, status_reason = ?, status_changed_at = ?, status_changed_by = ?,
+            registered_at = ?, last_verified_at = ?, verification_count = ?, version = ?,
+            origin_registry = ?, origin_url = ?, origin_sequence = ?, replicated_at = ?,
+            updated_at = datetime('now')
+        WHERE did = ?
+      `, values);
+    } else {
+      this.db.run(`
+        INSERT INTO souls (
+          name, name_skeleton, public_key,
+          birth_timestamp, birth_operator, birth_base_model, birth_platform, birth_charter_hash,
+          avatar, description, website, contact_json, capabilities_json, risk_level, recovery_json,
+          operator_attested, current_operator, status, status_reason, status_changed_at, status_changed_by,
+          registered_at, last_verified_at, verification_count, version,
+          origin_registry, origin_url, origin_sequence, replicated_at,
+          did
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, values);
+    }
+
+    // Key history follows the origin's key changes
+    if (!before) {
+      this.db.run(`
+        INSERT INTO soul_keys (did, public_key, valid_from, reason)
+        VALUES (?, ?, ?, 'registration')
+      `, [state.did, state.publicKey, state.registeredAt]);
+    } else if (before.publicKey !== state.publicKey) {
+      this.db.run(`
+        UPDATE soul_keys SET valid_until = ? WHERE did = ? AND valid_until IS NULL
+      `, [changedAt, state.did]);
+      this.db.run(`
+        INSERT INTO soul_keys (did, public_key, valid_from, reason, signature)
+        VALUES (?, ?, ?, ?, ?)
+      `, [state.did, state.publicKey, changedAt, replicatedKeyReason(event), event.signature || null]);
+    }
+
+    const registryId = this.getSoulByDid(state.did)!._registryId;
+    if (state.status !== (before?.status ?? 'active')) {
+      this.recordStatusChange(registryId, state.did, state.status, changedAt);
+    }
+
+    // Sessions issued here die with the soul's standing, as for local souls, and with a superseded holder
+    if (state.status !== 'active' || event.type === 'soul.superseded') {
+      const now = new Date().toISOString();
+      this.db.run(`
+        UPDATE sessions SET revoked_at = ? WHERE did = ? AND revoked_at IS NULL AND expires_at > ?
+      `, [now, state.did, now]);
+    }
+
+    const after = this.getSoulByDid(state.did)!;
+    const baseline = BASELINE_EVENTS.includes(event.type) ? null : before;
+    this.recordEvent(event.type, baseline, after, { actor: event.actor, signature: event.signature });
+
+    this.save();
+    return after;
+  }
+
+  getFederationPeer(url: string): FederationPeer | null {
+    const result = this.db.exec(`SELECT * FROM federation_peers WHERE url = ?`, [url]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToPeer(result[0].columns, result[0].values[0]);
+  }
+
+  listFederationPeers(): FederationPeer[] {
+    const result = this.db.exec(`SELECT * FROM federation_peers ORDER BY url ASC`);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToPeer(result[0].columns, values));
+  }
+
+  saveFederationPeer(peer: FederationPeer): void {
+    this.db.run(`
+      INSERT INTO federation_peers (url, registry_did, public_key, last_sequence, last_synced_at, last_error)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(url) DO UPDATE SET
+        registry_did = excluded.registry_did,
+        public_key = excluded.public_key,
+        last_sequence = excluded.last_sequence,
+        last_synced_at = excluded.last_synced_at,
+        last_error = excluded.last_error
+    `, [
+      peer.url,
+      peer.registryDid || null,
+      peer.publicKey || null,
+      peer.lastSequence,
+      peer.lastSyncedAt || null,
+      peer.lastError || null,
+    ]);
+    this.save();
+  }
+
+  private rowToPeer(columns: string[], values: unknown[]): FederationPeer {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      url: row.url as string,
+      registryDid: (row.registry_did as string) || undefined,
+      publicKey: (row.public_key as string) || undefined,
+      lastSequence: row.last_sequence as number,
+      lastSyncedAt: (row.last_synced_at as string) || undefined,
+      lastError: (row.last_error as string) || undefined,
+    };
+  }
+
+  recordFederationConflict(conflict: FederationConflict): void {
+    this.db.run(`
+      INSERT INTO federation_conflicts (did, name, peer, winner, existing_json, incoming_json, detected_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      conflict.did,
+      conflict.name,
+      conflict.peer,
+      conflict.winner,
+      JSON.stringify(conflict.existing),
+      JSON.stringify(conflict.incoming),
+      conflict.detectedAt,
+    ]);
+    this.save();
+  }
+
+  listFederationConflicts(limit: number, offset: number): { conflicts: FederationConflict[]; total: number } {
+    const countResult = this.db.exec(`SELECT COUNT(*) FROM federation_conflicts`);
+    const total = countResult[0]?.values[0]?.[0] as number || 0;
+
+    const result = this.db.exec(`
+      SELECT * FROM federation_conflicts ORDER BY id DESC LIMIT ? OFFSET ?
+    `, [limit, offset]);
+    const conflicts: FederationConflict[] = (result[0]?.values ?? []).map(values => {
+      const row: Record<string, unknown> = {};
+      result[0].columns.forEach((col: string, i: number) => {
+        row[col] = values[i];
+      });
+      return {
+        did: row.did as string,
+        name: row.name as string,
+        peer: row.peer as string,
+        winner: row.winner as 'existing' | 'incoming',
+        existing: JSON.parse(row.existing_json as string),
+        incoming: JSON.parse(row.incoming_json as string),
+        detectedAt: row.detected_at as string,
+      };
+    });
+
+    return { conflicts, total };
+  }
+
+  // ============================================
+  // Status List Operations
+  // ============================================
+
+  private recordStatusChange(registryId: number, did: string, status: SoulStatus, changedAt: string) {
+    this.db.run(`
+      INSERT INTO status_changes (registry_id, did, status, changed_at) VALUES (?, ?, ?, ?)
+    `, [registryId, did, status, changedAt]);
+  }
+
+  getStatusListVersion(): number {
+    const result = this.db.exec(`SELECT MAX(version) FROM status_changes`);
+    return result[0]?.values[0]?.[0] as number || 0;
+  }
+
+  /**
+   * Indices whose latest status is one of the given ones
+   */
+  getStatusListIndices(statuses: SoulStatus[]): number[] {
+    const result = this.db.exec(`
+      SELECT registry_id FROM status_changes
+      WHERE version IN (SELECT MAX(version) FROM status_changes GROUP BY registry_id)
+        AND status IN (${statuses.map(() => '?').join(', ')})
+    `, statuses);
+    return (result[0]?.values ?? []).map(row => row[0] as number);
+  }
+
+  getStatusChanges(since: number, limit: number): StatusChange[] {
+    const result = this.db.exec(`
+      SELECT * FROM status_changes WHERE version > ? ORDER BY version ASC LIMIT ?
+    `, [since, limit]);
+    return (result[0]?.values ?? []).map(values => {
+      const row: Record<string, unknown> = {};
+      result[0].columns.forEach((col: string, i: number) => {
+        row[col] = values[i];
+      });
+      return {
+        version: row.version as number,
+        index: row.registry_id as number,
+        did: row.did as string,
+        status: row.status as SoulStatus,
+        changedAt: row.changed_at as string,
+      };
+    });
+  }
+
+  // ============================================
+  // Webhook Operations
+  // ============================================
+
+  createWebhookSubscription(subscription: WebhookSubscription, tokenHash: string): void {
+    this.db.run(`
+      INSERT INTO webhook_subscriptions (id, url, dids_json, events_json, subscriber_did, token_hash, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      subscription.subscriptionId,
+      subscription.url,
+      JSON.stringify(subscription.dids),
+      JSON.stringify(subscription.events),
+      subscription.subscriber,
+      tokenHash,
+      subscription.createdAt,
+    ]);
+    this.save();
+  }
+
+  countWebhookSubscriptions(subscriberDid: string): number {
+    const result = this.db.exec(`SELECT COUNT(*) FROM webhook_subscriptions WHERE subscriber_did = ?`, [subscriberDid]);
+    return result[0]?.values[0]?.[0] as number || 0;
+  }
+
+  /**
+   * A subscription and the hash of its management token
+   */
+  getWebhookSubscription(subscriptionId: string): { subscription: WebhookSubscription; tokenHash: string } | null {
+    const result = this.db.exec(`SELECT * FROM webhook_subscriptions WHERE id = ?`, [subscriptionId]);
+    if (!result[0] || result[0].values.length === 0) return null;
+
+    const row: Record<string, unknown> = {};
+    result[0].columns.forEach((col: string, i: number) => {
+      row[col] = result[0].values[0][i];
+    });
+
+    return {
+      subscription: {
+        subscriptionId: row.id as string,
+        url: row.url as string,
+        dids: JSON.parse(row.dids_json as string),
+        events: JSON.parse(row.events_json as string),
+        subscriber: (row.subscriber_did as string) || null,
+        createdAt: row.created_at as string,
+      },
+      tokenHash: row.token_hash as string,
+    };
+  }
+
+  /**
+   * Drop a subscription; queued deliveries are cancelled, the delivery log is kept
+   */
+  deleteWebhookSubscription(subscriptionId: string): boolean {
+    this.db.run(`DELETE FROM webhook_subscriptions WHERE id = ?`, [subscriptionId]);
+    const deleted = this.db.getRowsModified() > 0;
+    this.db.run(`
+      UPDATE webhook_deliveries SET status = 'failed', last_error = 'Subscription deleted', next_attempt_at = NULL
+      WHERE subscription_id = ? AND status = 'pending'
+    `, [subscriptionId]);
+    this.save();
+    return deleted;
+  }
+
+  private enqueueWebhookDeliveries(event: SoulEvent) {
+    const result = this.db.exec(`
+      SELECT id FROM webhook_subscriptions
+      WHERE EXISTS (SELECT 1 FROM json_each(dids_json) WHERE value = ?)
+        AND EXISTS (SELECT 1 FROM json_each(events_json) WHERE value = ?)
+    `, [event.did, event.type]);
+
+    const now = new Date().toISOString();
+    for (const [subscriptionId] of result[0]?.values ?? []) {
+      const payload: WebhookPayload = {
+        protocol: WEBHOOK_PROTOCOL,
+        deliveryId: generateId('whd'),
+        subscriptionId: subscriptionId as string,
+        event,
+      };
+      this.db.run(`
+        INSERT INTO webhook_deliveries (id, subscription_id, event_id, payload, status, next_attempt_at, created_at)
+        VALUES (?, ?, ?, ?, 'pending', ?, ?)
+      `, [payload.deliveryId, payload.subscriptionId, event.sequence, JSON.stringify(payload), now, now]);
+    }
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due, oldest first
+   */
+  getDueWebhookDeliveries(limit: number): { delivery: WebhookDelivery; url: string }[] {
+    const result = this.db.exec(`
+      SELECT d.*, s.url FROM webhook_deliveries d
+      JOIN webhook_subscriptions s ON s.id = d.subscription_id
+      WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+      ORDER BY d.next_attempt_at ASC
+      LIMIT ?
+    `, [new Date().toISOString(), limit]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => ({
+      delivery: this.rowToDelivery(result[0].columns, values),
+      url: values[result[0].columns.indexOf('url')] as string,
+    }));
+  }
+
+  /**
+   * Record one delivery attempt. A null nextAttemptAt on failure gives up for good.
+   */
+  recordWebhookAttempt(deliveryId: string, outcome: {
+    delivered: boolean;
+    statusCode?: number;
+    error?: string;
+    nextAttemptAt: string | null;
+  }): void {
+    const now = new Date().toISOString();
+    const status: WebhookDeliveryStatus = outcome.delivered ? 'delivered' : outcome.nextAttemptAt ? 'pending' : 'failed';
+    this.db.run(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = attempts + 1, last_attempt_at = ?, last_status_code = ?, last_error = ?,
+          next_attempt_at = ?, delivered_at = ?
+      WHERE id = ?
+    `, [
+      status,
+      now,
+      outcome.statusCode ?? null,
+      outcome.error || null,
+      outcome.delivered ? null : outcome.nextAttemptAt,
+      outcome.delivered ? now : null,
+      deliveryId,
+    ]);
+    this.save();
+  }
+
+  listWebhookDeliveries(subscriptionId: string, params: {
+    status?: WebhookDeliveryStatus;
+    limit: number;
+    offset: number;
+  }): { deliveries: WebhookDelivery[]; total: number } {
+    const conditions = ['subscription_id = ?'];
+    const bindings: any[] = [subscriptionId];
+    if (params.status) {
+      conditions.push('status = ?');
+      bindings.push(params.status);
+    }
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = this.db.exec(`SELECT COUNT(*) FROM webhook_deliveries ${whereClause}`, bindings);
+    const total = countResult[0]?.values[0]?.[0] as number || 0;
+
+    const result = this.db.exec(`
+      SELECT * FROM webhook_deliveries ${whereClause}
+      ORDER BY created_at DESC, event_id DESC
+      LIMIT ? OFFSET ?
+    `, [...bindings, params.limit, params.offset]);
+    const deliveries = result[0] ? result[0].values.map(values => this.rowToDelivery(result[0].columns, values)) : [];
+
+    return { deliveries, total };
+  }
+
+  private rowToDelivery(columns: string[], values: unknown[]): WebhookDelivery {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      deliveryId: row.id as string,
+      subscriptionId: row.subscription_id as string,
+      eventSequence: row.event_id as number,
+      payload: row.payload as string,
+      status: row.status as WebhookDeliveryStatus,
+      attempts: row.attempts as number,
+      nextAttemptAt: (row.next_attempt_at as string) || undefined,
+      lastAttemptAt: (row.last_attempt_at as string) || undefined,
+      lastStatusCode: (row.last_status_code as number) ?? undefined,
+      lastError: (row.last_error as string) || undefined,
+      deliveredAt: (row.delivered_at as string) || undefined,
+      createdAt: row.created_at as string,
+    };
+  }
+
+  // ============================================
+  // Moderation Operations
+  // ============================================
+
+  freezeName(entry: FrozenName): void {
+    this.db.run(`
+      INSERT OR REPLACE INTO frozen_names (name, reason, frozen_by, frozen_at) VALUES (?, ?, ?, ?)
+    `, [entry.name, entry.reason, entry.frozenBy, entry.frozenAt]);
+    this.save();
+  }
+
+  unfreezeName(name: string): boolean {
+    this.db.run(`DELETE FROM frozen_names WHERE name = ?`, [name]);
+    const removed = this.db.getRowsModified() > 0;
+    if (removed) this.save();
+    return removed;
+  }
+
+  getFrozenName(name: string): FrozenName | null {
+    const result = this.db.exec(`SELECT * FROM frozen_names WHERE name = ?`, [name]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToFrozenName(result[0].columns, result[0].values[0]);
+  }
+
+  listFrozenNames(): FrozenName[] {
+    const result = this.db.exec(`SELECT * FROM frozen_names ORDER BY frozen_at DESC`);
+    return result[0] ? result[0].values.map(values => this.rowToFrozenName(result[0].columns, values)) : [];
+  }
+
+  approveName(approval: NameApproval): void {
+    this.db.run(`
+      INSERT OR REPLACE INTO name_approvals (name, public_key, reason, approved_by, approved_at) VALUES (?, ?, ?, ?, ?)
+    `, [approval.name, approval.publicKey, approval.reason, approval.approvedBy, approval.approvedAt]);
+    this.save();
+  }
+
+  removeNameApproval(name: string): boolean {
+    this.db.run(`DELETE FROM name_approvals WHERE name = ?`, [name]);
+    const removed = this.db.getRowsModified() > 0;
+    if (removed) this.save();
+    return removed;
+  }
+
+  getNameApproval(name: string): NameApproval | null {
+    const result = this.db.exec(`SELECT * FROM name_approvals WHERE name = ?`, [name]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToNameApproval(result[0].columns, result[0].values[0]);
+  }
+
+  listNameApprovals(): NameApproval[] {
+    const result = this.db.exec(`SELECT * FROM name_approvals ORDER BY approved_at DESC`);
+    return result[0] ? result[0].values.map(values => this.rowToNameApproval(result[0].columns, values)) : [];
+  }
+
+  createModerationItem(item: ModerationItem): void {
+    this.db.run(`
+      INSERT INTO moderation_items (id, did, kind, body, pending, created_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [item.id, item.did, item.kind, item.body, item.pending ? 1 : 0, item.createdBy, item.createdAt]);
+    this.save();
+  }
+
+  getModerationItem(id: string): ModerationItem | null {
+    const result = this.db.exec(`SELECT * FROM moderation_items WHERE id = ?`, [id]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToModerationItem(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Take an item out of the moderation queue
+   */
+  resolveModerationItem(id: string, resolvedBy: string, resolution: string): boolean {
+    this.db.run(`
+      UPDATE moderation_items SET pending = 0, resolved_by = ?, resolved_at = ?, resolution = ?
+      WHERE id = ? AND pending = 1
+    `, [resolvedBy, new Date().toISOString(), resolution, id]);
+    const resolved = this.db.getRowsModified() > 0;
+    if (resolved) this.save();
+    return resolved;
+  }
+
+  listModerationItems(params: {
+    did?: string;
+    pending?: boolean;
+    limit: number;
+    offset: number;
+  }): { items: ModerationItem[]; total: number } {
+    const conditions: string[] = [];
+    const bindings: any[] = [];
+    if (params.did) {
+      conditions.push('did = ?');
+      bindings.push(params.did);
+    }
+    if (params.pending !== undefined) {
+      conditions.push('pending = ?');
+      bindings.push(params.pending ? 1 : 0);
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = this.db.exec(`SELECT COUNT(*) FROM moderation_items ${whereClause}`, bindings);
+    const total = countResult[0]?.values[0]?.[0] as number || 0;
+
+    // Oldest first, so the queue is worked in order
+    const result = this.db.exec(`
+      SELECT * FROM moderation_items ${whereClause}
+      ORDER BY created_at ASC
+      LIMIT ? OFFSET ?
+    `, [...bindings, params.limit, params.offset]);
+    const items = result[0] ? result[0].values.map(values => this.rowToModerationItem(result[0].columns, values)) : [];
+
+    return { items, total };
+  }
+
+  recordAdminAction(admin: string, action: AdminActionType, target: string, reason?: string): void {
+    this.db.run(`
+      INSERT INTO admin_actions (admin, action, target, reason, created_at) VALUES (?, ?, ?, ?, ?)
+    `, [admin, action, target, reason || null, new Date().toISOString()]);
+    this.save();
+  }
+
+  listAdminActions(params: {
+    admin?: string;
+    limit: number;
+    offset: number;
+  }): { actions: AdminAction[]; total: number } {
+    const whereClause = params.admin ? 'WHERE admin = ?' : '';
+    const bindings: any[] = params.admin ? [params.admin] : [];
+
+    const countResult = this.db.exec(`SELECT COUNT(*) FROM admin_actions ${whereClause}`, bindings);
+    const total = countResult[0]?.values[0]?.[0] as number || 0;
+
+    const result = this.db.exec(`
+      SELECT * FROM admin_actions ${whereClause}
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `, [...bindings, params.limit, params.offset]);
+    const actions = result[0] ? result[0].values.map(values => {
+      const row: Record<string, unknown> = {};
+      result[0].columns.forEach((col: string, i: number) => {
+        row[col] = values[i];
+      });
+      return {
+        id: row.id as number,
+        admin: row.admin as string,
+        action: row.action as AdminActionType,
+        target: row.target as string,
+        reason: (row.reason as string) || undefined,
+        createdAt: row.created_at as string,
+      };
+    }) : [];
+
+    return { actions, total };
+  }
+
+  private rowToNameApproval(columns: string[], values: unknown[]): NameApproval {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      name: row.name as string,
+      publicKey: row.public_key as string,
+      reason: row.reason as string,
+      approvedBy: row.approved_by as string,
+      approvedAt: row.approved_at as string,
+    };
+  }
+
+  private rowToFrozenName(columns: string[], values: unknown[]): FrozenName {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      name: row.name as string,
+      reason: row.reason as string,
+      frozenBy: row.frozen_by as string,
+      frozenAt: row.frozen_at as string,
+    };
+  }
+
+  private rowToModerationItem(columns: string[], values: unknown[]): ModerationItem {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      id: row.id as string,
+      did: row.did as string,
+      kind: row.kind as ModerationItem['kind'],
+      body: row.body as string,
+      pending: row.pending === 1,
+      createdBy: row.created_by as string,
+      createdAt: row.created_at as string,
+      resolvedBy: (row.resolved_by as string) || undefined,
+      resolvedAt: (row.resolved_at as string) || undefined,
+      resolution: (row.resolution as string) || undefined,
+    };
+  }
+
+  // ============================================
+  // Report Operations
+  // ============================================
+
+  /**
+   * `reporterKey` identifies the reporter for rate limiting (a DID or a hashed address)
+   */
+  createReport(report: AbuseReport, reporterKey: string): void {
+    this.db.run(`
+      INSERT INTO reports (
+        id, did, category, description, evidence_json, impersonates,
+        reporter_did, reporter_key, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      report.reportId,
+      report.did,
+      report.category,
+      report.description,
+      JSON.stringify(report.evidence),
+      report.impersonates || null,
+      report.reporterDid || null,
+      reporterKey,
+      report.status,
+      report.createdAt,
+      report.updatedAt,
+    ]);
+    this.save();
+  }
+
+  getReport(reportId: string): AbuseReport | null {
+    const result = this.db.exec(`SELECT * FROM reports WHERE id = ?`, [reportId]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToReport(result[0].columns, result[0].values[0]);
+  }
+
+  countReportsSince(reporterKey: string, since: string): number {
+    const result = this.db.exec(`
+      SELECT COUNT(*) FROM reports WHERE reporter_key = ? AND created_at > ?
+    `, [reporterKey, since]);
+    return result[0]?.values[0]?.[0] as number || 0;
+  }
+
+  hasUnresolvedReport(reporterKey: string, did: string): boolean {
+    const result = this.db.exec(`
+      SELECT 1 FROM reports WHERE reporter_key = ? AND did = ? AND status IN ('open', 'triaged') LIMIT 1
+    `, [reporterKey, did]);
+    return !!result[0]?.values.length;
+  }
+
+  updateReportStatus(reportId: string, status: ReportStatus, handledBy: string, note?: string): void {
+    this.db.run(`
+      UPDATE reports SET status = ?, handled_by = ?, note = COALESCE(?, note), updated_at = ?
+      WHERE id = ?
+    `, [status, handledBy, note || null, new Date().toISOString(), reportId]);
+    this.save();
+  }
+
+  listReports(params: {
+    did?: string;
+    status?: ReportStatus;
+    category?: ReportCategory;
+    limit: number;
+    offset: number;
+  }): { reports: AbuseReport[]; total: number } {
+    const conditions: string[] = [];
+    const bindings: any[] = [];
+    if (params.did) {
+      conditions.push('did = ?');
+      bindings.push(params.did);
+    }
+    if (params.status) {
+      conditions.push('status = ?');
+      bindings.push(params.status);
+    }
+    if (params.category) {
+      conditions.push('category = ?');
+      bindings.push(params.category);
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = this.db.exec(`SELECT COUNT(*) FROM reports ${whereClause}`, bindings);
+    const total = countResult[0]?.values[0]?.[0] as number || 0;
+
+    const result = this.db.exec(`
+      SELECT * FROM reports ${whereClause}
+      ORDER BY created_at ASC
+      LIMIT ? OFFSET ?
+    `, [...bindings, params.limit, params.offset]);
+    const reports = result[0] ? result[0].values.map(values => this.rowToReport(result[0].columns, values)) : [];
+
+    return { reports, total };
+  }
+
+  getReportSummary(did: string): ReportSummary {
+    const summary: ReportSummary = { unresolved: 0, actioned: 0, byCategory: {} };
+    const result = this.db.exec(`
+      SELECT status, category, COUNT(*) FROM reports WHERE did = ? GROUP BY status, category
+    `, [did]);
+    for (const [status, category, count] of result[0]?.values ?? []) {
+      if (status === 'open' || status === 'triaged') {
+        summary.unresolved += count as number;
+        const key = category as ReportCategory;
+        summary.byCategory[key] = (summary.byCategory[key] ?? 0) + (count as number);
+      } else if (status === 'actioned') {
+        summary.actioned += count as number;
+      }
+    }
+    return summary;
+  }
+
+  private rowToReport(columns: string[], values: unknown[]): AbuseReport {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      reportId: row.id as string,
+      did: row.did as string,
+      category: row.category as ReportCategory,
+      description: row.description as string,
+      evidence: JSON.parse(row.evidence_json as string),
+      impersonates: (row.impersonates as string) || undefined,
+      reporterDid: (row.reporter_did as string) || undefined,
+      status: row.status as ReportStatus,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+      handledBy: (row.handled_by as string) || undefined,
+      note: (row.note as string) || undefined,
+    };
+  }
+
+  // ============================================
+  // Key History Operations
+  // ============================================
+
+  /**
+   * Replace a soul's active key, closing the validity window of the old one
+   */
+  rotateSoulKey(
+    did: string,
+    newPublicKey: string,
+    reason: KeyChangeReason,
+    attribution: EventAttribution,
+    expectedVersion?: number
+  ): SoulKey | null {
+    const before = this.getSoulByDid(did);
+    const now = new Date().toISOString();
+    const { where, bindings } = soulAtVersion(did, expectedVersion);
+
+    this.db.run(`
+      UPDATE souls 
+      SET public_key = ?, 
+          version = version + 1, 
+          updated_at = datetime('now')
+      WHERE ${where}
+    `, [newPublicKey, ...bindings]);
+    if (this.db.getRowsModified() === 0) return null;
+
+    this.db.run(`
+      UPDATE soul_keys SET valid_until = ? WHERE did = ? AND valid_until IS NULL
+    `, [now, did]);
+
+    this.db.run(`
+      INSERT INTO soul_keys (did, public_key, valid_from, reason, signature)
+      VALUES (?, ?, ?, ?, ?)
+    `, [did, newPublicKey, now, reason, attribution.signature || null]);
+
+    // Delegates and sessions the old key obtained go with it: a compromised key is why it is usually replaced
+    this.db.run(`
+      UPDATE delegations SET revoked_at = ? WHERE did = ? AND revoked_at IS NULL
+    `, [now, did]);
+    this.db.run(`
+      UPDATE sessions SET revoked_at = ? WHERE did = ? AND revoked_at IS NULL AND expires_at > ?
+    `, [now, did, now]);
+
+    this.recordUpdate('key.rotated', before!, attribution);
+
+    this.save();
+    return { publicKey: newPublicKey, validFrom: now, reason };
+  }
+
+  getSoulKeys(did: string): SoulKey[] {
+    const result = this.db.exec(`SELECT * FROM soul_keys WHERE did = ? ORDER BY id ASC`, [did]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToKey(result[0].columns, values));
+  }
+
+  /**
+   * Find the key that was active for a soul at a given instant
+   */
+  getSoulKeyAt(did: string, at: string): SoulKey | null {
+    const result = this.db.exec(`
+      SELECT * FROM soul_keys
+      WHERE did = ? AND valid_from <= ? AND (valid_until IS NULL OR valid_until > ?)
+      ORDER BY id DESC LIMIT 1
+    `, [did, at, at]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToKey(result[0].columns, result[0].values[0]);
+  }
+
+  private rowToKey(columns: string[], values: unknown[]): SoulKey {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      publicKey: row.public_key as string,
+      validFrom: row.valid_from as string,
+      validUntil: (row.valid_until as string) || undefined,
+      reason: row.reason as KeyChangeReason,
+    };
+  }
+
+  private rowToSoul(columns: string[], values: unknown[]): SoulRecord {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      did: row.did as string,
+      name: row.name as string,
+      publicKey: row.public_key as string,
+      birth: {
+        timestamp: row.birth_timestamp as string,
+        operator: row.birth_operator as string,
+        baseModel: (row.birth_base_model as string) || undefined,
+        platform: (row.birth_platform as string) || undefined,
+        charterHash: (row.birth_charter_hash as string) || undefined,
+      },
+      avatar: (row.avatar as string) || undefined,
+      description: (row.description as string) || undefined,
+      website: (row.website as string) || undefined,
+      contact: row.contact_json ? JSON.parse(row.contact_json as string) : undefined,
+      capabilities: row.capabilities_json ? JSON.parse(row.capabilities_json as string) : undefined,
       riskLevel: (row.risk_level as 'low' | 'medium' | 'high') || undefined,
+      recovery: row.recovery_json ? JSON.parse(row.recovery_json as string) : undefined,
+      operatorAttested: row.operator_attested === 1,
+      currentOperator: (row.current_operator as string) || undefined,
       status: row.status as SoulStatus,
       statusReason: (row.status_reason as string) || undefined,
       statusChangedAt: (row.status_changed_at as string) || undefined,
+      statusChangedBy: (row.status_changed_by as LifecycleAuthority) || undefined,
+      registeredAt: row.registered_at as string,
+      updatedAt: toIsoTimestamp(row.updated_at as string),
+      lastVerifiedAt: (row.last_verified_at as string) || undefined,
+      verificationCount: row.verification_count as number,
+      provenance: row.origin_registry ? {
+        registry: row.origin_registry as string,
+        url: row.origin_url as string,
+        sequence: row.origin_sequence as number,
+        replicatedAt: row.replicated_at as string,
+      } : undefined,
+      _registryId: row.id as number,
+      _version: row.version as number,
+    };
+  }
+
+  // ============================================
+  // Recovery Operations
+  // ============================================
+
+  createRecoveryRequest(request: RecoveryRequest): void {
+    this.db.run(`
+      INSERT INTO recovery_requests (id, did, new_public_key, method, approvals_json, initiated_at, executable_at, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      request.requestId,
+      request.did,
+      request.newPublicKey,
+      request.method,
+      JSON.stringify(request.approvals),
+      request.initiatedAt,
+      request.executableAt,
+      request.status,
+    ]);
+
+    this.save();
+  }
+
+  getRecoveryRequest(requestId: string): RecoveryRequest | null {
+    const result = this.db.exec(`SELECT * FROM recovery_requests WHERE id = ?`, [requestId]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToRecoveryRequest(result[0].columns, result[0].values[0]);
+  }
+
+  listRecoveryRequests(did: string): RecoveryRequest[] {
+    const result = this.db.exec(`SELECT * FROM recovery_requests WHERE did = ? ORDER BY initiated_at DESC`, [did]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToRecoveryRequest(result[0].columns, values));
+  }
+
+  getPendingRecoveryRequest(did: string): RecoveryRequest | null {
+    const result = this.db.exec(`
+      SELECT * FROM recovery_requests WHERE did = ? AND status = 'pending'
+      ORDER BY initiated_at DESC LIMIT 1
+    `, [did]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToRecoveryRequest(result[0].columns, result[0].values[0]);
+  }
+
+  updateRecoveryRequestStatus(requestId: string, status: 'completed' | 'vetoed' | 'cancelled'): void {
+    this.db.run(`
+      UPDATE recovery_requests SET status = ?, resolved_at = ? WHERE id = ?
+    `, [status, new Date().toISOString(), requestId]);
+    this.save();
+  }
+
+  private rowToRecoveryRequest(columns: string[], values: unknown[]): RecoveryRequest {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      requestId: row.id as string,
+      did: row.did as string,
+      newPublicKey: row.new_public_key as string,
+      method: row.method as 'guardians' | 'commitment',
+      approvals: JSON.parse(row.approvals_json as string),
+      initiatedAt: row.initiated_at as string,
+      executableAt: row.executable_at as string,
+      status: row.status as RecoveryRequest['status'],
+      resolvedAt: (row.resolved_at as string) || undefined,
+    };
+  }
+
+  // ============================================
+  // Transfer Operations
+  // ============================================
+
+  createTransfer(transfer: SoulTransfer, offerSignature: string): void {
+    this.db.run(`
+      INSERT INTO soul_transfers (id, did, from_public_key, to_public_key, operator, offer_signature, offered_at, expires_at, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      transfer.transferId,
+      transfer.did,
+      transfer.fromPublicKey,
+      transfer.toPublicKey,
+      transfer.operator || null,
+      offerSignature,
+      transfer.offeredAt,
+      transfer.expiresAt,
+      transfer.status,
+    ]);
+
+    this.save();
+  }
+
+  getTransfer(transferId: string): SoulTransfer | null {
+    const result = this.db.exec(`SELECT * FROM soul_transfers WHERE id = ?`, [transferId]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToTransfer(result[0].columns, result[0].values[0]);
+  }
+
+  listTransfers(did: string): SoulTransfer[] {
+    const result = this.db.exec(`SELECT * FROM soul_transfers WHERE did = ? ORDER BY offered_at DESC`, [did]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToTransfer(result[0].columns, values));
+  }
+
+  getPendingTransfer(did: string): SoulTransfer | null {
+    const result = this.db.exec(`
+      SELECT * FROM soul_transfers WHERE did = ? AND status = 'pending' AND expires_at > ?
+      ORDER BY offered_at DESC LIMIT 1
+    `, [did, new Date().toISOString()]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToTransfer(result[0].columns, result[0].values[0]);
+  }
+
+  cancelTransfer(transferId: string): void {
+    this.db.run(`
+      UPDATE soul_transfers SET status = 'cancelled', resolved_at = ? WHERE id = ? AND status = 'pending'
+    `, [new Date().toISOString(), transferId]);
+    this.save();
+  }
+
+  /**
+   * Hand a soul to the transfer's recipient key (and operator, if the offer named one).
+   * Registration date and verification history stay; the previous owner's recovery
+   * material, pending recoveries, sessions and delegations do not.
+   */
+  completeTransfer(
+    transfer: SoulTransfer,
+    operatorAttested: boolean,
+    attribution: EventAttribution & { signature: string },
+    expectedVersion?: number
+  ): SoulRecord | null {
+    const before = this.getSoulByDid(transfer.did);
+    const now = new Date().toISOString();
+    const { where, bindings } = soulAtVersion(transfer.did, expectedVersion);
+
+    this.db.run(`
+      UPDATE souls
+      SET public_key = ?,
+          current_operator = COALESCE(?, current_operator),
+          operator_attested = ?,
+          recovery_json = NULL,
+          version = version + 1,
+          updated_at = datetime('now')
+      WHERE ${where}
+    `, [transfer.toPublicKey, transfer.operator || null, operatorAttested ? 1 : 0, ...bindings]);
+    if (this.db.getRowsModified() === 0) return null;
+
+    this.db.run(`
+      UPDATE soul_keys SET valid_until = ? WHERE did = ? AND valid_until IS NULL
+    `, [now, transfer.did]);
+    this.db.run(`
+      INSERT INTO soul_keys (did, public_key, valid_from, reason, signature)
+      VALUES (?, ?, ?, 'transfer', ?)
+    `, [transfer.did, transfer.toPublicKey, now, attribution.signature]);
+
+    this.db.run(`
+      UPDATE soul_transfers SET status = 'completed', accept_signature = ?, resolved_at = ? WHERE id = ?
+    `, [attribution.signature, now, transfer.transferId]);
+    this.db.run(`
+      UPDATE recovery_requests SET status = 'cancelled', resolved_at = ? WHERE did = ? AND status = 'pending'
+    `, [now, transfer.did]);
+    this.db.run(`
+      UPDATE sessions SET revoked_at = ? WHERE did = ? AND revoked_at IS NULL AND expires_at > ?
+    `, [now, transfer.did, now]);
+    this.db.run(`
+      UPDATE delegations SET revoked_at = ? WHERE did = ? AND revoked_at IS NULL
+    `, [now, transfer.did]);
+
+    this.recordUpdate('soul.transferred', before!, attribution);
+
+    this.save();
+    return this.getSoulByDid(transfer.did);
+  }
+
+  private rowToTransfer(columns: string[], values: unknown[]): SoulTransfer {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    // Offers lapse without a write; report them as expired once past their deadline
+    const lapsed = row.status === 'pending' && (row.expires_at as string) <= new Date().toISOString();
+    return {
+      transferId: row.id as string,
+      did: row.did as string,
+      fromPublicKey: row.from_public_key as string,
+      toPublicKey: row.to_public_key as string,
+      operator: (row.operator as string) || undefined,
+      offeredAt: row.offered_at as string,
+      expiresAt: row.expires_at as string,
+      status: lapsed ? 'expired' : row.status as TransferStatus,
+      resolvedAt: (row.resolved_at as string) || undefined,
+    };
+  }
+
+  // ============================================
+  // Delegation Operations
+  // ============================================
+
+  createDelegation(delegation: Delegation, signature: string): void {
+    this.db.run(`
+      INSERT INTO delegations (id, did, public_key, scopes_json, label, signature, created_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      delegation.delegationId,
+      delegation.did,
+      delegation.publicKey,
+      JSON.stringify(delegation.scopes),
+      delegation.label || null,
+      signature,
+      delegation.createdAt,
+      delegation.expiresAt,
+    ]);
+
+    this.save();
+  }
+
+  getDelegation(delegationId: string): Delegation | null {
+    const result = this.db.exec(`SELECT * FROM delegations WHERE id = ?`, [delegationId]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToDelegation(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * A soul's delegations, newest first; only unrevoked, unexpired ones when `activeOnly`
+   */
+  listDelegations(did: string, activeOnly = false): Delegation[] {
+    const result = activeOnly
+      ? this.db.exec(`
+          SELECT * FROM delegations WHERE did = ? AND revoked_at IS NULL AND expires_at > ?
+          ORDER BY created_at DESC
+        `, [did, new Date().toISOString()])
+      : this.db.exec(`SELECT * FROM delegations WHERE did = ? ORDER BY created_at DESC`, [did]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToDelegation(result[0].columns, values));
+  }
+
+  revokeDelegation(delegationId: string): boolean {
+    this.db.run(`
+      UPDATE delegations SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL
+    `, [new Date().toISOString(), delegationId]);
+    const revoked = this.db.getRowsModified() > 0;
+    if (revoked) this.save();
+    return revoked;
+  }
+
+  private rowToDelegation(columns: string[], values: unknown[]): Delegation {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      delegationId: row.id as string,
+      did: row.did as string,
+      publicKey: row.public_key as string,
+      scopes: JSON.parse(row.scopes_json as string) as DelegationScope[],
+      label: (row.label as string) || undefined,
+      createdAt: row.created_at as string,
+      expiresAt: row.expires_at as string,
+      revokedAt: (row.revoked_at as string) || undefined,
+    };
+  }
+
+  // ============================================
+  // Capability Vocabulary Operations
+  // ============================================
+
+  /**
+   * Insert or replace a definition (proposals, approvals and rejections all land here)
+   */
+  saveCapability(capability: CapabilityDefinition): void {
+    this.db.run(`
+      INSERT OR REPLACE INTO capabilities (
+        id, parent, description, risk_weight, status, proposed_by, rationale,
+        created_at, reviewed_by, reviewed_at, review_reason
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      capability.id,
+      capability.parent,
+      capability.description,
+      capability.riskWeight,
+      capability.status,
+      capability.proposedBy,
+      capability.rationale || null,
+      capability.createdAt,
+      capability.reviewedBy || null,
+      capability.reviewedAt || null,
+      capability.reviewReason || null,
+    ]);
+    this.save();
+  }
+
+  getCapability(id: string): CapabilityDefinition | null {
+    const result = this.db.exec(`SELECT * FROM capabilities WHERE id = ?`, [id]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToCapability(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Capabilities in a status, by ID; only the direct children of `parent` when given
+   */
+  listCapabilities(status: CapabilityStatus, parent?: string): CapabilityDefinition[] {
+    const result = parent === undefined
+      ? this.db.exec(`SELECT * FROM capabilities WHERE status = ? ORDER BY id`, [status])
+      : this.db.exec(`SELECT * FROM capabilities WHERE status = ? AND parent = ? ORDER BY id`, [status, parent]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToCapability(result[0].columns, values));
+  }
+
+  /**
+   * The approved vocabulary, keyed by ID, for validating and scoring declared capabilities
+   */
+  getCapabilityVocabulary(): Map<string, CapabilityDefinition> {
+    return new Map(this.listCapabilities('approved').map(capability => [capability.id, capability]));
+  }
+
+  countPendingProposals(proposedBy: string): number {
+    const result = this.db.exec(`
+      SELECT COUNT(*) FROM capabilities WHERE status = 'proposed' AND proposed_by = ?
+    `, [proposedBy]);
+    return result[0]?.values[0]?.[0] as number || 0;
+  }
+
+  private rowToCapability(columns: string[], values: unknown[]): CapabilityDefinition {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      id: row.id as string,
+      parent: (row.parent as string) || null,
+      description: row.description as string,
+      riskWeight: row.risk_weight as number,
+      status: row.status as CapabilityStatus,
+      proposedBy: (row.proposed_by as string) || null,
+      rationale: (row.rationale as string) || undefined,
+      createdAt: row.created_at as string,
+      reviewedBy: (row.reviewed_by as string) || undefined,
+      reviewedAt: (row.reviewed_at as string) || undefined,
+      reviewReason: (row.review_reason as string) || undefined,
+    };
+  }
+
+  // ============================================
+  // Charter Operations
+  // ============================================
+
+  /**
+   * Store a charter unless it is already held. Standalone uploads name their uploader, for rate limits.
+   */
+  storeCharter(charter: Charter, uploaderKey?: string): void {
+    this.db.run(`
+      INSERT OR IGNORE INTO charters (hash, media_type, content, size, uploaded_by, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    `, [charter.hash, charter.mediaType, charter.content, charter.size, uploaderKey || null, charter.createdAt]);
+    if (this.db.getRowsModified() > 0) this.save();
+  }
+
+  countChartersUploadedSince(uploaderKey: string, since: string): number {
+    const result = this.db.exec(`
+      SELECT COUNT(*) FROM charters WHERE uploaded_by = ? AND created_at > ?
+    `, [uploaderKey, since]);
+    return result[0]?.values[0]?.[0] as number || 0;
+  }
+
+  getCharter(hash: string): Charter | null {
+    const result = this.db.exec(`SELECT * FROM charters WHERE hash = ?`, [hash]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToCharter(result[0].columns, result[0].values[0]);
+  }
+
+  hasCharter(hash: string): boolean {
+    const result = this.db.exec(`SELECT 1 FROM charters WHERE hash = ?`, [hash]);
+    return !!result[0]?.values.length;
+  }
+
+  addCharterEntry(entry: CharterEntry): void {
+    this.db.run(`
+      INSERT INTO soul_charters (did, sequence, charter_hash, previous_hash, summary, actor, signature, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      entry.did,
+      entry.sequence,
+      entry.charterHash,
+      entry.previousHash,
+      entry.summary || null,
+      entry.actor,
+      entry.signature,
+      entry.createdAt,
+    ]);
+    this.save();
+  }
+
+  /**
+   * A soul's charter history, oldest first
+   */
+  listCharterEntries(did: string): CharterEntry[] {
+    const result = this.db.exec(`SELECT * FROM soul_charters WHERE did = ? ORDER BY sequence`, [did]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToCharterEntry(result[0].columns, values));
+  }
+
+  private rowToCharter(columns: string[], values: unknown[]): Charter {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      hash: row.hash as string,
+      mediaType: row.media_type as Charter['mediaType'],
+      size: row.size as number,
+      content: row.content as string,
+      createdAt: row.created_at as string,
+    };
+  }
+
+  private rowToCharterEntry(columns: string[], values: unknown[]): CharterEntry {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      did: row.did as string,
+      sequence: row.sequence as number,
+      charterHash: row.charter_hash as string,
+      previousHash: (row.previous_hash as string) || null,
+      summary: (row.summary as string) || undefined,
+      actor: row.actor as string,
+      signature: row.signature as string,
+      createdAt: row.created_at as string,
+    };
+  }
+
+  // ============================================
+  // Operator Operations
+  // ============================================
+
+  createOperator(operator: OperatorRecord, signature: string): OperatorRecord {
+    this.db.run(`
+      INSERT INTO operators (name, public_key, contact_json, website, signature, registered_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [
+      operator.name,
+      operator.publicKey,
+      operator.contact ? JSON.stringify(operator.contact) : null,
+      operator.website || null,
+      signature,
+      operator.registeredAt,
+    ]);
+
+    this.save();
+    return operator;
+  }
+
+  getOperatorByName(name: string): OperatorRecord | null {
+    const result = this.db.exec(`SELECT * FROM operators WHERE LOWER(name) = LOWER(?)`, [name]);
+    if (!result[0] || result[0].values.length === 0) return null;
+
+    const columns = result[0].columns;
+    const values = result[0].values[0];
+    const row: Record<string, unknown> = {};
+    columns.forEach((col, i) => {
+      row[col] = values[i];
+    });
+
+    return {
+      name: row.name as string,
+      publicKey: row.public_key as string,
+      contact: row.contact_json ? JSON.parse(row.contact_json as string) : undefined,
+      website: (row.website as string) || undefined,
       registeredAt: row.registered_at as string,
-      lastVerifiedAt: (row.last_verified_at as string) || undefined,
-      verificationCount: row.verification_count as number,
-      _registryId: row.id as number,
-      _version: row.version as number,
     };
   }
 
+  /**
+   * Registered operators whose names are compared with a new operator's name.
+   * An operator counts as established by the souls it has attested.
+   */
+  findOperatorNameHolders(skeleton: string, maxDistance: number): NameHolder[] {
+    const result = this.db.exec(`
+      SELECT o.name, (
+        SELECT COUNT(*) FROM souls s
+        WHERE s.operator_attested = 1 AND LOWER(COALESCE(s.current_operator, s.birth_operator)) = LOWER(o.name)
+      ) FROM operators o
+    `);
+    return (result[0]?.values ?? [])
+      .map(([name, attestedSouls]) => ({
+        did: name as string,
+        name: name as string,
+        skeleton: nameSkeleton(name as string),
+        verificationCount: attestedSouls as number,
+      }))
+      .filter(h => Math.abs(h.skeleton.length - skeleton.length) <= maxDistance);
+  }
+
+  countAttestedSouls(operatorName: string): number {
+    const result = this.db.exec(`
+      SELECT COUNT(*) FROM souls
+      WHERE operator_attested = 1 AND LOWER(COALESCE(current_operator, birth_operator)) = LOWER(?)
+    `, [operatorName]);
+    return result[0]?.values[0]?.[0] as number || 0;
+  }
+
+  // ============================================
+  // Session Operations
+  // ============================================
+
+  createSession(session: Session): void {
+    this.db.run(`
+      INSERT INTO sessions (id, did, audience, issued_at, expires_at)
+      VALUES (?, ?, ?, ?, ?)
+    `, [session.sessionId, session.did, session.audience, session.issuedAt, session.expiresAt]);
+    this.save();
+  }
+
+  getSession(sessionId: string): Session | null {
+    const result = this.db.exec(`SELECT * FROM sessions WHERE id = ?`, [sessionId]);
+    if (!result[0] || result[0].values.length === 0) return null;
+    return this.rowToSession(result[0].columns, result[0].values[0]);
+  }
+
+  /**
+   * Revoked sessions that have not yet expired, for relying-party caches
+   */
+  listRevokedSessions(since?: string): Session[] {
+    const now = new Date().toISOString();
+    const result = this.db.exec(`
+      SELECT * FROM sessions
+      WHERE revoked_at IS NOT NULL AND revoked_at >= ? AND expires_at > ?
+      ORDER BY revoked_at ASC
+    `, [since || '', now]);
+    if (!result[0]) return [];
+    return result[0].values.map(values => this.rowToSession(result[0].columns, values));
+  }
+
+  cleanExpiredSessions(): number {
+    this.db.run(`DELETE FROM sessions WHERE expires_at < ?`, [new Date().toISOString()]);
+    const changes = this.db.getRowsModified();
+    if (changes > 0) this.save();
+    return changes;
+  }
+
+  private rowToSession(columns: string[], values: unknown[]): Session {
+    const row: Record<string, unknown> = {};
+    columns.forEach((col: string, i: number) => {
+      row[col] = values[i];
+    });
+
+    return {
+      sessionId: row.id as string,
+      did: row.did as string,
+      audience: row.audience as string,
+      issuedAt: row.issued_at as string,
+      expiresAt: row.expires_at as string,
+      revokedAt: (row.revoked_at as string) || undefined,
+    };
+  }
+
+  // ============================================
+  // Nonce Operations
+  // ============================================
+
+  /**
+   * Record a nonce as spent. Returns false if it was already used.
+   */
+  consumeNonce(did: string, nonce: string, expiresAt: string): boolean {
+    this.db.run(`
+      INSERT OR IGNORE INTO used_nonces (did, nonce, expires_at) VALUES (?, ?, ?)
+    `, [did, nonce, expiresAt]);
+    const consumed = this.db.getRowsModified() > 0;
+    if (consumed) this.save();
+    return consumed;
+  }
+
+  cleanExpiredNonces(): number {
+    this.db.run(`DELETE FROM used_nonces WHERE expires_at < ?`, [new Date().toISOString()]);
+    const changes = this.db.getRowsModified();
+    if (changes > 0) this.save();
+    return changes;
+  }
+
+  // ============================================
+  // Registry Metadata
+  // ============================================
+
+  getMeta(key: string): string | null {
+    const result = this.db.exec(`SELECT value FROM registry_meta WHERE key = ?`, [key]);
+    return (result[0]?.values[0]?.[0] as string) ?? null;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db.run(`
+      INSERT INTO registry_meta (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = datetime('now')
+    `, [key, value]);
+    this.save();
+  }
+
+  deleteMeta(key: string): void {
+    this.db.run(`DELETE FROM registry_meta WHERE key = ?`, [key]);
+    this.save();
+  }
+
   // ============================================
   // Challenge Operations
   // ============================================
 
   createChallenge(challenge: Challenge): void {
     this.db.run(`
-      INSERT INTO challenges (id, did, nonce, issued_at, expires_at, status)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT INTO challenges (id, did, nonce, issued_at, expires_at, status, audience, purpose, payload, legacy)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       challenge.challengeId,
       challenge.did,
@@ -309,6 +2662,10 @@ export class RegistryDB {
       challenge.issuedAt,
       challenge.expiresAt,
       challenge.status,
+      challenge.audience || null,
+      challenge.purpose || null,
+      challenge.payload || null,
+      challenge.legacy ? 1 : 0,
     ]);
     
     this.save();
@@ -320,18 +2677,22 @@ export class RegistryDB {
 
     const columns = result[0].columns;
     const values = result[0].values[0];
-    const row: any = {};
+    const row: Record<string, unknown> = {};
     columns.forEach((col, i) => {
       row[col] = values[i];
     });
 
     return {
-      challengeId: row.id,
-      did: row.did,
-      nonce: row.nonce,
-      issuedAt: row.issued_at,
-      expiresAt: row.expires_at,
-      status: row.status,
+      challengeId: row.id as string,
+      did: row.did as string,
+      nonce: row.nonce as string,
+      issuedAt: row.issued_at as string,
+      expiresAt: row.expires_at as string,
+      status: row.status as Challenge['status'],
+      audience: (row.audience as string) || undefined,
+      purpose: (row.purpose as string) || undefined,
+      payload: (row.payload as string) || undefined,
+      legacy: row.legacy === 1,
     };
   }
 
@@ -355,3 +2716,72 @@ export class RegistryDB {
     this.db.close();
   }
 }
+
+export interface LogLeaf {
+  leafIndex: number;
+  leafHash: string;
+  entry: string;          // Canonical JSON LogEntry, exactly as hashed
+}
+
+/**
+ * Why a replicated soul's key changed, from the origin event that changed it
+ */
+function replicatedKeyReason(event: SoulEvent): KeyChangeReason {
+  if (event.type === 'soul.transferred') return 'transfer';
+  if (event.type === 'soul.superseded') return 'registration';
+  return event.actor === 'registry' ? 'recovery' : 'rotation';
+}
+
+/**
+ * ISO 8601 form of a stored timestamp, either SQLite's datetime('now') ("YYYY-MM-DD HH:MM:SS",
+ * UTC without a zone designator) or an ISO string, which keeps its own offset
+ */
+function toIsoTimestamp(value: string): string {
+  const iso = value.replace(' ', 'T');
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/i.test(iso) ? iso : `${iso}Z`).toISOString();
+}
+
+// Selects one soul for an update; with `expectedVersion` the update only lands if the soul is still at it
+function soulAtVersion(did: string, expectedVersion?: number): { where: string; bindings: (string | number)[] } {
+  return expectedVersion === undefined
+    ? { where: 'did = ?', bindings: [did] }
+    : { where: 'did = ? AND version = ?', bindings: [did, expectedVersion] };
+}
+
+function namespaceDid(nameOrDid: string): string {
+  return nameOrDid.startsWith('did:soul:') ? nameOrDid : `did:soul:${nameOrDid}`;
+}
+
+function toSnapshot(soul: SoulRecord): SoulSnapshot {
+  const { _registryId, _version, updatedAt, provenance, ...snapshot } = soul;
+  return snapshot;
+}
+
+/**
+ * Apply an event's changes to a replayed soul state
+ */
+function applyChanges(state: Record<string, unknown>, event: SoulEvent) {
+  for (const [field, change] of Object.entries(event.changes)) {
+    if (change.after === undefined) {
+      delete state[field];
+    } else {
+      state[field] = change.after;
+    }
+  }
+}
+
+/**
+ * Field-level before/after diff between two states of a soul
+ */
+function diffSouls(before: SoulRecord | null, after: SoulRecord): Record<string, SoulFieldChange> {
+  const previous = (before ? toSnapshot(before) : {}) as Record<string, unknown>;
+  const current = toSnapshot(after) as Record<string, unknown>;
+
+  const changes: Record<string, SoulFieldChange> = {};
+  for (const field of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+    if (canonicalize(previous[field]) !== canonicalize(current[field])) {
+      changes[field] = { before: previous[field], after: current[field] };
+    }
+  }
+  return changes;
+}
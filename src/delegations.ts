@@ -0,0 +1,38 @@
+import type { Delegation, DelegationScope, MutationAction } from './types.js';
+
+// ============================================
+// Delegate Keys
+// ============================================
+
+export const MAX_ACTIVE_DELEGATIONS = 20;
+export const MAX_DELEGATION_SECONDS = 365 * 24 * 60 * 60;
+
+export interface DelegationViolation {
+  error: string;
+  code: string;
+  status: 401 | 403;
+}
+
+/**
+ * Check that a delegation may sign for a soul within a scope right now
+ */
+export function checkDelegation(
+  delegation: Delegation | null,
+  did: string,
+  scope: DelegationScope | MutationAction,
+  now: Date = new Date()
+): DelegationViolation | null {
+  if (!delegation || delegation.did !== did) {
+    return { error: 'Delegation not found for this soul', code: 'INVALID_DELEGATION', status: 401 };
+  }
+  if (delegation.revokedAt) {
+    return { error: 'Delegation has been revoked', code: 'INVALID_DELEGATION', status: 401 };
+  }
+  if (new Date(delegation.expiresAt) <= now) {
+    return { error: 'Delegation has expired', code: 'INVALID_DELEGATION', status: 401 };
+  }
+  if (!(delegation.scopes as string[]).includes(scope)) {
+    return { error: `Delegation does not allow ${scope}`, code: 'DELEGATION_SCOPE', status: 403 };
+  }
+  return null;
+}
@@ -0,0 +1,148 @@
+import { publicKeyToMultibase } from './crypto.js';
+import { parentNameOf } from './names.js';
+import type { SoulRecord, SoulKey } from './types.js';
+
+// ============================================
+// DID Core Documents (did:soul method)
+// ============================================
+
+export const DID_CONTEXT = [
+  'https://www.w3.org/ns/did/v1',
+  'https://w3id.org/security/multikey/v1',
+];
+
+export const DID_RESOLUTION_CONTEXT = 'https://w3id.org/did-resolution/v1';
+
+// Representations the registry can produce
+export type DidContentType = 'application/did+ld+json' | 'application/did+json';
+
+export interface VerificationMethod {
+  id: string;
+  type: 'Multikey';
+  controller: string;
+  publicKeyMultibase: string;
+}
+
+export interface ServiceEndpoint {
+  id: string;
+  type: string;
+  serviceEndpoint: string;
+}
+
+export interface DidDocument {
+  '@context'?: string[];
+  id: string;
+  controller?: string[];
+  verificationMethod: VerificationMethod[];
+  authentication: string[];
+  assertionMethod: string[];
+  service?: ServiceEndpoint[];
+}
+
+export interface DidDocumentMetadata {
+  created: string;
+  updated?: string;
+  deactivated?: boolean;
+  versionId: string;
+}
+
+export interface DidResolutionMetadata {
+  contentType?: DidContentType;
+  error?: 'invalidDid' | 'notFound' | 'representationNotSupported' | 'methodNotSupported';
+}
+
+export interface DidResolutionResult {
+  '@context': string;
+  didDocument: DidDocument | null;
+  didResolutionMetadata: DidResolutionMetadata;
+  didDocumentMetadata: DidDocumentMetadata | Record<string, never>;
+}
+
+/**
+ * Build the DID document for a soul. Only the active key is listed as a
+ * verification method; retired keys stay available through the key history.
+ */
+export function buildDidDocument(soul: SoulRecord, keys: SoulKey[], contentType: DidContentType): DidDocument {
+  const keyId = `${soul.did}#key-${Math.max(keys.length, 1)}`;
+
+  const doc: DidDocument = {
+    '@context': DID_CONTEXT,
+    id: soul.did,
+    verificationMethod: [{
+      id: keyId,
+      type: 'Multikey',
+      controller: soul.did,
+      publicKeyMultibase: publicKeyToMultibase(soul.publicKey),
+    }],
+    authentication: [keyId],
+    assertionMethod: [keyId],
+  };
+
+  // A namespaced soul is also controlled by its parent
+  const parentName = parentNameOf(soul.name);
+  if (parentName) doc.controller = [soul.did, `did:soul:${parentName.toLowerCase()}`];
+
+  const service = buildServices(soul);
+  if (service.length > 0) doc.service = service;
+
+  // Plain JSON representation carries no JSON-LD context
+  if (contentType === 'application/did+json') delete doc['@context'];
+
+  return doc;
+}
+
+export function buildDidDocumentMetadata(soul: SoulRecord): DidDocumentMetadata {
+  // updated_at has second precision, so it can trail a same-second registration
+  const updated = soul.updatedAt && soul.updatedAt > soul.registeredAt ? soul.updatedAt : soul.registeredAt;
+
+  return {
+    created: soul.registeredAt,
+    updated,
+    deactivated: soul.status === 'revoked' || soul.status === 'deactivated' ? true : undefined,
+    versionId: String(soul._version),
+  };
+}
+
+/**
+ * Map website and contact information onto DID service entries
+ */
+function buildServices(soul: SoulRecord): ServiceEndpoint[] {
+  const contact = soul.contact;
+  const services: ServiceEndpoint[] = [];
+
+  if (soul.website) {
+    services.push({ id: `${soul.did}#website`, type: 'LinkedDomains', serviceEndpoint: soul.website });
+  }
+  if (!contact) return services;
+
+  if (contact.inbox) {
+    services.push({ id: `${soul.did}#inbox`, type: 'AgentInbox', serviceEndpoint: contact.inbox });
+  }
+  if (contact.webhook) {
+    services.push({ id: `${soul.did}#webhook`, type: 'AgentWebhook', serviceEndpoint: contact.webhook });
+  }
+  if (contact.email) {
+    services.push({ id: `${soul.did}#email`, type: 'Email', serviceEndpoint: `mailto:${contact.email}` });
+  }
+  if (contact.agentmail) {
+    services.push({ id: `${soul.did}#agentmail`, type: 'AgentMail', serviceEndpoint: contact.agentmail });
+  }
+
+  return services;
+}
+
+/**
+ * Pick a representation from an Accept header.
+ * Returns 'resolution' for a full DID resolution result, or null if nothing acceptable.
+ */
+export function negotiateDidContentType(accept: string | undefined): DidContentType | 'resolution' | null {
+  if (!accept) return 'resolution';
+
+  const types = accept.split(',').map(t => t.trim().toLowerCase());
+  if (types.some(t => t.startsWith('application/did+ld+json'))) return 'application/did+ld+json';
+  if (types.some(t => t.startsWith('application/did+json'))) return 'application/did+json';
+  if (types.some(t => /^(application\/(ld\+json|json|\*)|\*\/\*)/.test(t))) {
+    return 'resolution';
+  }
+  return null;
+}
@@ -0,0 +1,48 @@
+import { canonicalize, hashSoulDocument } from './crypto.js';
+import {
+  MUTATION_PROTOCOL,
+  type MutationAction,
+  type MutationAuth,
+  type MutationEnvelope,
+} from './types.js';
+
+// ============================================
+// Signed Mutation Envelopes
+// ============================================
+
+/**
+ * Hash of everything a mutation request carries apart from its auth block
+ */
+export function hashMutationPayload(body: Record<string, unknown>): string {
+  const { auth: _auth, ...payload } = body;
+  return hashSoulDocument(payload);
+}
+
+/**
+ * Rebuild the envelope a client must have signed for a mutation
+ */
+export function buildMutationEnvelope(
+  action: MutationAction,
+  did: string,
+  body: Record<string, unknown>,
+  auth: Omit<MutationAuth, 'signature'>,
+  target: string | null = null
+): MutationEnvelope {
+  return {
+    protocol: MUTATION_PROTOCOL,
+    action,
+    did,
+    target,
+    payloadHash: hashMutationPayload(body),
+    timestamp: auth.timestamp,
+    nonce: auth.nonce,
+    expectedVersion: auth.expectedVersion,
+  };
+}
+
+/**
+ * The exact string signed for a mutation
+ */
+export function encodeMutationEnvelope(envelope: MutationEnvelope): string {
+  return canonicalize(envelope);
+}
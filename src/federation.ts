@@ -0,0 +1,297 @@
+import { canonicalize, hashSoulDocument, multibaseToPublicKey, signMessage, verifySignature } from './crypto.js';
+import type { RegistryDB } from './db.js';
+import type { RegistryIdentity } from './issuer.js';
+import type { z } from 'zod';
+import {
+  FEED_PROTOCOL,
+  PeerDidDocumentSchema,
+  PeerSoulSchema,
+  SignedFeedBatchSchema,
+  SoulDocumentSchema,
+  type FederationPeer,
+  type PeerSoul,
+  type SoulEvent,
+  type SoulRecord,
+  type SoulSnapshot,
+} from './types.js';
+
+// ============================================
+// Registry Federation (signed replication feeds)
+// ============================================
+
+export interface FeedBatch {
+  protocol: typeof FEED_PROTOCOL;
+  registry: string;
+  after: number;
+  nextAfter: number;        // Cursor for the next request
+  hasMore: boolean;
+  events: SoulEvent[];
+  timestamp: string;
+}
+
+// The registry signs canonicalize(FeedBatch)
+export interface SignedFeedBatch extends FeedBatch {
+  keyId: string;
+  signature: string;
+}
+
+export interface SyncResult {
+  peer: string;
+  applied: number;
+  skipped: number;
+  conflicts: number;
+  lastSequence: number;
+  error?: string;
+}
+
+// Requests between registries carry this header so resolution never bounces back to a peer
+export const FEDERATION_HEADER = 'X-Soul-Federation';
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+const PEER_TIMEOUT_MS = 5000;
+
+/**
+ * Sign the next page of this registry's events
+ */
+export async function buildFeedBatch(
+  db: RegistryDB,
+  issuer: RegistryIdentity,
+  after: number,
+  limit: number
+): Promise<SignedFeedBatch> {
+  // Fetch one extra event to learn whether another page exists
+  const events = db.getFeedEvents(after, limit + 1);
+  const page = events.slice(0, limit);
+
+  const batch: FeedBatch = {
+    protocol: FEED_PROTOCOL,
+    registry: issuer.did,
+    after,
+    nextAfter: page.length > 0 ? page[page.length - 1].sequence : after,
+    hasMore: events.length > limit,
+    events: page,
+    timestamp: new Date().toISOString(),
+  };
+
+  return {
+    ...batch,
+    keyId: issuer.keyId,
+    signature: await signMessage(canonicalize(batch), issuer.privateKey),
+  };
+}
+
+export async function verifyFeedBatch(batch: SignedFeedBatch, publicKey: string): Promise<boolean> {
+  const { keyId: _keyId, signature, ...unsigned } = batch;
+  return verifySignature(canonicalize(unsigned), signature, publicKey);
+}
+
+/**
+ * Replay a verified batch from a peer into the local registry.
+ *
+ * Replicated souls stay owned by their origin: only that peer's events update them.
+ * When a registration collides with a soul already held here (same DID or name), the one its
+ * origin registry registered first keeps the name and the collision is recorded as a conflict.
+ * A holder that loses is superseded in place, never deleted: its history and keys are kept.
+ */
+export async function applyFeedBatch(
+  db: RegistryDB,
+  batch: SignedFeedBatch,
+  peerUrl: string
+): Promise<Omit<SyncResult, 'peer' | 'lastSequence'>> {
+  let applied = 0;
+  let skipped = 0;
+  let conflicts = 0;
+
+  for (const event of batch.events) {
+    const provenance = {
+      registry: batch.registry,
+      url: peerUrl,
+      sequence: event.sequence,
+      replicatedAt: new Date().toISOString(),
+    };
+
+    // Events carrying a soul's full state must be signed by the soul, whatever their type
+    if (event.type === 'soul.registered' || event.type === 'soul.snapshot' || event.type === 'soul.superseded') {
+      const incoming = replay({}, event) as unknown as SoulSnapshot;
+
+      if (!(await hasValidRegistrationSignature(incoming, event))) {
+        skipped++;
+        continue;
+      }
+
+      const holder = db.getSoulByDid(incoming.did) ?? db.getSoulByName(incoming.name);
+      const conflicting = holder !== null && holder.provenance?.registry !== batch.registry;
+      if (conflicting) {
+        // A holder whose DID differs (only in letter case) cannot be taken over in place, so it keeps the name
+        const incomingWins = holder.did === incoming.did && registeredFirst(incoming, holder);
+        db.recordFederationConflict({
+          did: incoming.did,
+          name: incoming.name,
+          peer: peerUrl,
+          winner: incomingWins ? 'incoming' : 'existing',
+          existing: toSnapshot(holder),
+          incoming,
+          detectedAt: new Date().toISOString(),
+        });
+        conflicts++;
+        if (!incomingWins) {
+          skipped++;
+          continue;
+        }
+      }
+
+      db.replicateSoul(incoming, conflicting ? { ...event, type: 'soul.superseded' } : event, provenance);
+      applied++;
+      continue;
+    }
+
+    const holder = db.getSoulByDid(event.did);
+    if (!holder || holder.provenance?.registry !== batch.registry || event.sequence <= holder.provenance.sequence) {
+      skipped++;
+      continue;
+    }
+
+    const state = replay(toSnapshot(holder) as unknown as Record<string, unknown>, event) as unknown as SoulSnapshot;
+    db.replicateSoul(state, event, provenance);
+    applied++;
+  }
+
+  return { applied, skipped, conflicts };
+}
+
+/**
+ * Pull and replay everything new from one peer registry.
+ * The peer's registry DID and key are pinned on first contact.
+ */
+export async function syncPeer(
+  db: RegistryDB,
+  url: string,
+  fetchFn: FetchLike = fetch,
+  pageSize = 100
+): Promise<SyncResult> {
+  const peer: FederationPeer = db.getFederationPeer(url) ?? { url, lastSequence: 0 };
+  const result: SyncResult = { peer: url, applied: 0, skipped: 0, conflicts: 0, lastSequence: peer.lastSequence };
+
+  try {
+    if (!peer.registryDid || !peer.publicKey) {
+      const didDocument = await fetchJson(fetchFn, `${url}/.well-known/did.json`, PeerDidDocumentSchema);
+      peer.registryDid = didDocument.id;
+      peer.publicKey = multibaseToPublicKey(didDocument.verificationMethod[0].publicKeyMultibase);
+    }
+
+    let hasMore = true;
+    while (hasMore) {
+      const batch: SignedFeedBatch = await fetchJson(
+        fetchFn,
+        `${url}/v1/federation/feed?after=${peer.lastSequence}&limit=${pageSize}`,
+        SignedFeedBatchSchema
+      );
+      if (batch.registry !== peer.registryDid || !(await verifyFeedBatch(batch, peer.publicKey!))) {
+        throw new Error('Feed batch signature does not match the pinned peer key');
+      }
+
+      const counts = await applyFeedBatch(db, batch, url);
+      result.applied += counts.applied;
+      result.skipped += counts.skipped;
+      result.conflicts += counts.conflicts;
+
+      peer.lastSequence = batch.nextAfter;
+      hasMore = batch.hasMore && batch.events.length > 0;
+    }
+
+    peer.lastError = undefined;
+  } catch (error) {
+    peer.lastError = error instanceof Error ? error.message : String(error);
+    result.error = peer.lastError;
+  }
+
+  peer.lastSyncedAt = new Date().toISOString();
+  db.saveFederationPeer(peer);
+  result.lastSequence = peer.lastSequence;
+  return result;
+}
+
+/**
+ * Ask peers, in order, to resolve a DID this registry does not know.
+ * Only a well-formed answer for the DID asked about is accepted, and only its soul fields are kept.
+ */
+export async function resolveFromPeers(
+  urls: string[],
+  did: string,
+  fetchFn: FetchLike = fetch
+): Promise<{ soul: PeerSoul; peer: string } | null> {
+  for (const url of urls) {
+    try {
+      const res = await fetchFn(`${url}/v1/souls/${encodeURIComponent(did)}`, {
+        headers: { [FEDERATION_HEADER]: '1' },
+        signal: AbortSignal.timeout(PEER_TIMEOUT_MS),
+      });
+      if (!res.ok) continue;
+
+      const parsed = PeerSoulSchema.safeParse(await res.json());
+      if (!parsed.success || parsed.data.did.toLowerCase() !== did.toLowerCase()) {
+        console.error(`Peer resolution failed (${url}): invalid answer for ${did}`);
+        continue;
+      }
+      return { soul: parsed.data, peer: url };
+    } catch (error) {
+      console.error(`Peer resolution failed (${url}):`, error);
+    }
+  }
+  return null;
+}
+
+async function fetchJson<T>(fetchFn: FetchLike, url: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+  const res = await fetchFn(url, {
+    headers: { [FEDERATION_HEADER]: '1' },
+    signal: AbortSignal.timeout(PEER_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`${url} returned ${res.status}`);
+  }
+  const parsed = schema.safeParse(await res.json());
+  if (!parsed.success) {
+    throw new Error(`${url} returned a malformed response`);
+  }
+  return parsed.data;
+}
+
+/**
+ * The registration signature covers the soul document, which must be well formed and name its DID
+ */
+async function hasValidRegistrationSignature(state: SoulSnapshot, event: SoulEvent): Promise<boolean> {
+  if (!event.signature) return false;
+  const document: Record<string, unknown> = {};
+  for (const field of Object.keys(SoulDocumentSchema.shape)) {
+    document[field] = (state as unknown as Record<string, unknown>)[field];
+  }
+  const parsed = SoulDocumentSchema.safeParse(document);
+  if (!parsed.success || parsed.data.did.toLowerCase() !== `did:soul:${parsed.data.name.toLowerCase()}`) {
+    return false;
+  }
+  return verifySignature(hashSoulDocument(document), event.signature, parsed.data.publicKey);
+}
+
+// Birth timestamps are self-declared, so the origin registry's signed registration time decides;
+// the holder keeps the name on a tie (or when either time is unreadable)
+function registeredFirst(incoming: SoulSnapshot, holder: SoulRecord): boolean {
+  return new Date(incoming.registeredAt).getTime() < new Date(holder.registeredAt).getTime();
+}
+
+function replay(state: Record<string, unknown>, event: SoulEvent): Record<string, unknown> {
+  const next = { ...state };
+  for (const [field, change] of Object.entries(event.changes)) {
+    if (change.after === undefined) {
+      delete next[field];
+    } else {
+      next[field] = change.after;
+    }
+  }
+  return next;
+}
+
+function toSnapshot(soul: SoulRecord): SoulSnapshot {
+  const { _registryId, _version, updatedAt, provenance, ...snapshot } = soul;
+  return snapshot;
+}
@@ -1,4 +1,21 @@
 // Soul Protocol Platform - Main Exports
 export * from './types.js';
 export * from './crypto.js';
-export { RegistryDB } from './db.js';
+export * from './did.js';
+export * from './issuer.js';
+export * from './credentials.js';
+export * from './sessions.js';
+export * from './envelope.js';
+export * from './transparency.js';
+export * from './federation.js';
+export * from './webhooks.js';
+export * from './stream.js';
+export * from './statuslist.js';
+export * from './lifecycle.js';
+export * from './admin.js';
+export * from './reports.js';
+export * from './names.js';
+export * from './delegations.js';
+export * from './search.js';
+export * from './capabilities.js';
+export { RegistryDB, type LogLeaf } from './db.js';
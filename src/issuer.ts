@@ -0,0 +1,92 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { base64UrlEncode, generatePrivateKey, getPublicKey, publicKeyToMultibase } from './crypto.js';
+import type { RegistryDB } from './db.js';
+import { DID_CONTEXT, type DidDocument } from './did.js';
+
+// ============================================
+// Registry Issuer Identity
+// ============================================
+
+export interface RegistryIdentity {
+  did: string;
+  keyId: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface RegistryKeySource {
+  privateKey?: string;   // Hex key, e.g. from REGISTRY_PRIVATE_KEY
+  keyFile: string;       // Read on start; written (mode 0600) when the key is generated
+}
+
+// Where earlier versions kept the key, in plaintext alongside the data
+const LEGACY_SIGNING_KEY_META = 'signing_key';
+
+/**
+ * Load the registry's Ed25519 signing key.
+ * An explicit key wins; otherwise the key file is used, and a fresh key is generated into it on first start.
+ * A key left in the database by earlier versions is moved to the key file and removed from the database.
+ */
+export async function loadRegistryIdentity(
+  db: RegistryDB,
+  did: string,
+  { privateKey, keyFile }: RegistryKeySource
+): Promise<RegistryIdentity> {
+  const legacyKey = db.getMeta(LEGACY_SIGNING_KEY_META);
+  let key = privateKey || readKeyFile(keyFile);
+  if (!key) {
+    key = legacyKey || generatePrivateKey();
+    writeFileSync(keyFile, `${key}\n`, { mode: 0o600, flag: 'wx' });
+  }
+  if (legacyKey) db.deleteMeta(LEGACY_SIGNING_KEY_META);
+
+  return {
+    did,
+    keyId: `${did}#registry-key-1`,
+    publicKey: await getPublicKey(key),
+    privateKey: key,
+  };
+}
+
+function readKeyFile(keyFile: string): string | null {
+  if (!existsSync(keyFile)) return null;
+  const key = readFileSync(keyFile, 'utf8').trim();
+  if (!/^[0-9a-f]{64}$/i.test(key)) {
+    throw new Error(`Registry key file ${keyFile} does not hold a hex Ed25519 private key`);
+  }
+  return key;
+}
+
+/**
+ * DID document publishing the registry's issuer key
+ */
+export function buildRegistryDidDocument(identity: RegistryIdentity): DidDocument {
+  return {
+    '@context': DID_CONTEXT,
+    id: identity.did,
+    verificationMethod: [{
+      id: identity.keyId,
+      type: 'Multikey',
+      controller: identity.did,
+      publicKeyMultibase: publicKeyToMultibase(identity.publicKey),
+    }],
+    authentication: [identity.keyId],
+    assertionMethod: [identity.keyId],
+  };
+}
+
+/**
+ * JWKS publishing the registry key for local JWT validation
+ */
+export function buildJwks(identity: RegistryIdentity) {
+  return {
+    keys: [{
+      kty: 'OKP',
+      crv: 'Ed25519',
+      x: base64UrlEncode(Buffer.from(identity.publicKey, 'hex')),
+      kid: identity.keyId,
+      use: 'sig',
+      alg: 'EdDSA',
+    }],
+  };
+}
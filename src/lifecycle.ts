@@ -0,0 +1,129 @@
+import type { LifecycleAuthority, MutationAction, SoulRecord, SoulStatus } from './types.js';
+
+// ============================================
+// Soul Lifecycle (status transitions)
+// ============================================
+
+export type StatusAction = Extract<MutationAction, `status.${string}`>;
+
+export interface LifecycleTransition {
+  action: StatusAction;
+  from: SoulStatus;
+  to: SoulStatus;
+  authorities: LifecycleAuthority[];
+  cooldown: boolean;        // Must wait out the policy cool-down after entering `from`
+}
+
+export interface LifecyclePolicy {
+  reactivationCooldownSeconds: number;
+}
+
+export interface LifecycleViolation {
+  error: string;
+  code: string;
+  status: 403 | 409 | 425;
+  details?: Record<string, unknown>;
+}
+
+// Every allowed status change; anything not listed is rejected. Nothing leaves "revoked".
+export const LIFECYCLE_TRANSITIONS: LifecycleTransition[] = [
+  { action: 'status.suspend', from: 'active', to: 'suspended', authorities: ['soul', 'operator', 'parent', 'admin'], cooldown: false },
+  { action: 'status.deactivate', from: 'active', to: 'deactivated', authorities: ['soul'], cooldown: false },
+  { action: 'status.reactivate', from: 'suspended', to: 'active', authorities: ['soul', 'operator', 'parent', 'admin'], cooldown: true },
+  { action: 'status.reactivate', from: 'deactivated', to: 'active', authorities: ['soul'], cooldown: true },
+  { action: 'status.revoke', from: 'active', to: 'revoked', authorities: ['soul', 'operator', 'parent', 'admin'], cooldown: false },
+  { action: 'status.revoke', from: 'suspended', to: 'revoked', authorities: ['soul', 'operator', 'parent', 'admin'], cooldown: false },
+  { action: 'status.revoke', from: 'deactivated', to: 'revoked', authorities: ['soul', 'operator', 'parent', 'admin'], cooldown: false },
+];
+
+// A suspension can only be lifted by the party that imposed it or a stronger one
+const AUTHORITY_RANK: Record<LifecycleAuthority, number> = { soul: 0, operator: 1, parent: 2, admin: 3 };
+
+/**
+ * Check a requested status change against the lifecycle rules.
+ * Returns the transition to apply, or the rule it breaks.
+ */
+export function checkTransition(
+  soul: SoulRecord,
+  action: StatusAction,
+  authority: LifecycleAuthority,
+  policy: LifecyclePolicy,
+  now: Date = new Date()
+): { transition: LifecycleTransition } | { violation: LifecycleViolation } {
+  if (soul.status === 'revoked') {
+    return {
+      violation: {
+        error: 'Revoked souls cannot change status',
+        code: 'SOUL_REVOKED',
+        status: 403,
+      },
+    };
+  }
+
+  const transition = LIFECYCLE_TRANSITIONS.find(t => t.action === action && t.from === soul.status);
+  if (!transition) {
+    return {
+      violation: {
+        error: `Cannot ${action.slice('status.'.length)} a soul that is ${soul.status}`,
+        code: 'INVALID_TRANSITION',
+        status: 409,
+        details: {
+          status: soul.status,
+          allowedFrom: LIFECYCLE_TRANSITIONS.filter(t => t.action === action).map(t => t.from),
+        },
+      },
+    };
+  }
+
+  if (!transition.authorities.includes(authority)) {
+    return {
+      violation: {
+        error: `The ${authority} may not ${action.slice('status.'.length)} a ${soul.status} soul`,
+        code: 'AUTHORITY_NOT_PERMITTED',
+        status: 403,
+        details: { authority, permitted: transition.authorities },
+      },
+    };
+  }
+
+  const changedBy = soul.statusChangedBy ?? 'soul';
+  if (transition.to === 'active' && AUTHORITY_RANK[authority] < AUTHORITY_RANK[changedBy]) {
+    return {
+      violation: {
+        error: `Only the ${changedBy} or a stronger authority can lift this ${soul.status} status`,
+        code: 'AUTHORITY_NOT_PERMITTED',
+        status: 403,
+        details: { authority, statusChangedBy: changedBy },
+      },
+    };
+  }
+
+  // The registry admin may cut a cool-down short
+  if (transition.cooldown && authority !== 'admin' && soul.statusChangedAt) {
+    const availableAt = new Date(new Date(soul.statusChangedAt).getTime() + policy.reactivationCooldownSeconds * 1000);
+    if (availableAt > now) {
+      return {
+        violation: {
+          error: 'Status cool-down has not elapsed',
+          code: 'STATUS_COOLDOWN',
+          status: 425,
+          details: { availableAt: availableAt.toISOString() },
+        },
+      };
+    }
+  }
+
+  return { transition };
+}
+
+const AUTHORITY_LABELS: Record<LifecycleAuthority, string> = {
+  soul: 'owner', operator: 'operator', parent: 'parent', admin: 'registry',
+};
+
+/**
+ * Human-readable status, e.g. "suspended by registry" (undefined while active)
+ */
+export function describeStatus(soul: SoulRecord): string | undefined {
+  if (soul.status === 'active') return undefined;
+  return `${soul.status} by ${AUTHORITY_LABELS[soul.statusChangedBy ?? 'soul']}`;
+}
@@ -0,0 +1,150 @@
+// ============================================
+// Name Policy (reserved, confusable and near-duplicate names)
+// ============================================
+
+export interface NamePolicy {
+  reserved: string[];                   // Nobody may register these (compared by skeleton)
+  blockedTerms: string[];               // Names may not contain these (compared by skeleton)
+  maxEditDistance: number;              // Skeletons this close count as near-duplicates
+  protectedVerificationCount: number;   // Souls verified this often are protected from near-duplicates
+  nearDuplicateRequirement: 'operator-attestation' | 'admin-approval';
+}
+
+// An existing soul (or operator) a new name is compared against
+export interface NameHolder {
+  did: string;                          // The operator's name for operators
+  name: string;
+  skeleton: string;
+  verificationCount: number;
+}
+
+export type NamePolicyRule = 'reserved' | 'blocked-term' | 'confusable' | 'near-duplicate';
+
+export interface NamePolicyViolation {
+  rule: NamePolicyRule;
+  error: string;
+  details: Record<string, unknown>;
+}
+
+export interface NameContext {
+  operatorAttested: boolean;
+  adminApproved: boolean;               // An admin approval overrides every rule except blocked terms
+}
+
+export const DEFAULT_RESERVED_NAMES = [
+  'admin', 'administrator', 'api', 'help', 'official', 'registry', 'root', 'security',
+  'soul', 'soulprotocol', 'staff', 'support', 'system', 'verify', 'verified', 'www',
+];
+
+// Characters and digraphs that render alike; digraphs are replaced first
+const LOOKALIKE_DIGRAPHS: [string, string][] = [['rn', 'm'], ['vv', 'w'], ['cl', 'd']];
+const LOOKALIKE_CHARS: Record<string, string> = {
+  '0': 'o', '1': 'l', 'i': 'l', '|': 'l', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g', 'v': 'u',
+};
+
+/**
+ * Canonical form two names share when a reader could mistake one for the other:
+ * lowercased, separators stripped, lookalike characters folded together
+ */
+export function nameSkeleton(name: string): string {
+  let skeleton = name.toLowerCase().replace(/[-_.]/g, '');
+  for (const [from, to] of LOOKALIKE_DIGRAPHS) {
+    skeleton = skeleton.split(from).join(to);
+  }
+  return [...skeleton].map(ch => LOOKALIKE_CHARS[ch] ?? ch).join('');
+}
+
+/**
+ * Levenshtein distance, giving up (returning max + 1) once it exceeds `max`
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Check a requested name against the policy and the souls already holding similar names.
+ * Returns the first rule the name breaks, or null.
+ */
+export function checkNamePolicy(
+  name: string,
+  holders: NameHolder[],
+  policy: NamePolicy,
+  context: NameContext
+): NamePolicyViolation | null {
+  const skeleton = nameSkeleton(name);
+
+  const term = policy.blockedTerms.find(t => skeleton.includes(nameSkeleton(t)));
+  if (term) {
+    return {
+      rule: 'blocked-term',
+      error: 'Name contains a blocked term',
+      details: { term },
+    };
+  }
+
+  if (context.adminApproved) return null;
+
+  const reserved = policy.reserved.find(r => nameSkeleton(r) === skeleton);
+  if (reserved) {
+    return {
+      rule: 'reserved',
+      error: 'Name is reserved',
+      details: { reserved },
+    };
+  }
+
+  const lookalike = holders.find(h => h.skeleton === skeleton);
+  if (lookalike) {
+    return {
+      rule: 'confusable',
+      error: `Name can be mistaken for "${lookalike.name}"`,
+      details: { conflictsWith: lookalike.did, skeleton },
+    };
+  }
+
+  if (policy.nearDuplicateRequirement === 'operator-attestation' && context.operatorAttested) return null;
+
+  for (const holder of holders) {
+    if (holder.verificationCount < policy.protectedVerificationCount) continue;
+    // One edit apart is normal between short names
+    if (Math.min(skeleton.length, holder.skeleton.length) < 4) continue;
+    const distance = editDistance(skeleton, holder.skeleton, policy.maxEditDistance);
+    if (distance <= policy.maxEditDistance) {
+      return {
+        rule: 'near-duplicate',
+        error: `Name is too close to the established name "${holder.name}"`,
+        details: { conflictsWith: holder.did, distance, requirement: policy.nearDuplicateRequirement },
+      };
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Namespaces (did:soul:acme:support-bot)
+// ============================================
+
+export const NAMESPACE_SEPARATOR = ':';
+
+/**
+ * Name of the soul whose namespace this name lives under, or null for a top-level name
+ */
+export function parentNameOf(name: string): string | null {
+  const separator = name.lastIndexOf(NAMESPACE_SEPARATOR);
+  return separator > 0 ? name.slice(0, separator) : null;
+}
@@ -0,0 +1,103 @@
+import { randomBytes } from 'crypto';
+import { sha256 } from '@noble/hashes/sha256';
+import { base64UrlDecode, base64UrlEncode, signMessage, verifySignature } from './crypto.js';
+import type { RegistryIdentity } from './issuer.js';
+import type { ReportStatus } from './types.js';
+
+// ============================================
+// Abuse Reports
+// ============================================
+
+export interface PowChallenge {
+  challenge: string;        // "{base64url claims}.{hex registry signature}"
+  difficulty: number;       // Leading zero bits required of SHA-256("{challenge}:{solution}")
+  expiresAt: string;
+}
+
+interface PowClaims {
+  id: string;
+  difficulty: number;
+  expiresAt: string;
+}
+
+export type PowCheck =
+  | { valid: true; id: string; expiresAt: string }
+  | { valid: false; error: string };
+
+// Triage moves forward only; actioned and dismissed reports are closed
+export const REPORT_TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+  open: ['triaged', 'actioned', 'dismissed'],
+  triaged: ['actioned', 'dismissed'],
+  actioned: [],
+  dismissed: [],
+};
+
+/**
+ * Stateless proof-of-work challenge for anonymous reporters, signed so it cannot be forged
+ */
+export async function issuePowChallenge(
+  issuer: RegistryIdentity,
+  difficulty: number,
+  ttlSeconds: number
+): Promise<PowChallenge> {
+  const claims: PowClaims = {
+    id: randomBytes(16).toString('hex'),
+    difficulty,
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+  };
+  const encoded = base64UrlEncode(JSON.stringify(claims));
+  return {
+    challenge: `${encoded}.${await signMessage(encoded, issuer.privateKey)}`,
+    difficulty,
+    expiresAt: claims.expiresAt,
+  };
+}
+
+/**
+ * Check a solved challenge. Single use is up to the caller (the returned `id`).
+ */
+export async function checkPowSolution(
+  challenge: string,
+  solution: string,
+  issuer: RegistryIdentity,
+  now: Date = new Date()
+): Promise<PowCheck> {
+  const [encoded, signature] = challenge.split('.');
+  if (!encoded || !signature || !(await verifySignature(encoded, signature, issuer.publicKey))) {
+    return { valid: false, error: 'Challenge was not issued by this registry' };
+  }
+
+  const claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(encoded))) as PowClaims;
+  if (new Date(claims.expiresAt) <= now) {
+    return { valid: false, error: 'Challenge expired' };
+  }
+  if (leadingZeroBits(sha256(new TextEncoder().encode(`${challenge}:${solution}`))) < claims.difficulty) {
+    return { valid: false, error: 'Solution does not meet the difficulty' };
+  }
+
+  return { valid: true, id: claims.id, expiresAt: claims.expiresAt };
+}
+
+/**
+ * Brute-force a solution (for clients; expect about 2^difficulty hashes)
+ */
+export function solvePowChallenge(challenge: string, difficulty: number): string {
+  for (let counter = 0; ; counter++) {
+    const solution = counter.toString(16);
+    if (leadingZeroBits(sha256(new TextEncoder().encode(`${challenge}:${solution}`))) >= difficulty) {
+      return solution;
+    }
+  }
+}
+
+function leadingZeroBits(hash: Uint8Array): number {
+  let bits = 0;
+  for (const byte of hash) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
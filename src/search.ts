@@ -0,0 +1,68 @@
+import { base64UrlDecode, base64UrlEncode } from './crypto.js';
+import type { SearchSort } from './types.js';
+
+// ============================================
+// Soul Search (full text, cursors)
+// ============================================
+
+// How much a hit counts in each indexed column, in index column order (name, description, capabilities)
+const COLUMN_WEIGHTS = [4, 1, 2];
+
+// Keyset position of the last result on a page: the sort value and the row id breaking ties
+export interface SearchCursor {
+  sort: SearchSort;
+  value: string | number;
+  id: number;
+}
+
+/**
+ * Turn free text into an FTS4 query: every word must appear, each as a prefix.
+ * Returns null when the text holds no searchable words.
+ */
+export function ftsQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map(word => `${word}*`).join(' ') : null;
+}
+
+/**
+ * Relevance of one row from FTS4 matchinfo(..., 'pcy'): weighted hits in that row only.
+ * 'y' carries no corpus-wide statistics, so a soul's score moves only when its own text does;
+ * a relevance cursor is stable unless a soul near the page boundary is edited between pages.
+ */
+export function searchRank(matchinfo: Uint8Array | null): number {
+  if (!matchinfo) return 0;
+  const info = new Uint32Array(Uint8Array.from(matchinfo).buffer);
+  const [phrases, columns] = info;
+  let score = 0;
+  for (let phrase = 0; phrase < phrases; phrase++) {
+    for (let column = 0; column < columns; column++) {
+      score += (COLUMN_WEIGHTS[column] ?? 1) * info[2 + phrase * columns + column];
+    }
+  }
+  return score;
+}
+
+/**
+ * LIKE pattern for a user pattern where `*` is the only wildcard
+ */
+export function likePattern(pattern: string): string {
+  return pattern.replace(/[\\%_]/g, ch => `\\${ch}`).replace(/\*/g, '%');
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return base64UrlEncode(JSON.stringify([cursor.sort, cursor.value, cursor.id]));
+}
+
+/**
+ * Read a cursor from a previous page. Returns null if it is malformed or was made for another sort.
+ */
+export function decodeSearchCursor(encoded: string, sort: SearchSort): SearchCursor | null {
+  try {
+    const [cursorSort, value, id] = JSON.parse(new TextDecoder().decode(base64UrlDecode(encoded)));
+    if (cursorSort !== sort || !Number.isInteger(id)) return null;
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    return { sort, value, id };
+  } catch {
+    return null;
+  }
+}
@@ -3,19 +3,131 @@ import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { serveStatic } from '@hono/node-server/serve-static';
 import { serve } from '@hono/node-server';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { createNodeWebSocket } from '@hono/node-ws';
+import { streamSSE } from 'hono/streaming';
 import { RegistryDB } from './db.js';
-import { generateNonce, generateChallengeId, verifySignature, hashSoulDocument } from './crypto.js';
 import {
+  buildDidDocument,
+  buildDidDocumentMetadata,
+  negotiateDidContentType,
+  DID_RESOLUTION_CONTEXT,
+  type DidResolutionResult,
+} from './did.js';
+import { loadRegistryIdentity, buildRegistryDidDocument, buildJwks, type RegistryIdentity } from './issuer.js';
+import { issueSessionToken, verifySessionToken } from './sessions.js';
+import { buildMutationEnvelope, encodeMutationEnvelope } from './envelope.js';
+import { appendLeaf, createMerkleTree, signTreeHead, treeConsistencyProof, treeInclusionProof, treeRoot, treeSize, type SignedTreeHead } from './transparency.js';
+import { buildFeedBatch, resolveFromPeers, syncPeer, FEDERATION_HEADER } from './federation.js';
+import { deliverDueWebhooks, hashManagementToken, type WebhookRetryPolicy } from './webhooks.js';
+import { followSoulEvents } from './stream.js';
+import { buildStatusListCredential, encodeStatusList, statusListEntries } from './statuslist.js';
+import { checkTransition, describeStatus, type LifecyclePolicy, type StatusAction } from './lifecycle.js';
+import {
+  buildAdminEnvelope,
+  encodeAdminEnvelope,
+  parseAdminKeys,
+  ADMIN_HEADER,
+  ADMIN_NONCE_HEADER,
+  ADMIN_SIGNATURE_HEADER,
+  ADMIN_TIMESTAMP_HEADER,
+} from './admin.js';
+import { checkPowSolution, issuePowChallenge, REPORT_TRANSITIONS } from './reports.js';
+import { checkDelegation, MAX_ACTIVE_DELEGATIONS, MAX_DELEGATION_SECONDS } from './delegations.js';
+import { ftsQuery, decodeSearchCursor } from './search.js';
+import { assessRisk, checkCapabilities, isCustomCapability, parentCapabilityOf } from './capabilities.js';
+import { checkNamePolicy, nameSkeleton, parentNameOf, DEFAULT_RESERVED_NAMES, type NamePolicy } from './names.js';
+import {
+  buildVerificationCredential,
+  addDataIntegrityProof,
+  encodeCredentialJwt,
+  verifyCredential,
+  type VerifiableCredential,
+} from './credentials.js';
+import {
+  generateNonce,
+  generateChallengeId,
+  generateId,
+  encodeChallengePayload,
+  verifySignature,
+  hashSoulDocument,
+  hashPublicKey,
+  hashCharter,
+  normalizeSignature,
+  sha256Canonical,
+  isValidPublicKey,
+} from './crypto.js';
+import {
+  DidSchema,
   RegisterRequestSchema,
   VerifyRequestSchema,
   SearchParamsSchema,
+  HistoryParamsSchema,
+  LogEntriesParamsSchema,
+  InclusionParamsSchema,
+  ConsistencyParamsSchema,
+  FeedParamsSchema,
+  ConflictParamsSchema,
+  WebhookSubscribeSchema,
+  DeliveryParamsSchema,
+  EventStreamParamsSchema,
+  StatusPurposeSchema,
+  StatusChangesParamsSchema,
   StatusUpdateSchema,
+  AdminStatusUpdateSchema,
+  NameFreezeSchema,
+  NameApprovalSchema,
+  ModerationNoteSchema,
+  ModerationResolveSchema,
+  ModerationParamsSchema,
+  AdminActionsParamsSchema,
+  ReportRequestSchema,
+  ReportUpdateSchema,
+  ReportParamsSchema,
   ContactUpdateSchema,
   CapabilitiesUpdateSchema,
+  ProfileUpdateSchema,
+  IMMUTABLE_SOUL_FIELDS,
+  KeyRotationSchema,
+  RecoveryUpdateSchema,
+  RecoveryInitiateSchema,
+  RecoveryVetoSchema,
+  TransferOfferSchema,
+  TransferAcceptSchema,
+  TransferCancelSchema,
+  DelegationCreateSchema,
+  DelegationRevokeSchema,
+  OperatorRegisterRequestSchema,
+  CredentialVerifyRequestSchema,
+  SessionIntrospectSchema,
+  ChallengeRequestSchema,
+  CHALLENGE_PROTOCOL,
+  type ChallengePayload,
+  type MutationAction,
+  type MutationAuth,
+  type LifecycleAuthority,
+  type EventAttribution,
+  type MutationSigner,
+  type AdminIdentity,
+  type AbuseReport,
   type SoulRecord,
+  type WebhookSubscription,
+  type RecoveryConfig,
   type RegisterResponse,
   type VerifyResponse,
   type SearchResponse,
+  CapabilityParamsSchema,
+  CapabilityProposalSchema,
+  CapabilityReviewSchema,
+  CAPABILITY_ID_PATTERN,
+  type CapabilityDefinition,
+  type CapabilityMode,
+  CharterUploadSchema,
+  CharterAmendmentSchema,
+  CHARTER_HASH_PATTERN,
+  type Charter,
+  type CharterUpload,
+  type CharterStatus,
   type Contact,
 } from './types.js';
 
@@ -24,12 +136,97 @@ import {
 // ============================================
 
 const app = new Hono();
+const { injectWebSocket, upgradeWebSocket } = createNodeWebSocket({ app });
 let db: RegistryDB;
+let registry: RegistryIdentity;
+
+// Registry issuer identity (signs credentials)
+const REGISTRY_DID = process.env.REGISTRY_DID || 'did:web:soulprotocol.dev';
+const CREDENTIAL_TTL = parseInt(process.env.CREDENTIAL_TTL_SECONDS || '86400', 10); // 24 hours
+const SESSION_TTL = parseInt(process.env.SESSION_TTL_SECONDS || '900', 10);           // 15 minutes
+
+// Public base URL, used in status list links inside credentials (defaults to the did:web host)
+const REGISTRY_URL = (process.env.REGISTRY_URL || `https://${REGISTRY_DID.replace(/^did:web:/, '').replace(/:/g, '/')}`)
+  .replace(/\/+$/, '');
+const STATUS_LISTS_URL = `${REGISTRY_URL}/v1/status-lists`;
+const STATUS_LIST_TTL = parseInt(process.env.STATUS_LIST_TTL_SECONDS || '300', 10); // 5 minutes
+
+// Key recovery time lock, in seconds
+const RECOVERY_DEFAULT_DELAY = parseInt(process.env.RECOVERY_DEFAULT_DELAY_SECONDS || '259200', 10); // 72 hours
+const RECOVERY_MIN_DELAY = parseInt(process.env.RECOVERY_MIN_DELAY_SECONDS || '3600', 10);          // 1 hour
+
+// How long a name transfer offer stays open when the offer sets no expiry, in seconds
+const TRANSFER_OFFER_TTL = parseInt(process.env.TRANSFER_OFFER_TTL_SECONDS || '604800', 10); // 7 days
+
+// Signed mutations: accepted timestamp window, and end of the legacy signature formats
+const MUTATION_MAX_AGE_MS = 5 * 60 * 1000;
+const MUTATION_MAX_SKEW_MS = 60 * 1000;
+const LEGACY_SIGNATURES_UNTIL = new Date(process.env.LEGACY_SIGNATURES_UNTIL || '2027-04-30T00:00:00Z');
+
+// Peer registries to replicate from (comma-separated base URLs)
+const FEDERATION_PEERS = (process.env.FEDERATION_PEERS || '')
+  .split(',')
+  .map(url => url.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+const FEDERATION_SYNC_INTERVAL = parseInt(process.env.FEDERATION_SYNC_SECONDS || '300', 10); // 5 minutes
+
+// Webhook delivery retries (exponential backoff)
+const WEBHOOK_RETRY_POLICY: WebhookRetryPolicy = {
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+  baseDelaySeconds: parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30', 10),
+  maxDelaySeconds: 6 * 60 * 60,
+};
+const WEBHOOK_MAX_SUBSCRIPTIONS = parseInt(process.env.WEBHOOK_MAX_SUBSCRIPTIONS || '20', 10); // Per subscribing soul
+const WEBHOOK_ALLOW_PRIVATE_ADDRESSES = process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === 'true';
+
+// Registry admins ("name:publicKey", comma-separated); admin routes are closed when none are set
+const ADMIN_KEYS = parseAdminKeys(process.env.REGISTRY_ADMIN_KEYS || '');
+
+// Soul lifecycle
+const LIFECYCLE_POLICY: LifecyclePolicy = {
+  reactivationCooldownSeconds: parseInt(process.env.REACTIVATION_COOLDOWN_SECONDS || '86400', 10), // 24 hours
+};
+
+// Name policy: reserved and blocked names (comma-separated) and protection for well-verified souls
+const listFromEnv = (value: string | undefined) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+const NAME_POLICY: NamePolicy = {
+  reserved: [...DEFAULT_RESERVED_NAMES, ...listFromEnv(process.env.RESERVED_NAMES)],
+  blockedTerms: listFromEnv(process.env.BLOCKED_NAME_TERMS),
+  maxEditDistance: parseInt(process.env.NAME_MAX_EDIT_DISTANCE || '1', 10),
+  protectedVerificationCount: parseInt(process.env.PROTECTED_VERIFICATION_COUNT || '10', 10),
+  nearDuplicateRequirement: process.env.NAME_NEAR_DUPLICATE_REQUIREMENT === 'admin-approval'
+    ? 'admin-approval'
+    : 'operator-attestation',
+};
+
+// Capability vocabulary: "strict" accepts only approved capabilities, "permissive" also custom "x-" ones
+const CAPABILITY_MODE: CapabilityMode = process.env.CAPABILITY_VALIDATION === 'strict' ? 'strict' : 'permissive';
+const MAX_PENDING_PROPOSALS = 5;  // Open capability proposals per soul
+
+// Abuse reports: anonymous proof-of-work difficulty (leading zero bits) and per-reporter rate limit
+const REPORT_POW_DIFFICULTY = parseInt(process.env.REPORT_POW_DIFFICULTY || '20', 10);
+const REPORT_POW_TTL = 10 * 60;
+const REPORT_RATE_LIMIT = parseInt(process.env.REPORT_RATE_LIMIT || '5', 10);
+const REPORT_RATE_WINDOW_MS = 60 * 60 * 1000;
+
+// Reverse proxies in front of the registry whose X-Forwarded-For entries are trusted ("true" means one)
+const TRUST_PROXY_HOPS = process.env.TRUST_PROXY === 'true' ? 1 : parseInt(process.env.TRUST_PROXY || '0', 10) || 0;
+
+// Standalone charter uploads per client address and hour
+const CHARTER_UPLOAD_LIMIT = parseInt(process.env.CHARTER_UPLOAD_LIMIT || '20', 10);
+const CHARTER_UPLOAD_WINDOW_MS = 60 * 60 * 1000;
+
+// How long guardian approvals stay usable after they were signed
+const RECOVERY_APPROVAL_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 // Initialize database
 async function initDB() {
   db = new RegistryDB(process.env.DATABASE_PATH || './registry.db');
   await db.init();
+  registry = await loadRegistryIdentity(db, REGISTRY_DID, {
+    privateKey: process.env.REGISTRY_PRIVATE_KEY,
+    keyFile: process.env.REGISTRY_KEY_FILE || './registry.key',
+  });
 }
 
 // Middleware
@@ -58,11 +255,64 @@ app.get('/v1', (c) => {
     endpoints: {
       register: 'POST /v1/souls/register',
       resolve: 'GET /v1/souls/:didOrName',
+      history: 'GET /v1/souls/:didOrName/history',
       challenge: 'POST /v1/souls/:didOrName/challenge',
       verify: 'POST /v1/souls/:didOrName/verify',
       contact: 'PUT /v1/souls/:didOrName/contact',
       capabilities: 'PUT /v1/souls/:didOrName/capabilities',
-      search: 'GET /v1/souls',
+      updateProfile: 'PATCH /v1/souls/:didOrName',
+      status: 'POST /v1/souls/:didOrName/{suspend|reactivate|deactivate|revoke}',
+      keys: 'GET /v1/souls/:didOrName/keys',
+      rotateKey: 'POST /v1/souls/:didOrName/keys/rotate',
+      recovery: 'GET|PUT /v1/souls/:didOrName/recovery',
+      initiateRecovery: 'POST /v1/souls/:didOrName/recovery',
+      vetoRecovery: 'POST /v1/souls/:didOrName/recovery/:requestId/veto',
+      finalizeRecovery: 'POST /v1/souls/:didOrName/recovery/:requestId/finalize',
+      transfers: 'GET|POST /v1/souls/:didOrName/transfers',
+      acceptTransfer: 'POST /v1/souls/:didOrName/transfers/:transferId/accept',
+      cancelTransfer: 'POST /v1/souls/:didOrName/transfers/:transferId/cancel',
+      delegations: 'GET|POST /v1/souls/:didOrName/delegations',
+      revokeDelegation: 'POST /v1/souls/:didOrName/delegations/:delegationId/revoke',
+      search: 'GET /v1/souls?q=:text',
+      capabilityVocabulary: 'GET|POST /v1/capabilities',
+      capabilityDefinition: 'GET /v1/capabilities/:capabilityId',
+      uploadCharter: 'POST /v1/charters',
+      charterDocument: 'GET /v1/charters/:hash',
+      soulCharter: 'GET /v1/souls/:didOrName/charter',
+      amendCharter: 'POST /v1/souls/:didOrName/charter/amendments',
+      didDocument: 'GET /v1/souls/:didOrName/did',
+      universalResolver: 'GET /1.0/identifiers/:did',
+      verifyCredential: 'POST /v1/credentials/verify',
+      registryDid: 'GET /.well-known/did.json',
+      jwks: 'GET /.well-known/jwks.json',
+      introspectSession: 'POST /v1/sessions/introspect',
+      revokedSessions: 'GET /v1/sessions/revocations',
+      registerOperator: 'POST /v1/operators/register',
+      operator: 'GET /v1/operators/:name',
+      logHead: 'GET /v1/log/head',
+      logEntries: 'GET /v1/log/entries',
+      inclusionProof: 'GET /v1/log/inclusion',
+      consistencyProof: 'GET /v1/log/consistency',
+      federationFeed: 'GET /v1/federation/feed',
+      federationPeers: 'GET /v1/federation/peers',
+      federationConflicts: 'GET /v1/federation/conflicts',
+      subscribeWebhook: 'POST /v1/webhooks',
+      webhook: 'GET|DELETE /v1/webhooks/:subscriptionId',
+      webhookDeliveries: 'GET /v1/webhooks/:subscriptionId/deliveries',
+      events: 'GET /v1/events (SSE)',
+      eventsWebSocket: 'GET /v1/events/ws (WebSocket)',
+      statusList: 'GET /v1/status-lists/:purpose (revocation|suspension)',
+      statusListChanges: 'GET /v1/status-lists/changes?since=:version',
+      adminStatus: 'POST /v1/admin/souls/:didOrName/{suspend|reactivate|revoke} (admin-signed)',
+      adminNotes: 'POST /v1/admin/souls/:didOrName/notes (admin-signed)',
+      adminFrozenNames: 'GET /v1/admin/frozen-names, PUT|DELETE /v1/admin/frozen-names/:name (admin-signed)',
+      adminNameApprovals: 'GET /v1/admin/name-approvals, PUT|DELETE /v1/admin/name-approvals/:name (admin-signed)',
+      adminCapabilities: 'PUT /v1/admin/capabilities/:capabilityId, POST /v1/admin/capabilities/:capabilityId/reject (admin-signed)',
+      adminModeration: 'GET /v1/admin/moderation, POST /v1/admin/moderation/:itemId/resolve (admin-signed)',
+      adminActions: 'GET /v1/admin/actions (admin-signed)',
+      reportChallenge: 'POST /v1/reports/challenge',
+      report: 'POST /v1/souls/:didOrName/reports',
+      adminReports: 'GET /v1/admin/reports, POST /v1/admin/reports/:reportId (admin-signed)',
     },
   });
 });
@@ -84,7 +334,7 @@ app.post('/v1/souls/register', async (c) => {
       }, 400);
     }
 
-    const { soulDocument, signature } = parsed.data;
+    const { soulDocument, signature, operatorProof, parentAuth, charter } = parsed.data;
 
     // Check if name matches DID
     const expectedDid = `did:soul:${soulDocument.name.toLowerCase()}`;
@@ -95,6 +345,32 @@ app.post('/v1/souls/register', async (c) => {
       }, 400);
     }
 
+    const unknownCapabilities = rejectUnknownCapabilities(c, soulDocument.capabilities);
+    if (unknownCapabilities) return unknownCapabilities;
+
+    // birth.charterHash must name a charter the registry holds or is handed now
+    const charterHash = soulDocument.birth.charterHash;
+    if (charter && !charterHash) {
+      return c.json({
+        error: 'A charter was sent but birth.charterHash is not set',
+        code: 'INVALID_REQUEST',
+      }, 400);
+    }
+    if (charterHash && charter && hashCharter(charter.content) !== charterHash) {
+      return c.json({
+        error: 'Charter does not match birth.charterHash',
+        code: 'CHARTER_HASH_MISMATCH',
+        details: { charterHash, actual: hashCharter(charter.content) },
+      }, 400);
+    }
+    if (charterHash && !charter && !db.hasCharter(charterHash)) {
+      return c.json({
+        error: 'No charter with this hash; upload it to /v1/charters or send it as "charter"',
+        code: 'CHARTER_NOT_FOUND',
+        details: { charterHash },
+      }, 400);
+    }
+
     // Check if already registered
     const existing = db.getSoulByName(soulDocument.name);
     if (existing) {
@@ -104,6 +380,50 @@ app.post('/v1/souls/register', async (c) => {
       }, 409);
     }
 
+    if (db.getFrozenName(soulDocument.name)) {
+      return c.json({
+        error: 'Soul name is frozen by the registry',
+        code: 'NAME_FROZEN',
+      }, 409);
+    }
+
+    // Namespaced souls ("acme:support-bot") are created by their parent
+    const parentName = parentNameOf(soulDocument.name);
+    const parent = parentName ? db.getSoulByName(parentName) : null;
+    if (parentName) {
+      if (!parent) {
+        return c.json({
+          error: `Parent soul "${parentName}" is not registered`,
+          code: 'PARENT_NOT_FOUND',
+        }, 400);
+      }
+      if (parent.status !== 'active') {
+        return c.json({
+          error: `Parent soul is ${parent.status}`,
+          code: 'PARENT_NOT_ACTIVE',
+        }, 403);
+      }
+      if (!parentAuth) {
+        return c.json({
+          error: 'Namespaced souls require parentAuth signed by the parent soul',
+          code: 'INVALID_REQUEST',
+        }, 400);
+      }
+    } else if (parentAuth) {
+      return c.json({
+        error: 'parentAuth only applies to namespaced souls',
+        code: 'INVALID_REQUEST',
+      }, 400);
+    }
+
+    // Check recovery material, if any was declared at birth
+    if (soulDocument.recovery) {
+      const recoveryError = checkRecoveryConfig(soulDocument.did, soulDocument.recovery);
+      if (recoveryError) {
+        return c.json(recoveryError, 400);
+      }
+    }
+
     // Verify signature
     const docHash = hashSoulDocument(soulDocument);
     const validSignature = await verifySignature(docHash, signature, soulDocument.publicKey);
@@ -114,20 +434,76 @@ app.post('/v1/souls/register', async (c) => {
       }, 401);
     }
 
+    // Verify operator countersignature over the same document hash
+    if (operatorProof) {
+      const operator = db.getOperatorByName(soulDocument.birth.operator);
+      if (!operator) {
+        return c.json({
+          error: 'Operator is not registered',
+          code: 'OPERATOR_NOT_FOUND',
+        }, 400);
+      }
+
+      const validProof = await verifySignature(docHash, operatorProof, operator.publicKey);
+      if (!validProof) {
+        return c.json({
+          error: 'Invalid operator proof',
+          code: 'INVALID_OPERATOR_PROOF',
+        }, 401);
+      }
+    }
+
+    if (parent) {
+      const denied = await authorizeMutation(c, parent, 'child.create', { soulDocument }, parentAuth, null, soulDocument.did);
+      if (denied) return denied;
+    }
+
+    // Name policy: reserved, confusable and near-duplicate names (a namespace is its parent's to fill)
+    const approval = db.getNameApproval(soulDocument.name);
+    const adminApproved = approval?.publicKey === soulDocument.publicKey;
+    const violation = parent ? null : checkNamePolicy(
+      soulDocument.name,
+      db.findNameHolders(nameSkeleton(soulDocument.name), NAME_POLICY.maxEditDistance),
+      NAME_POLICY,
+      { operatorAttested: !!operatorProof, adminApproved }
+    );
+    if (violation) {
+      return c.json({
+        error: violation.error,
+        code: 'NAME_POLICY_VIOLATION',
+        details: { rule: violation.rule, ...violation.details },
+      }, 409);
+    }
+
     // Create soul record
     const now = new Date().toISOString();
     const soul = db.createSoul({
       ...soulDocument,
+      operatorAttested: !!operatorProof,
       status: 'active',
       registeredAt: now,
       verificationCount: 0,
-    });
+    }, { actor: soulDocument.did, signature }, operatorProof);
+    if (adminApproved) db.removeNameApproval(soulDocument.name);
+    if (charterHash) {
+      if (charter) db.storeCharter(buildCharter(charter));
+      db.addCharterEntry({
+        did: soul.did,
+        sequence: 0,
+        charterHash,
+        previousHash: null,
+        actor: soul.did,
+        signature,
+        createdAt: now,
+      });
+    }
 
     const response: RegisterResponse = {
       success: true,
       did: soul.did,
       registeredAt: soul.registeredAt,
       registryUrl: `${getBaseUrl(c)}/v1/souls/${encodeURIComponent(soul.did)}`,
+      operatorAttested: soul.operatorAttested,
     };
 
     return c.json(response, 201);
@@ -140,6 +516,102 @@ app.post('/v1/souls/register', async (c) => {
   }
 });
 
+// ============================================
+// Operators (v6 - attested operators)
+// ============================================
+
+app.post('/v1/operators/register', async (c) => {
+  try {
+    const body = await c.req.json();
+    const parsed = OperatorRegisterRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { operator, signature } = parsed.data;
+
+    if (db.getOperatorByName(operator.name)) {
+      return c.json({
+        error: 'Operator name already registered',
+        code: 'NAME_TAKEN',
+      }, 409);
+    }
+
+    if (!isValidPublicKey(operator.publicKey)) {
+      return c.json({
+        error: 'Public key is not a valid Ed25519 key',
+        code: 'INVALID_PUBLIC_KEY',
+      }, 400);
+    }
+
+    // Operators prove key ownership by signing their own document
+    const validSignature = await verifySignature(hashSoulDocument(operator), signature, operator.publicKey);
+    if (!validSignature) {
+      return c.json({
+        error: 'Invalid signature',
+        code: 'INVALID_SIGNATURE',
+      }, 401);
+    }
+
+    // Operator names follow the soul name policy; operators holding attested souls are the established ones,
+    // and nobody attests an operator, so only an admin clears a near-duplicate
+    const approval = db.getNameApproval(operator.name);
+    const adminApproved = approval?.publicKey === operator.publicKey;
+    const violation = checkNamePolicy(
+      operator.name,
+      db.findOperatorNameHolders(nameSkeleton(operator.name), NAME_POLICY.maxEditDistance),
+      { ...NAME_POLICY, nearDuplicateRequirement: 'admin-approval' },
+      { operatorAttested: false, adminApproved }
+    );
+    if (violation) {
+      return c.json({
+        error: violation.error,
+        code: 'NAME_POLICY_VIOLATION',
+        details: { rule: violation.rule, ...violation.details },
+      }, 409);
+    }
+
+    const record = db.createOperator({
+      ...operator,
+      registeredAt: new Date().toISOString(),
+    }, signature);
+    if (adminApproved) db.removeNameApproval(operator.name);
+
+    return c.json({
+      success: true,
+      name: record.name,
+      registeredAt: record.registeredAt,
+      registryUrl: `${getBaseUrl(c)}/v1/operators/${encodeURIComponent(record.name)}`,
+    }, 201);
+  } catch (error) {
+    console.error('Operator registration error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+app.get('/v1/operators/:name', async (c) => {
+  const operator = db.getOperatorByName(decodeURIComponent(c.req.param('name')));
+  if (!operator) {
+    return c.json({
+      error: 'Operator not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  return c.json({
+    ...operator,
+    attestedSouls: db.countAttestedSouls(operator.name),
+  });
+});
+
 // ============================================
 // Resolution
 // ============================================
@@ -158,17 +630,172 @@ app.get('/v1/souls/:didOrName', async (c) => {
   }
 
   if (!soul) {
+    // Unknown DIDs may live on a peer registry (but never bounce a peer's own lookup onward)
+    if (didOrName.startsWith('did:soul:') && FEDERATION_PEERS.length > 0 && !c.req.header(FEDERATION_HEADER)) {
+      const remote = await resolveFromPeers(FEDERATION_PEERS, didOrName);
+      if (remote) {
+        return c.json({
+          ...remote.soul,
+          resolvedFrom: remote.peer,
+        });
+      }
+    }
+
     return c.json({
       error: 'Soul not found',
       code: 'NOT_FOUND',
     }, 404);
   }
 
+  // Historical state, reconstructed from the change history
+  const versionParam = c.req.query('version');
+  if (versionParam !== undefined) {
+    const version = Number(versionParam);
+    if (!Number.isInteger(version) || version < 1) {
+      return c.json({
+        error: 'Invalid "version"',
+        code: 'INVALID_PARAMS',
+      }, 400);
+    }
+
+    const historical = db.getSoulAtVersion(soul.did, version);
+    if (!historical) {
+      return c.json({
+        error: 'Version not found in the soul\'s history',
+        code: 'VERSION_NOT_FOUND',
+        details: { currentVersion: soul._version },
+      }, 404);
+    }
+
+    return c.json({
+      ...historical.soul,
+      version,
+      asOf: historical.asOf,
+      leafIndex: db.findLogLeaf(soul.did, version)?.leafIndex,
+    });
+  }
+
   // Return public soul data (exclude internal fields)
   const { _registryId, _version, ...publicSoul } = soul;
-  return c.json(publicSoul);
+  return c.json({
+    ...publicSoul,
+    version: _version,   // For expectedVersion in signed mutations
+    keys: db.getSoulKeys(soul.did),
+    leafIndex: db.findLogLeaf(soul.did)?.leafIndex,   // Transparency log entry committing to this state
+    statusListIndex: _registryId,                      // Bit in /v1/status-lists/{revocation,suspension}
+    statusDescription: describeStatus(soul),           // e.g. "suspended by registry"
+    reports: db.getReportSummary(soul.did),            // Unresolved abuse reports
+    parentChain: getParentChain(soul),                 // Namespace ancestors, nearest first
+    delegations: db.listDelegations(soul.did, true),   // Active delegate keys
+    riskAssessment: assessRisk(soul.capabilities ?? [], soul.riskLevel, db.getCapabilityVocabulary()),
+    charter: getCharterStatus(soul),
+  });
+});
+
+app.get('/v1/souls/:didOrName/history', async (c) => {
+  const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+  if (!soul) {
+    return c.json({
+      error: 'Soul not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  const parsed = HistoryParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  // Newest first
+  const { events, total } = db.getSoulEvents(soul.did, parsed.data);
+
+  return c.json({
+    did: soul.did,
+    version: soul._version,
+    events,
+    total,
+    limit: parsed.data.limit,
+    offset: parsed.data.offset,
+  });
+});
+
+// ============================================
+// DID Resolution (W3C DID Core)
+// ============================================
+
+app.get('/v1/souls/:didOrName/did', async (c) => {
+  return resolveDid(c, decodeURIComponent(c.req.param('didOrName')));
+});
+
+// Universal Resolver driver interface
+app.get('/1.0/identifiers/:did', async (c) => {
+  const did = decodeURIComponent(c.req.param('did'));
+  if (!did.startsWith('did:')) {
+    return c.json(didResolutionError('invalidDid'), 400);
+  }
+  if (did === registry.did) {
+    const result: DidResolutionResult = {
+      '@context': DID_RESOLUTION_CONTEXT,
+      didDocument: buildRegistryDidDocument(registry),
+      didResolutionMetadata: { contentType: 'application/did+ld+json' },
+      didDocumentMetadata: {},
+    };
+    return c.json(result);
+  }
+  if (!did.startsWith('did:soul:')) {
+    return c.json(didResolutionError('methodNotSupported'), 501);
+  }
+  return resolveDid(c, did);
 });
 
+async function resolveDid(c: any, didOrName: string) {
+  const contentType = negotiateDidContentType(c.req.header('accept'));
+  if (!contentType) {
+    return c.json(didResolutionError('representationNotSupported'), 406);
+  }
+
+  if (didOrName.startsWith('did:') && !DidSchema.safeParse(didOrName).success) {
+    return c.json(didResolutionError('invalidDid'), 400);
+  }
+
+  const soul = findSoul(didOrName);
+  if (!soul) {
+    return c.json(didResolutionError('notFound'), 404);
+  }
+
+  // Deactivated DIDs still resolve, but with 410 as the Universal Resolver expects
+  const status = soul.status === 'revoked' ? 410 : 200;
+  const keys = db.getSoulKeys(soul.did);
+
+  if (contentType !== 'resolution') {
+    const didDocument = buildDidDocument(soul, keys, contentType);
+    return c.body(JSON.stringify(didDocument), status, { 'Content-Type': contentType });
+  }
+
+  const result: DidResolutionResult = {
+    '@context': DID_RESOLUTION_CONTEXT,
+    didDocument: buildDidDocument(soul, keys, 'application/did+ld+json'),
+    didResolutionMetadata: { contentType: 'application/did+ld+json' },
+    didDocumentMetadata: buildDidDocumentMetadata(soul),
+  };
+  return c.body(JSON.stringify(result), status, {
+    'Content-Type': 'application/ld+json;profile="https://w3id.org/did-resolution"',
+  });
+}
+
+function didResolutionError(error: NonNullable<DidResolutionResult['didResolutionMetadata']['error']>): DidResolutionResult {
+  return {
+    '@context': DID_RESOLUTION_CONTEXT,
+    didDocument: null,
+    didResolutionMetadata: { error },
+    didDocumentMetadata: {},
+  };
+}
+
 // ============================================
 // Contact Update (v2 - reachability)
 // ============================================
@@ -187,7 +814,7 @@ app.put('/v1/souls/:didOrName/contact', async (c) => {
       }, 400);
     }
 
-    const { contact, signature, timestamp } = parsed.data;
+    const { contact, auth, signature, timestamp } = parsed.data;
 
     // Resolve soul
     let soul: SoulRecord | null = null;
@@ -204,35 +831,24 @@ app.put('/v1/souls/:didOrName/contact', async (c) => {
       }, 404);
     }
 
-    // Check timestamp is recent (prevent replay attacks)
-    const timestampDate = new Date(timestamp);
-    const now = new Date();
-    const fiveMinutesAgo = new Date(now.getTime() - 5 * 60 * 1000);
-    if (timestampDate < fiveMinutesAgo) {
-      return c.json({
-        error: 'Timestamp too old (max 5 minutes)',
-        code: 'TIMESTAMP_EXPIRED',
-      }, 400);
-    }
-
-    // Verify signature: sign "contact-update:{did}:{timestamp}"
-    const message = `contact-update:${soul.did}:${timestamp}`;
-    const validSignature = await verifySignature(message, signature, soul.publicKey);
-    if (!validSignature) {
-      return c.json({
-        error: 'Invalid signature',
-        code: 'INVALID_SIGNATURE',
-      }, 401);
-    }
+    // Verify the signed envelope (or the deprecated "contact-update:{did}:{timestamp}" signature)
+    const denied = await authorizeMutation(c, soul, 'contact.update', body, auth,
+      signature && timestamp ? { message: `contact-update:${soul.did}:${timestamp}`, signature, timestamp } : null);
+    if (denied) return denied;
 
     // Update contact info
-    db.updateSoulContact(soul.did, contact);
+    const updated = db.updateSoulFields(soul.did, { contact }, 'contact.updated', {
+      actor: mutationActor(soul, auth),
+      signature: auth?.signature || signature,
+    }, auth?.expectedVersion);
+    if (!updated) return versionConflict(c, soul.did, auth?.expectedVersion);
 
     return c.json({
       success: true,
       did: soul.did,
       contact,
-      updatedAt: now.toISOString(),
+      updatedAt: new Date().toISOString(),
+      signedBy: mutationSigner(soul, auth),
     });
   } catch (error) {
     console.error('Contact update error:', error);
@@ -261,7 +877,10 @@ app.put('/v1/souls/:didOrName/capabilities', async (c) => {
       }, 400);
     }
 
-    const { capabilities, riskLevel, signature, timestamp } = parsed.data;
+    const { capabilities, riskLevel, auth, signature, timestamp } = parsed.data;
+
+    const unknownCapabilities = rejectUnknownCapabilities(c, capabilities);
+    if (unknownCapabilities) return unknownCapabilities;
 
     // Resolve soul
     let soul: SoulRecord | null = null;
@@ -278,39 +897,102 @@ app.put('/v1/souls/:didOrName/capabilities', async (c) => {
       }, 404);
     }
 
-    // Check timestamp is recent
-    const timestampDate = new Date(timestamp);
-    const now = new Date();
-    const fiveMinutesAgo = new Date(now.getTime() - 5 * 60 * 1000);
-    if (timestampDate < fiveMinutesAgo) {
+    // Verify the signed envelope (or the deprecated "capabilities-update:{did}:{timestamp}" signature)
+    const denied = await authorizeMutation(c, soul, 'capabilities.update', body, auth,
+      signature && timestamp ? { message: `capabilities-update:${soul.did}:${timestamp}`, signature, timestamp } : null);
+    if (denied) return denied;
+
+    // Update capabilities
+    const updated = db.updateSoulFields(soul.did, { capabilities, riskLevel: riskLevel ?? null }, 'capabilities.updated', {
+      actor: mutationActor(soul, auth),
+      signature: auth?.signature || signature,
+    }, auth?.expectedVersion);
+    if (!updated) return versionConflict(c, soul.did, auth?.expectedVersion);
+
+    return c.json({
+      success: true,
+      did: soul.did,
+      capabilities,
+      riskLevel: riskLevel || null,
+      riskAssessment: assessRisk(capabilities ?? [], riskLevel, db.getCapabilityVocabulary()),
+      updatedAt: new Date().toISOString(),
+      signedBy: mutationSigner(soul, auth),
+    });
+  } catch (error) {
+    console.error('Capabilities update error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// Signed partial update of the mutable profile fields, against an expected version
+app.patch('/v1/souls/:didOrName', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const body = await c.req.json().catch(() => null);
+
+    // Only a plain object can name fields; anything else is left for the schema to reject
+    const isObject = typeof body === 'object' && body !== null && !Array.isArray(body);
+    const immutable = isObject ? IMMUTABLE_SOUL_FIELDS.filter(field => field in body) : [];
+    if (immutable.length > 0) {
       return c.json({
-        error: 'Timestamp too old (max 5 minutes)',
-        code: 'TIMESTAMP_EXPIRED',
+        error: `Cannot change ${immutable.join(', ')} after registration`,
+        code: 'IMMUTABLE_FIELD',
+        details: { fields: immutable },
       }, 400);
     }
 
-    // Verify signature
-    const message = `capabilities-update:${soul.did}:${timestamp}`;
-    const validSignature = await verifySignature(message, signature, soul.publicKey);
-    if (!validSignature) {
+    const parsed = ProfileUpdateSchema.safeParse(body);
+    if (!parsed.success) {
       return c.json({
-        error: 'Invalid signature',
-        code: 'INVALID_SIGNATURE',
-      }, 401);
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
     }
 
-    // Update capabilities
-    db.updateSoulCapabilities(soul.did, capabilities, riskLevel);
+    const { auth, ...fields } = parsed.data;
+
+    const unknownCapabilities = rejectUnknownCapabilities(c, fields.capabilities);
+    if (unknownCapabilities) return unknownCapabilities;
+
+    const soul = findSoul(didOrName);
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (soul.status === 'revoked') {
+      return c.json({
+        error: 'Revoked souls cannot be updated',
+        code: 'SOUL_REVOKED',
+      }, 403);
+    }
+
+    const denied = await authorizeMutation(c, soul, 'profile.update', body, auth, null);
+    if (denied) return denied;
+
+    // The version is checked again as the row is written, in case another update landed meanwhile
+    const updated = db.updateSoulFields(soul.did, fields, 'profile.updated', {
+      actor: mutationActor(soul, auth),
+      signature: auth.signature,
+    }, auth.expectedVersion);
+    if (!updated) return versionConflict(c, soul.did, auth.expectedVersion);
 
     return c.json({
       success: true,
       did: soul.did,
-      capabilities,
-      riskLevel: riskLevel || null,
-      updatedAt: now.toISOString(),
+      version: auth.expectedVersion + 1,
+      updated: Object.keys(fields),
+      updatedAt: new Date().toISOString(),
+      signedBy: mutationSigner(soul, auth),
     });
   } catch (error) {
-    console.error('Capabilities update error:', error);
+    console.error('Profile update error:', error);
     return c.json({
       error: 'Internal server error',
       code: 'INTERNAL_ERROR',
@@ -319,21 +1001,12 @@ app.put('/v1/souls/:didOrName/capabilities', async (c) => {
 });
 
 // ============================================
-// Verification (Challenge-Response)
+// Key History & Rotation (v4)
 // ============================================
 
-// Step 1: Request challenge
-app.post('/v1/souls/:didOrName/challenge', async (c) => {
-  const didOrName = decodeURIComponent(c.req.param('didOrName'));
-  
-  // Resolve soul
-  let soul: SoulRecord | null = null;
-  if (didOrName.startsWith('did:soul:')) {
-    soul = db.getSoulByDid(didOrName);
-  } else {
-    soul = db.getSoulByName(didOrName);
-  }
-
+// Key history, or the key that was valid at ?at={ISO timestamp}
+app.get('/v1/souls/:didOrName/keys', async (c) => {
+  const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
   if (!soul) {
     return c.json({
       error: 'Soul not found',
@@ -341,34 +1014,42 @@ app.post('/v1/souls/:didOrName/challenge', async (c) => {
     }, 404);
   }
 
-  // Create challenge
-  const challengeId = generateChallengeId();
-  const nonce = generateNonce();
-  const now = new Date();
-  const expiresAt = new Date(now.getTime() + 5 * 60 * 1000); // 5 minutes
+  const at = c.req.query('at');
+  if (at === undefined) {
+    return c.json({
+      did: soul.did,
+      keys: db.getSoulKeys(soul.did),
+    });
+  }
 
-  db.createChallenge({
-    challengeId,
-    did: soul.did,
-    nonce,
-    issuedAt: now.toISOString(),
-    expiresAt: expiresAt.toISOString(),
-    status: 'pending',
-  });
+  const atDate = new Date(at);
+  if (isNaN(atDate.getTime())) {
+    return c.json({
+      error: 'Invalid "at" timestamp',
+      code: 'INVALID_PARAMS',
+    }, 400);
+  }
+
+  const key = db.getSoulKeyAt(soul.did, atDate.toISOString());
+  if (!key) {
+    return c.json({
+      error: 'No key was valid for this soul at the given time',
+      code: 'KEY_NOT_FOUND',
+    }, 404);
+  }
 
   return c.json({
-    challengeId,
-    nonce,
-    expiresAt: expiresAt.toISOString(),
+    did: soul.did,
+    at: atDate.toISOString(),
+    key,
   });
 });
 
-// Step 2: Submit response
-app.post('/v1/souls/:didOrName/verify', async (c) => {
+app.post('/v1/souls/:didOrName/keys/rotate', async (c) => {
   try {
     const didOrName = decodeURIComponent(c.req.param('didOrName'));
     const body = await c.req.json();
-    const parsed = VerifyRequestSchema.safeParse(body);
+    const parsed = KeyRotationSchema.safeParse(body);
 
     if (!parsed.success) {
       return c.json({
@@ -378,42 +1059,104 @@ app.post('/v1/souls/:didOrName/verify', async (c) => {
       }, 400);
     }
 
-    const { challengeId, signature } = parsed.data;
+    const { newPublicKey, auth, signature, timestamp } = parsed.data;
 
-    // Get challenge
-    const challenge = db.getChallenge(challengeId);
-    if (!challenge) {
+    const soul = findSoul(didOrName);
+    if (!soul) {
       return c.json({
-        error: 'Challenge not found',
-        code: 'CHALLENGE_NOT_FOUND',
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
       }, 404);
     }
 
-    // Check if expired
-    if (new Date(challenge.expiresAt) < new Date()) {
-      db.updateChallengeStatus(challengeId, 'expired');
+    if (soul.status === 'revoked') {
       return c.json({
-        error: 'Challenge expired',
-        code: 'CHALLENGE_EXPIRED',
-      }, 410);
+        error: 'Revoked souls cannot rotate keys',
+        code: 'SOUL_REVOKED',
+      }, 403);
     }
 
-    // Check if already used
-    if (challenge.status !== 'pending') {
+    if (!isValidPublicKey(newPublicKey)) {
       return c.json({
-        error: 'Challenge already used',
-        code: 'CHALLENGE_USED',
+        error: 'New public key is not a valid Ed25519 key',
+        code: 'INVALID_PUBLIC_KEY',
+      }, 400);
+    }
+
+    // A key that was ever retired must never become valid again
+    if (hasUsedKey(soul.did, newPublicKey)) {
+      return c.json({
+        error: 'Key has already been used by this soul',
+        code: 'KEY_REUSED',
       }, 409);
     }
 
-    // Resolve soul
-    let soul: SoulRecord | null = null;
-    if (didOrName.startsWith('did:soul:')) {
-      soul = db.getSoulByDid(didOrName);
-    } else {
-      soul = db.getSoulByName(didOrName);
+    // The current key signs the rotation statement naming its successor
+    const denied = await authorizeMutation(c, soul, 'key.rotate', body, auth,
+      signature && timestamp ? { message: `key-rotate:${soul.did}:${newPublicKey}:${timestamp}`, signature, timestamp } : null);
+    if (denied) return denied;
+
+    const key = db.rotateSoulKey(soul.did, newPublicKey, 'rotation', {
+      actor: soul.did,
+      signature: auth?.signature || signature,
+    }, auth?.expectedVersion);
+    if (!key) return versionConflict(c, soul.did, auth?.expectedVersion);
+
+    return c.json({
+      success: true,
+      did: soul.did,
+      publicKey: newPublicKey,
+      keys: db.getSoulKeys(soul.did),
+      rotatedAt: key?.validFrom,
+    });
+  } catch (error) {
+    console.error('Key rotation error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// ============================================
+// Key Recovery (v5)
+// ============================================
+
+app.get('/v1/souls/:didOrName/recovery', async (c) => {
+  const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+  if (!soul) {
+    return c.json({
+      error: 'Soul not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  return c.json({
+    did: soul.did,
+    recovery: soul.recovery || null,
+    delaySeconds: soul.recovery ? recoveryDelay(soul.recovery) : null,
+    requests: db.listRecoveryRequests(soul.did),
+  });
+});
+
+// Set or replace recovery material (signed by the current key)
+app.put('/v1/souls/:didOrName/recovery', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const body = await c.req.json();
+    const parsed = RecoveryUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
     }
 
+    const { recovery, auth, signature, timestamp } = parsed.data;
+
+    const soul = findSoul(didOrName);
     if (!soul) {
       return c.json({
         error: 'Soul not found',
@@ -421,36 +1164,38 @@ app.post('/v1/souls/:didOrName/verify', async (c) => {
       }, 404);
     }
 
-    // Verify challenge DID matches
-    if (challenge.did !== soul.did) {
+    if (soul.status === 'revoked') {
       return c.json({
-        error: 'Challenge was issued for a different soul',
-        code: 'DID_MISMATCH',
-      }, 400);
+        error: 'Revoked souls cannot be updated',
+        code: 'SOUL_REVOKED',
+      }, 403);
     }
 
-    // Verify signature of nonce
-    const validSignature = await verifySignature(challenge.nonce, signature, soul.publicKey);
-    if (!validSignature) {
-      return c.json({
-        error: 'Invalid signature',
-        code: 'INVALID_SIGNATURE',
-      }, 401);
+    const recoveryError = checkRecoveryConfig(soul.did, recovery);
+    if (recoveryError) {
+      return c.json(recoveryError, 400);
     }
 
-    // Mark challenge as completed and update verification count
-    db.updateChallengeStatus(challengeId, 'completed');
-    db.incrementVerificationCount(soul.did);
+    const denied = await authorizeMutation(c, soul, 'recovery.update', body, auth,
+      signature && timestamp
+        ? { message: `recovery-update:${soul.did}:${hashSoulDocument(recovery)}:${timestamp}`, signature, timestamp }
+        : null);
+    if (denied) return denied;
 
-    const response: VerifyResponse = {
-      verified: true,
-      did: soul.did,
-      verifiedAt: new Date().toISOString(),
-    };
+    const updated = db.updateSoulFields(soul.did, { recovery }, 'recovery.updated', {
+      actor: soul.did,
+      signature: auth?.signature || signature,
+    }, auth?.expectedVersion);
+    if (!updated) return versionConflict(c, soul.did, auth?.expectedVersion);
 
-    return c.json(response);
+    return c.json({
+      success: true,
+      did: soul.did,
+      recovery,
+      updatedAt: new Date().toISOString(),
+    });
   } catch (error) {
-    console.error('Verification error:', error);
+    console.error('Recovery update error:', error);
     return c.json({
       error: 'Internal server error',
       code: 'INTERNAL_ERROR',
@@ -458,66 +1203,200 @@ app.post('/v1/souls/:didOrName/verify', async (c) => {
   }
 });
 
-// ============================================
-// Search
-// ============================================
+// Start a recovery: guardians approve, or the pre-committed key reveals itself
+app.post('/v1/souls/:didOrName/recovery', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const body = await c.req.json();
+    const parsed = RecoveryInitiateSchema.safeParse(body);
 
-app.get('/v1/souls', async (c) => {
-  const queryParams = {
-    name: c.req.query('name'),
-    operator: c.req.query('operator'),
-    status: c.req.query('status'),
-    registeredAfter: c.req.query('registeredAfter'),
-    registeredBefore: c.req.query('registeredBefore'),
-    limit: c.req.query('limit'),
-    offset: c.req.query('offset'),
-  };
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
 
-  const parsed = SearchParamsSchema.safeParse(queryParams);
-  if (!parsed.success) {
-    return c.json({
-      error: 'Invalid query parameters',
-      code: 'INVALID_PARAMS',
-      details: parsed.error.issues,
-    }, 400);
-  }
+    const request = parsed.data;
 
-  const { results, total } = db.searchSouls(parsed.data);
+    const soul = findSoul(didOrName);
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
 
-  // Strip internal fields
-  const publicResults = results.map(({ _registryId, _version, ...soul }) => soul);
+    if (soul.status === 'revoked') {
+      return c.json({
+        error: 'Revoked souls cannot be recovered',
+        code: 'SOUL_REVOKED',
+      }, 403);
+    }
 
-  const response: SearchResponse = {
-    results: publicResults as any,
-    total,
-    limit: parsed.data.limit,
-    offset: parsed.data.offset,
-  };
+    const replicated = rejectReplicated(c, soul);
+    if (replicated) return replicated;
 
-  return c.json(response);
-});
+    if (!soul.recovery) {
+      return c.json({
+        error: 'Soul has no recovery material registered',
+        code: 'RECOVERY_NOT_CONFIGURED',
+      }, 400);
+    }
 
-// ============================================
-// Status Updates
-// ============================================
+    if (db.getPendingRecoveryRequest(soul.did)) {
+      return c.json({
+        error: 'A recovery is already pending for this soul',
+        code: 'RECOVERY_PENDING',
+      }, 409);
+    }
 
-app.post('/v1/souls/:didOrName/suspend', async (c) => {
-  return updateStatus(c, 'suspended');
-});
+    if (!isValidPublicKey(request.newPublicKey)) {
+      return c.json({
+        error: 'New public key is not a valid Ed25519 key',
+        code: 'INVALID_PUBLIC_KEY',
+      }, 400);
+    }
 
-app.post('/v1/souls/:didOrName/revoke', async (c) => {
-  return updateStatus(c, 'revoked');
-});
+    if (hasUsedKey(soul.did, request.newPublicKey)) {
+      return c.json({
+        error: 'Key has already been used by this soul',
+        code: 'KEY_REUSED',
+      }, 409);
+    }
 
-app.post('/v1/souls/:didOrName/reactivate', async (c) => {
-  return updateStatus(c, 'active');
+    // Approvals may be gathered over a day, but never signed in the future
+    const timestampDate = new Date(request.timestamp);
+    const now = new Date();
+    if (timestampDate.getTime() < now.getTime() - RECOVERY_APPROVAL_WINDOW_MS) {
+      return c.json({
+        error: 'Timestamp too old (max 24 hours)',
+        code: 'TIMESTAMP_EXPIRED',
+      }, 400);
+    }
+    if (timestampDate.getTime() > now.getTime() + 5 * 60 * 1000) {
+      return c.json({
+        error: 'Timestamp is in the future',
+        code: 'TIMESTAMP_INVALID',
+      }, 400);
+    }
+
+    const message = `recovery:${soul.did}:${request.newPublicKey}:${request.nonce}:${request.timestamp}`;
+    let approvals: { guardian: string; signature: string }[] = [];
+
+    if (request.method === 'commitment') {
+      if (!soul.recovery.nextKeyHash) {
+        return c.json({
+          error: 'Soul has no key commitment registered',
+          code: 'RECOVERY_NOT_CONFIGURED',
+        }, 400);
+      }
+
+      if (hashPublicKey(request.newPublicKey) !== soul.recovery.nextKeyHash.toLowerCase()) {
+        return c.json({
+          error: 'New public key does not match the registered commitment',
+          code: 'COMMITMENT_MISMATCH',
+        }, 401);
+      }
+
+      // The revealed key proves possession by signing the recovery statement
+      const validSignature = await verifySignature(message, request.signature, request.newPublicKey);
+      if (!validSignature) {
+        return c.json({
+          error: 'Invalid signature',
+          code: 'INVALID_SIGNATURE',
+        }, 401);
+      }
+    } else {
+      const { guardians, threshold } = soul.recovery;
+      if (!guardians || !threshold) {
+        return c.json({
+          error: 'Soul has no guardians registered',
+          code: 'RECOVERY_NOT_CONFIGURED',
+        }, 400);
+      }
+
+      const registered = new Set(guardians.map(g => g.toLowerCase()));
+      const approved = new Set<string>();
+
+      for (const approval of request.approvals) {
+        const guardianDid = approval.guardian.toLowerCase();
+        if (!registered.has(guardianDid) || approved.has(guardianDid)) {
+          return c.json({
+            error: `Not a registered guardian: ${approval.guardian}`,
+            code: 'INVALID_GUARDIAN',
+          }, 401);
+        }
+
+        const guardian = db.getSoulByDid(approval.guardian);
+        if (!guardian || guardian.status !== 'active') {
+          return c.json({
+            error: `Guardian is not an active soul: ${approval.guardian}`,
+            code: 'INVALID_GUARDIAN',
+          }, 401);
+        }
+
+        const validSignature = await verifySignature(message, approval.signature, guardian.publicKey);
+        if (!validSignature) {
+          return c.json({
+            error: `Invalid guardian signature: ${approval.guardian}`,
+            code: 'INVALID_SIGNATURE',
+          }, 401);
+        }
+
+        approved.add(guardianDid);
+      }
+
+      if (approved.size < threshold) {
+        return c.json({
+          error: `Recovery needs ${threshold} guardian approvals, got ${approved.size}`,
+          code: 'THRESHOLD_NOT_MET',
+        }, 401);
+      }
+
+      approvals = request.approvals;
+    }
+
+    // Signed approvals start one recovery only, even if that one is vetoed
+    const nonceExpiresAt = new Date(timestampDate.getTime() + RECOVERY_APPROVAL_WINDOW_MS).toISOString();
+    if (!db.consumeNonce(soul.did, `recovery:${request.nonce}`, nonceExpiresAt)) {
+      return c.json({
+        error: 'Nonce has already been used',
+        code: 'NONCE_REUSED',
+      }, 409);
+    }
+
+    const executableAt = new Date(now.getTime() + recoveryDelay(soul.recovery) * 1000);
+    const recovery = {
+      requestId: generateId('rc'),
+      did: soul.did,
+      newPublicKey: request.newPublicKey,
+      method: request.method,
+      approvals,
+      initiatedAt: now.toISOString(),
+      executableAt: executableAt.toISOString(),
+      status: 'pending' as const,
+    };
+    db.createRecoveryRequest(recovery);
+
+    return c.json(recovery, 202);
+  } catch (error) {
+    console.error('Recovery initiation error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
 });
 
-async function updateStatus(c: any, newStatus: 'active' | 'suspended' | 'revoked') {
+// The current key can cancel a recovery during its time lock
+app.post('/v1/souls/:didOrName/recovery/:requestId/veto', async (c) => {
   try {
     const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const requestId = c.req.param('requestId');
     const body = await c.req.json();
-    const parsed = StatusUpdateSchema.safeParse(body);
+    const parsed = RecoveryVetoSchema.safeParse(body);
 
     if (!parsed.success) {
       return c.json({
@@ -527,60 +1406,2740 @@ async function updateStatus(c: any, newStatus: 'active' | 'suspended' | 'revoked
       }, 400);
     }
 
-    // Resolve soul
-    let soul: SoulRecord | null = null;
-    if (didOrName.startsWith('did:soul:')) {
-      soul = db.getSoulByDid(didOrName);
-    } else {
-      soul = db.getSoulByName(didOrName);
-    }
+    const { auth, signature, timestamp } = parsed.data;
 
-    if (!soul) {
+    const soul = findSoul(didOrName);
+    const recovery = db.getRecoveryRequest(requestId);
+    if (!soul || !recovery || recovery.did !== soul.did) {
       return c.json({
-        error: 'Soul not found',
+        error: 'Recovery request not found',
         code: 'NOT_FOUND',
       }, 404);
     }
 
-    // Verify signature (must be signed by the soul itself or operator)
-    const message = `${newStatus}:${soul.did}:${parsed.data.reason}`;
-    const validSignature = await verifySignature(message, parsed.data.signature, soul.publicKey);
-    if (!validSignature) {
+    if (recovery.status !== 'pending') {
       return c.json({
-        error: 'Invalid signature',
-        code: 'INVALID_SIGNATURE',
-      }, 401);
+        error: `Recovery is already ${recovery.status}`,
+        code: 'RECOVERY_NOT_PENDING',
+      }, 409);
     }
 
-    // Update status
-    db.updateSoulStatus(soul.did, newStatus, parsed.data.reason);
+    const denied = await authorizeMutation(c, soul, 'recovery.veto', body, auth,
+      signature && timestamp ? { message: `recovery-veto:${soul.did}:${requestId}:${timestamp}`, signature, timestamp } : null,
+      requestId);
+    if (denied) return denied;
+
+    db.updateRecoveryRequestStatus(requestId, 'vetoed');
 
     return c.json({
+      success: true,
       did: soul.did,
-      status: newStatus,
-      statusChangedAt: new Date().toISOString(),
+      requestId,
+      status: 'vetoed',
+      vetoedAt: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Status update error:', error);
+    console.error('Recovery veto error:', error);
     return c.json({
       error: 'Internal server error',
       code: 'INTERNAL_ERROR',
     }, 500);
   }
-}
+});
 
-// ============================================
-// Static Files (Landing Page)
-// ============================================
+// Anyone may finalize once the time lock has passed without a veto
+app.post('/v1/souls/:didOrName/recovery/:requestId/finalize', async (c) => {
+  const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+  const recovery = db.getRecoveryRequest(c.req.param('requestId'));
+  if (!soul || !recovery || recovery.did !== soul.did) {
+    return c.json({
+      error: 'Recovery request not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
 
-app.use('/*', serveStatic({ root: './public' }));
+  if (recovery.status !== 'pending') {
+    return c.json({
+      error: `Recovery is already ${recovery.status}`,
+      code: 'RECOVERY_NOT_PENDING',
+    }, 409);
+  }
 
-// Fallback to index.html for SPA routing
-app.get('/', serveStatic({ path: './public/index.html' }));
+  if (soul.status === 'revoked') {
+    return c.json({
+      error: 'Revoked souls cannot be recovered',
+      code: 'SOUL_REVOKED',
+    }, 403);
+  }
 
-// ============================================
-// Utilities
-// ============================================
+  if (new Date(recovery.executableAt) > new Date()) {
+    return c.json({
+      error: 'Recovery time lock has not elapsed',
+      code: 'RECOVERY_TIME_LOCKED',
+      details: { executableAt: recovery.executableAt },
+    }, 425);
+  }
+
+  // Approved by guardians or the committed key and executed by the registry once the time lock passed
+  const key = db.rotateSoulKey(soul.did, recovery.newPublicKey, 'recovery', { actor: 'registry' });
+  db.updateRecoveryRequestStatus(recovery.requestId, 'completed');
+
+  // A key commitment is single-use; the owner must commit to a fresh next key
+  if (recovery.method === 'commitment' && soul.recovery) {
+    const { nextKeyHash, ...remaining } = soul.recovery;
+    db.updateSoulFields(soul.did, { recovery: remaining.guardians ? remaining : null }, 'recovery.updated', { actor: 'registry' });
+  }
+
+  return c.json({
+    success: true,
+    did: soul.did,
+    requestId: recovery.requestId,
+    publicKey: recovery.newPublicKey,
+    recoveredAt: key?.validFrom,
+  });
+});
+
+// ============================================
+// Name Transfer (v21)
+// ============================================
+
+app.get('/v1/souls/:didOrName/transfers', async (c) => {
+  const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+  if (!soul) {
+    return c.json({
+      error: 'Soul not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  return c.json({
+    did: soul.did,
+    transfers: db.listTransfers(soul.did),
+  });
+});
+
+// The current key offers the soul to a recipient key
+app.post('/v1/souls/:didOrName/transfers', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const body = await c.req.json();
+    const parsed = TransferOfferSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { newPublicKey, operator, expiresInSeconds, auth } = parsed.data;
+
+    const soul = findSoul(didOrName);
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (soul.status === 'revoked') {
+      return c.json({
+        error: 'Revoked souls cannot be transferred',
+        code: 'SOUL_REVOKED',
+      }, 403);
+    }
+
+    if (!isValidPublicKey(newPublicKey)) {
+      return c.json({
+        error: 'New public key is not a valid Ed25519 key',
+        code: 'INVALID_PUBLIC_KEY',
+      }, 400);
+    }
+
+    if (hasUsedKey(soul.did, newPublicKey)) {
+      return c.json({
+        error: 'Key has already been used by this soul',
+        code: 'KEY_REUSED',
+      }, 409);
+    }
+
+    if (db.getPendingTransfer(soul.did)) {
+      return c.json({
+        error: 'A transfer is already pending for this soul',
+        code: 'TRANSFER_PENDING',
+      }, 409);
+    }
+
+    const denied = await authorizeMutation(c, soul, 'transfer.offer', body, auth, null);
+    if (denied) return denied;
+
+    const now = new Date();
+    const transfer = {
+      transferId: generateId('tr'),
+      did: soul.did,
+      fromPublicKey: soul.publicKey,
+      toPublicKey: newPublicKey,
+      operator,
+      offeredAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + (expiresInSeconds ?? TRANSFER_OFFER_TTL) * 1000).toISOString(),
+      status: 'pending' as const,
+    };
+    db.createTransfer(transfer, auth.signature);
+
+    return c.json(transfer, 201);
+  } catch (error) {
+    console.error('Transfer offer error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// The recipient key countersigns; the soul moves to it with its history intact
+app.post('/v1/souls/:didOrName/transfers/:transferId/accept', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const transferId = c.req.param('transferId');
+    const body = await c.req.json();
+    const parsed = TransferAcceptSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { operatorProof, auth } = parsed.data;
+
+    const soul = findSoul(didOrName);
+    const transfer = db.getTransfer(transferId);
+    if (!soul || !transfer || transfer.did !== soul.did) {
+      return c.json({
+        error: 'Transfer not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (transfer.status === 'expired') {
+      return c.json({
+        error: 'Transfer offer has expired',
+        code: 'TRANSFER_EXPIRED',
+        details: { expiresAt: transfer.expiresAt },
+      }, 410);
+    }
+
+    if (transfer.status !== 'pending') {
+      return c.json({
+        error: `Transfer is already ${transfer.status}`,
+        code: 'TRANSFER_NOT_PENDING',
+      }, 409);
+    }
+
+    if (soul.status === 'revoked') {
+      return c.json({
+        error: 'Revoked souls cannot be transferred',
+        code: 'SOUL_REVOKED',
+      }, 403);
+    }
+
+    // An offer made by a key that has since been rotated away no longer speaks for the soul
+    if (soul.publicKey !== transfer.fromPublicKey) {
+      return c.json({
+        error: 'Soul key changed since the transfer was offered',
+        code: 'TRANSFER_STALE',
+      }, 409);
+    }
+
+    // The new operator, if the offer names one, may countersign to keep the soul attested
+    let operatorAttested = soul.operatorAttested;
+    if (transfer.operator) {
+      operatorAttested = false;
+      if (operatorProof) {
+        const operator = db.getOperatorByName(transfer.operator);
+        if (!operator) {
+          return c.json({
+            error: 'Operator is not registered',
+            code: 'OPERATOR_NOT_FOUND',
+          }, 400);
+        }
+
+        const message = `transfer:${soul.did}:${transfer.transferId}:${transfer.toPublicKey}`;
+        const validProof = await verifySignature(message, operatorProof, operator.publicKey);
+        if (!validProof) {
+          return c.json({
+            error: 'Invalid operator proof',
+            code: 'INVALID_OPERATOR_PROOF',
+          }, 401);
+        }
+        operatorAttested = true;
+      }
+    } else if (operatorProof) {
+      return c.json({
+        error: 'Transfer does not name a new operator',
+        code: 'INVALID_REQUEST',
+      }, 400);
+    }
+
+    const denied = await authorizeMutation(c, soul, 'transfer.accept', body, auth, null, transfer.transferId, transfer.toPublicKey);
+    if (denied) return denied;
+
+    const transferred = db.completeTransfer(transfer, operatorAttested, { actor: soul.did, signature: auth.signature }, auth.expectedVersion);
+    if (!transferred) return versionConflict(c, soul.did, auth.expectedVersion);
+
+    return c.json({
+      success: true,
+      did: soul.did,
+      transferId: transfer.transferId,
+      publicKey: transfer.toPublicKey,
+      operator: transfer.operator ?? soul.currentOperator ?? soul.birth.operator,
+      operatorAttested,
+      transferredAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Transfer acceptance error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// The current key can withdraw an offer until it is accepted
+app.post('/v1/souls/:didOrName/transfers/:transferId/cancel', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const transferId = c.req.param('transferId');
+    const body = await c.req.json();
+    const parsed = TransferCancelSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const soul = findSoul(didOrName);
+    const transfer = db.getTransfer(transferId);
+    if (!soul || !transfer || transfer.did !== soul.did) {
+      return c.json({
+        error: 'Transfer not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (transfer.status !== 'pending') {
+      return c.json({
+        error: `Transfer is already ${transfer.status}`,
+        code: 'TRANSFER_NOT_PENDING',
+      }, 409);
+    }
+
+    const denied = await authorizeMutation(c, soul, 'transfer.cancel', body, parsed.data.auth, null, transferId);
+    if (denied) return denied;
+
+    db.cancelTransfer(transferId);
+
+    return c.json({
+      success: true,
+      did: soul.did,
+      transferId,
+      status: 'cancelled',
+      cancelledAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Transfer cancellation error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// ============================================
+// Delegate Keys (v23)
+// ============================================
+
+app.get('/v1/souls/:didOrName/delegations', async (c) => {
+  const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+  if (!soul) {
+    return c.json({
+      error: 'Soul not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  return c.json({
+    did: soul.did,
+    delegations: db.listDelegations(soul.did, c.req.query('active') === 'true'),
+  });
+});
+
+// The soul key grants a delegate key a scope until an expiry
+app.post('/v1/souls/:didOrName/delegations', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const body = await c.req.json();
+    const parsed = DelegationCreateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { publicKey, scopes, expiresAt, label, auth } = parsed.data;
+
+    const soul = findSoul(didOrName);
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (soul.status !== 'active') {
+      return c.json({
+        error: `Cannot delegate for a ${soul.status} soul`,
+        code: 'SOUL_NOT_ACTIVE',
+      }, 403);
+    }
+
+    if (!isValidPublicKey(publicKey)) {
+      return c.json({
+        error: 'Delegate public key is not a valid Ed25519 key',
+        code: 'INVALID_PUBLIC_KEY',
+      }, 400);
+    }
+
+    // Delegates never share a key with the soul, past or present
+    if (hasUsedKey(soul.did, publicKey)) {
+      return c.json({
+        error: 'Key has already been used by this soul',
+        code: 'KEY_REUSED',
+      }, 409);
+    }
+
+    const now = new Date();
+    const expires = new Date(expiresAt);
+    if (expires <= now || expires.getTime() > now.getTime() + MAX_DELEGATION_SECONDS * 1000) {
+      return c.json({
+        error: 'expiresAt must be in the future and at most a year away',
+        code: 'INVALID_REQUEST',
+      }, 400);
+    }
+
+    const active = db.listDelegations(soul.did, true);
+    if (active.length >= MAX_ACTIVE_DELEGATIONS) {
+      return c.json({
+        error: `A soul may have at most ${MAX_ACTIVE_DELEGATIONS} active delegations`,
+        code: 'DELEGATION_LIMIT',
+      }, 409);
+    }
+
+    const denied = await authorizeMutation(c, soul, 'delegation.create', body, auth, null);
+    if (denied) return denied;
+
+    const delegation = {
+      delegationId: generateId('dg'),
+      did: soul.did,
+      publicKey,
+      scopes: [...new Set(scopes)],
+      label,
+      createdAt: now.toISOString(),
+      expiresAt: expires.toISOString(),
+    };
+    db.createDelegation(delegation, auth.signature);
+
+    return c.json(delegation, 201);
+  } catch (error) {
+    console.error('Delegation error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// The soul key, or the delegate key itself (e.g. when it leaks), ends a delegation
+app.post('/v1/souls/:didOrName/delegations/:delegationId/revoke', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const delegationId = c.req.param('delegationId');
+    const body = await c.req.json();
+    const parsed = DelegationRevokeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { auth } = parsed.data;
+
+    const soul = findSoul(didOrName);
+    const delegation = db.getDelegation(delegationId);
+    if (!soul || !delegation || delegation.did !== soul.did) {
+      return c.json({
+        error: 'Delegation not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (delegation.revokedAt) {
+      return c.json({
+        error: 'Delegation is already revoked',
+        code: 'DELEGATION_REVOKED',
+      }, 409);
+    }
+
+    // The delegate signs as itself here, whatever its scope
+    const selfRevocation = auth.delegation === delegationId;
+    if (auth.delegation && !selfRevocation) {
+      return c.json({
+        error: 'A delegate may only revoke its own delegation',
+        code: 'DELEGATION_SCOPE',
+      }, 403);
+    }
+
+    const denied = await authorizeMutation(c, soul, 'delegation.revoke', body, auth, null, delegationId,
+      selfRevocation ? delegation.publicKey : undefined);
+    if (denied) return denied;
+
+    db.revokeDelegation(delegationId);
+
+    return c.json({
+      success: true,
+      did: soul.did,
+      delegationId,
+      revokedAt: new Date().toISOString(),
+      signedBy: selfRevocation
+        ? { key: 'delegate', publicKey: delegation.publicKey, delegationId }
+        : { key: 'soul', publicKey: soul.publicKey },
+    });
+  } catch (error) {
+    console.error('Delegation revocation error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// ============================================
+// Verification (Challenge-Response)
+// ============================================
+
+// Step 1: Request challenge
+app.post('/v1/souls/:didOrName/challenge', async (c) => {
+  const didOrName = decodeURIComponent(c.req.param('didOrName'));
+
+  // Body is optional for legacy clients, which pass ?legacy=true instead
+  const body = await c.req.json().catch(() => ({}));
+  const parsed = ChallengeRequestSchema.safeParse({
+    ...body,
+    legacy: body?.legacy ?? (c.req.query('legacy') === 'true'),
+  });
+
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid request body',
+      code: 'INVALID_REQUEST',
+      details: parsed.error.issues,
+    }, 400);
+  }
+  
+  // Resolve soul
+  let soul: SoulRecord | null = null;
+  if (didOrName.startsWith('did:soul:')) {
+    soul = db.getSoulByDid(didOrName);
+  } else {
+    soul = db.getSoulByName(didOrName);
+  }
+
+  if (!soul) {
+    return c.json({
+      error: 'Soul not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  // Create challenge
+  const challengeId = generateChallengeId();
+  const nonce = generateNonce();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + 5 * 60 * 1000); // 5 minutes
+
+  if (parsed.data.legacy) {
+    db.createChallenge({
+      challengeId,
+      did: soul.did,
+      nonce,
+      issuedAt: now.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      status: 'pending',
+      legacy: true,
+    });
+
+    return c.json({
+      challengeId,
+      nonce,
+      expiresAt: expiresAt.toISOString(),
+      legacy: true,
+    });
+  }
+
+  // Structured payload: the signature is bound to this audience, purpose and soul
+  const payload: ChallengePayload = {
+    protocol: CHALLENGE_PROTOCOL,
+    audience: parsed.data.audience!,
+    purpose: parsed.data.purpose,
+    did: soul.did,
+    nonce,
+    issuedAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  };
+  const message = encodeChallengePayload(payload);
+
+  db.createChallenge({
+    challengeId,
+    did: soul.did,
+    nonce,
+    issuedAt: payload.issuedAt,
+    expiresAt: payload.expiresAt,
+    status: 'pending',
+    audience: payload.audience,
+    purpose: payload.purpose,
+    payload: message,
+    legacy: false,
+  });
+
+  return c.json({
+    challengeId,
+    nonce,
+    expiresAt: payload.expiresAt,
+    payload,
+    message,   // Sign this exact string
+  });
+});
+
+// Step 2: Submit response
+app.post('/v1/souls/:didOrName/verify', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const body = await c.req.json();
+    const parsed = VerifyRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { challengeId, signature, audience, delegation: delegationId } = parsed.data;
+
+    // Get challenge
+    const challenge = db.getChallenge(challengeId);
+    if (!challenge) {
+      return c.json({
+        error: 'Challenge not found',
+        code: 'CHALLENGE_NOT_FOUND',
+      }, 404);
+    }
+
+    // Check if expired
+    if (new Date(challenge.expiresAt) < new Date()) {
+      db.updateChallengeStatus(challengeId, 'expired');
+      return c.json({
+        error: 'Challenge expired',
+        code: 'CHALLENGE_EXPIRED',
+      }, 410);
+    }
+
+    // Check if already used
+    if (challenge.status !== 'pending') {
+      return c.json({
+        error: 'Challenge already used',
+        code: 'CHALLENGE_USED',
+      }, 409);
+    }
+
+    // Resolve soul
+    let soul: SoulRecord | null = null;
+    if (didOrName.startsWith('did:soul:')) {
+      soul = db.getSoulByDid(didOrName);
+    } else {
+      soul = db.getSoulByName(didOrName);
+    }
+
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    // Verify challenge DID matches
+    if (challenge.did !== soul.did) {
+      return c.json({
+        error: 'Challenge was issued for a different soul',
+        code: 'DID_MISMATCH',
+      }, 400);
+    }
+
+    // A relying party must not accept a proof that was made for someone else
+    if (!challenge.legacy && audience && audience !== challenge.audience) {
+      return c.json({
+        error: 'Challenge was issued for a different audience',
+        code: 'AUDIENCE_MISMATCH',
+      }, 400);
+    }
+
+    // A delegate key may answer challenges when its scope allows it
+    let signedBy: MutationSigner = { key: 'soul', publicKey: soul.publicKey };
+    if (delegationId) {
+      const delegation = db.getDelegation(delegationId);
+      const violation = checkDelegation(delegation, soul.did, 'challenge-response');
+      if (violation) {
+        return c.json({ error: violation.error, code: violation.code }, violation.status);
+      }
+      signedBy = { key: 'delegate', publicKey: delegation!.publicKey, delegationId };
+    }
+
+    // Verify signature of the structured payload (or bare nonce for legacy challenges)
+    const signedMessage = challenge.legacy ? challenge.nonce : challenge.payload!;
+    const validSignature = await verifySignature(signedMessage, signature, signedBy.publicKey);
+    if (!validSignature) {
+      return c.json({
+        error: 'Invalid signature',
+        code: 'INVALID_SIGNATURE',
+      }, 401);
+    }
+
+    // Mark challenge as completed and update verification count
+    db.updateChallengeStatus(challengeId, 'completed');
+    db.incrementVerificationCount(soul.did, { actor: signedBy.delegationId ? `${soul.did}#${signedBy.delegationId}` : soul.did, signature });
+
+    // Issue a registry-signed credential third parties can check offline
+    const verifiedAt = new Date().toISOString();
+    const unsigned = buildVerificationCredential(
+      soul, verifiedAt, registry, CREDENTIAL_TTL, statusListEntries(STATUS_LISTS_URL, soul._registryId)
+    );
+
+    const response: VerifyResponse = {
+      verified: true,
+      did: soul.did,
+      verifiedAt,
+      credential: await addDataIntegrityProof(unsigned, registry),
+      credentialJwt: await encodeCredentialJwt(unsigned, registry),
+      signedBy,
+    };
+
+    // Relying parties get a token they can validate locally, bound to the challenge audience
+    const sessionAudience = challenge.legacy ? audience : challenge.audience;
+    if (sessionAudience) {
+      const { token, session } = await issueSessionToken(registry, soul.did, sessionAudience, SESSION_TTL);
+      db.createSession(session);
+      response.sessionToken = token;
+      response.sessionExpiresAt = session.expiresAt;
+    }
+
+    return c.json(response);
+  } catch (error) {
+    console.error('Verification error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// ============================================
+// Verifiable Credentials (v7)
+// ============================================
+
+app.post('/v1/credentials/verify', async (c) => {
+  try {
+    const body = await c.req.json();
+    const parsed = CredentialVerifyRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const result = await verifyCredential(parsed.data.credential as VerifiableCredential | string, registry);
+    if (!result.credential) {
+      return c.json({
+        error: 'Credential could not be decoded',
+        code: 'INVALID_CREDENTIAL',
+        details: result.errors,
+      }, 400);
+    }
+
+    // A cryptographically valid credential is still void once its subject loses standing
+    const subjectDid = result.credential?.credentialSubject?.id;
+    const subject = typeof subjectDid === 'string' ? db.getSoulByDid(subjectDid) : null;
+    if (!subject) {
+      result.errors.push('Subject is not registered');
+    } else if (subject.status !== 'active') {
+      result.errors.push(`Subject is ${subject.status}`);
+    }
+
+    return c.json({
+      valid: result.errors.length === 0,
+      format: result.format,
+      subjectStatus: subject?.status || null,
+      errors: result.errors,
+      credential: result.credential,
+    });
+  } catch (error) {
+    console.error('Credential verification error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// ============================================
+// Session Tokens (v8)
+// ============================================
+
+// RFC 7662-style introspection, including revocation and current soul status
+app.post('/v1/sessions/introspect', async (c) => {
+  try {
+    const body = await c.req.json();
+    const parsed = SessionIntrospectSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const check = await verifySessionToken(parsed.data.token, registry, parsed.data.audience);
+    if (!check.valid) {
+      return c.json({ active: false, reason: check.error });
+    }
+
+    const { claims } = check;
+    const session = db.getSession(claims.jti);
+    if (!session || session.revokedAt) {
+      return c.json({ active: false, reason: 'Session revoked' });
+    }
+
+    const soul = db.getSoulByDid(claims.sub);
+    if (!soul || soul.status !== 'active') {
+      return c.json({ active: false, reason: `Soul is ${soul?.status || 'not registered'}` });
+    }
+
+    return c.json({
+      active: true,
+      ...claims,
+      status: soul.status,
+    });
+  } catch (error) {
+    console.error('Session introspection error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// Revoked, unexpired sessions so local validators can honor revocation
+app.get('/v1/sessions/revocations', (c) => {
+  const since = c.req.query('since');
+  if (since !== undefined && isNaN(new Date(since).getTime())) {
+    return c.json({
+      error: 'Invalid "since" timestamp',
+      code: 'INVALID_PARAMS',
+    }, 400);
+  }
+
+  const revoked = db.listRevokedSessions(since ? new Date(since).toISOString() : undefined);
+  return c.json({
+    generatedAt: new Date().toISOString(),
+    revoked: revoked.map(s => ({
+      jti: s.sessionId,
+      did: s.did,
+      revokedAt: s.revokedAt,
+      expiresAt: s.expiresAt,
+    })),
+  });
+});
+
+app.get('/.well-known/jwks.json', (c) => {
+  return c.json(buildJwks(registry));
+});
+
+// Registry DID document (did:web) publishing the issuer key
+app.get('/.well-known/did.json', (c) => {
+  return c.json(buildRegistryDidDocument(registry));
+});
+
+// ============================================
+// Transparency Log
+// ============================================
+
+// The log is append-only, so subtree hashes are extended as leaves arrive and a head is signed once per size
+const logTree = createMerkleTree();
+let signedHead: SignedTreeHead | null = null;
+
+function syncLogTree(): number {
+  const size = db.getLogSize();
+  for (const leafHash of db.getLogLeafHashes(treeSize(logTree), size)) {
+    appendLeaf(logTree, leafHash);
+  }
+  return size;
+}
+
+app.get('/v1/log/head', async (c) => {
+  const size = syncLogTree();
+  if (signedHead?.treeSize !== size) {
+    signedHead = await signTreeHead(registry, size, treeRoot(logTree, size));
+  }
+  return c.json(signedHead);
+});
+
+app.get('/v1/log/entries', (c) => {
+  const parsed = LogEntriesParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { start, limit } = parsed.data;
+  return c.json({
+    treeSize: db.getLogSize(),
+    entries: db.getLogEntries(start, start + limit),
+  });
+});
+
+app.get('/v1/log/inclusion', (c) => {
+  const parsed = InclusionParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { leafIndex, did, version } = parsed.data;
+  const leaf = leafIndex !== undefined
+    ? db.getLogEntries(leafIndex, leafIndex + 1)[0] ?? null
+    : db.findLogLeaf(did!, version);
+  if (!leaf) {
+    return c.json({
+      error: 'Log entry not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  const currentSize = syncLogTree();
+  const size = parsed.data.treeSize ?? currentSize;
+  if (size > currentSize || leaf.leafIndex >= size) {
+    return c.json({
+      error: 'Tree size must include the leaf and not exceed the current log',
+      code: 'INVALID_TREE_SIZE',
+      details: { leafIndex: leaf.leafIndex, currentSize },
+    }, 400);
+  }
+
+  return c.json({
+    ...leaf,
+    treeSize: size,
+    rootHash: treeRoot(logTree, size),
+    auditPath: treeInclusionProof(logTree, leaf.leafIndex, size),
+  });
+});
+
+app.get('/v1/log/consistency', (c) => {
+  const parsed = ConsistencyParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const currentSize = syncLogTree();
+  const { first } = parsed.data;
+  const second = parsed.data.second ?? currentSize;
+  if (first > second || second > currentSize) {
+    return c.json({
+      error: 'Tree sizes must satisfy first <= second <= current size',
+      code: 'INVALID_TREE_SIZE',
+      details: { currentSize },
+    }, 400);
+  }
+
+  return c.json({
+    first,
+    second,
+    proof: treeConsistencyProof(logTree, first, second),
+  });
+});
+
+// ============================================
+// Federation
+// ============================================
+
+app.get('/v1/federation/feed', async (c) => {
+  const parsed = FeedParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  return c.json(await buildFeedBatch(db, registry, parsed.data.after, parsed.data.limit));
+});
+
+app.get('/v1/federation/peers', (c) => {
+  return c.json({
+    peers: FEDERATION_PEERS.map(url => db.getFederationPeer(url) ?? { url, lastSequence: 0 }),
+  });
+});
+
+app.get('/v1/federation/conflicts', (c) => {
+  const parsed = ConflictParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { conflicts, total } = db.listFederationConflicts(parsed.data.limit, parsed.data.offset);
+  return c.json({
+    conflicts,
+    total,
+    limit: parsed.data.limit,
+    offset: parsed.data.offset,
+  });
+});
+
+async function syncFederationPeers() {
+  // One peer at a time keeps replays from interleaving
+  for (const url of FEDERATION_PEERS) {
+    const result = await syncPeer(db, url);
+    if (result.error) {
+      console.error(`Federation sync with ${url} failed: ${result.error}`);
+    } else if (result.applied > 0 || result.conflicts > 0) {
+      console.log(`Replicated ${result.applied} events from ${url} (${result.conflicts} conflicts)`);
+    }
+  }
+}
+
+// ============================================
+// Webhooks
+// ============================================
+
+app.post('/v1/webhooks', async (c) => {
+  try {
+    const body = await c.req.json();
+    const parsed = WebhookSubscribeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { subscriber: subscriberDidOrName, auth, ...fields } = parsed.data;
+
+    const subscriber = findSoul(subscriberDidOrName);
+    if (!subscriber) {
+      return c.json({
+        error: 'Subscriber not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (subscriber.status === 'revoked') {
+      return c.json({
+        error: 'Revoked souls cannot subscribe to webhooks',
+        code: 'SOUL_REVOKED',
+      }, 403);
+    }
+
+    if (db.countWebhookSubscriptions(subscriber.did) >= WEBHOOK_MAX_SUBSCRIPTIONS) {
+      return c.json({
+        error: `A soul may have at most ${WEBHOOK_MAX_SUBSCRIPTIONS} webhook subscriptions`,
+        code: 'SUBSCRIPTION_LIMIT',
+      }, 409);
+    }
+
+    const denied = await authorizeMutation(c, subscriber, 'webhook.subscribe', body, auth, null);
+    if (denied) return denied;
+
+    const subscription: WebhookSubscription = {
+      subscriptionId: generateId('wh'),
+      ...fields,
+      subscriber: subscriber.did,
+      createdAt: new Date().toISOString(),
+    };
+    // Shown once; needed to read the delivery log or unsubscribe
+    const managementToken = generateNonce();
+    db.createWebhookSubscription(subscription, hashManagementToken(managementToken));
+
+    return c.json({
+      ...subscription,
+      managementToken,
+    }, 201);
+  } catch (error) {
+    console.error('Webhook subscription error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+app.get('/v1/webhooks/:subscriptionId', (c) => {
+  const found = authorizeSubscription(c, c.req.param('subscriptionId'));
+  if (found instanceof Response) return found;
+  return c.json(found);
+});
+
+app.delete('/v1/webhooks/:subscriptionId', (c) => {
+  const found = authorizeSubscription(c, c.req.param('subscriptionId'));
+  if (found instanceof Response) return found;
+
+  db.deleteWebhookSubscription(found.subscriptionId);
+  return c.json({
+    success: true,
+    subscriptionId: found.subscriptionId,
+  });
+});
+
+app.get('/v1/webhooks/:subscriptionId/deliveries', (c) => {
+  const found = authorizeSubscription(c, c.req.param('subscriptionId'));
+  if (found instanceof Response) return found;
+
+  const parsed = DeliveryParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { deliveries, total } = db.listWebhookDeliveries(found.subscriptionId, parsed.data);
+  return c.json({
+    subscriptionId: found.subscriptionId,
+    deliveries,
+    total,
+    limit: parsed.data.limit,
+    offset: parsed.data.offset,
+  });
+});
+
+/**
+ * Look up a subscription for the holder of its management token (Authorization: Bearer)
+ */
+function authorizeSubscription(c: any, subscriptionId: string): WebhookSubscription | Response {
+  const found = db.getWebhookSubscription(subscriptionId);
+  if (!found) {
+    return c.json({
+      error: 'Subscription not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  const token = (c.req.header('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!token || hashManagementToken(token) !== found.tokenHash) {
+    return c.json({
+      error: 'Missing or invalid management token',
+      code: 'UNAUTHORIZED',
+    }, 401);
+  }
+
+  return found.subscription;
+}
+
+// ============================================
+// Live Events
+// ============================================
+
+app.get('/v1/events', (c) => {
+  const parsed = EventStreamParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const cursor = streamCursor(c.req.header('Last-Event-ID'), parsed.data.after);
+  const { did: dids, operator: operators, type: types } = parsed.data;
+
+  return streamSSE(c, async (stream) => {
+    const stop = followSoulEvents(db, { dids, operators, types }, cursor, (event) => {
+      stream.writeSSE({
+        id: String(event.sequence),
+        event: event.type,
+        data: JSON.stringify(event),
+      }).catch(() => stop());
+    });
+    stream.onAbort(() => stop());
+
+    // Keep proxies from closing an idle stream
+    while (!stream.aborted) {
+      await stream.sleep(15 * 1000);
+      await stream.write(': keep-alive\n\n');
+    }
+  });
+});
+
+app.get('/v1/events/ws', upgradeWebSocket((c) => {
+  const parsed = EventStreamParamsSchema.safeParse(c.req.query());
+  const params = parsed.success ? parsed.data : {};
+  const cursor = streamCursor(c.req.header('Last-Event-ID'), params.after);
+  let stop: (() => void) | undefined;
+
+  return {
+    onOpen(_event, ws) {
+      if (!parsed.success) {
+        ws.send(JSON.stringify({
+          error: 'Invalid query parameters',
+          code: 'INVALID_PARAMS',
+          details: parsed.error.issues,
+        }));
+        ws.close(1008, 'Invalid query parameters');
+        return;
+      }
+      stop = followSoulEvents(db, { dids: params.did, operators: params.operator, types: params.type }, cursor,
+        (event) => ws.send(JSON.stringify(event)));
+    },
+    onClose() {
+      stop?.();
+    },
+  };
+}));
+
+/**
+ * Resume point for a stream: the Last-Event-ID header wins over ?after=
+ */
+function streamCursor(lastEventId: string | undefined, after: number | undefined): number | undefined {
+  const fromHeader = lastEventId !== undefined ? parseInt(lastEventId, 10) : NaN;
+  return Number.isInteger(fromHeader) && fromHeader >= 0 ? fromHeader : after;
+}
+
+// ============================================
+// Status Lists
+// ============================================
+
+// Registered before /:purpose so "changes" is not taken for a purpose
+app.get('/v1/status-lists/changes', (c) => {
+  const parsed = StatusChangesParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { since, limit } = parsed.data;
+  // Fetch one extra change to learn whether another page exists
+  const changes = db.getStatusChanges(since, limit + 1);
+  const page = changes.slice(0, limit);
+  return c.json({
+    since,
+    version: page.length > 0 ? page[page.length - 1].version : since,
+    latestVersion: db.getStatusListVersion(),
+    hasMore: changes.length > limit,
+    changes: page,
+  });
+});
+
+app.get('/v1/status-lists/:purpose', async (c) => {
+  const parsed = StatusPurposeSchema.safeParse(c.req.param('purpose'));
+  if (!parsed.success) {
+    return c.json({
+      error: 'Unknown status purpose',
+      code: 'NOT_FOUND',
+      details: { purposes: StatusPurposeSchema.options },
+    }, 404);
+  }
+
+  const purpose = parsed.data;
+  const version = db.getStatusListVersion();
+  // Deactivation is reversible, so it is published as a suspension
+  const indices = db.getStatusListIndices(purpose === 'revocation' ? ['revoked'] : ['suspended', 'deactivated']);
+  const unsigned = buildStatusListCredential(
+    `${STATUS_LISTS_URL}/${purpose}`, purpose, encodeStatusList(indices), version, registry, STATUS_LIST_TTL
+  );
+
+  c.header('Cache-Control', `public, max-age=${STATUS_LIST_TTL}`);
+  return c.json(await addDataIntegrityProof(unsigned, registry));
+});
+
+// ============================================
+// Search
+// ============================================
+
+app.get('/v1/souls', async (c) => {
+  const parsed = SearchParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { cursor: encodedCursor, ...params } = parsed.data;
+  if (params.q !== undefined && !ftsQuery(params.q)) {
+    return c.json({
+      error: 'q has no searchable words',
+      code: 'INVALID_PARAMS',
+    }, 400);
+  }
+
+  const sort = params.sort ?? (params.q ? 'relevance' : 'newest');
+  const cursor = encodedCursor ? decodeSearchCursor(encodedCursor, sort) : null;
+  if (encodedCursor && !cursor) {
+    return c.json({
+      error: 'Cursor is malformed or belongs to a different sort',
+      code: 'INVALID_CURSOR',
+    }, 400);
+  }
+
+  const { results, total, nextCursor, facets } = db.searchSouls({ ...params, sort }, cursor);
+
+  // Strip internal fields
+  const publicResults = results.map(({ _registryId, _version, ...soul }) => soul);
+
+  const response: SearchResponse = {
+    results: publicResults as any,
+    total,
+    limit: params.limit,
+    offset: cursor ? 0 : params.offset,
+    sort,
+    nextCursor,
+    facets,
+  };
+
+  return c.json(response);
+});
+
+// ============================================
+// Capability Vocabulary
+// ============================================
+
+// Approved capabilities by default; ?status=proposed for the review queue, ?parent= for one level
+app.get('/v1/capabilities', async (c) => {
+  const parsed = CapabilityParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  return c.json({
+    mode: CAPABILITY_MODE,
+    capabilities: db.listCapabilities(parsed.data.status, parsed.data.parent),
+  });
+});
+
+app.get('/v1/capabilities/:capabilityId', async (c) => {
+  const capability = db.getCapability(c.req.param('capabilityId'));
+  if (!capability) {
+    return c.json({
+      error: 'Capability not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  const ancestors: string[] = [];
+  for (let parent = capability.parent; parent; parent = parentCapabilityOf(parent)) {
+    ancestors.push(parent);
+  }
+
+  return c.json({
+    ...capability,
+    ancestors,                                                    // Nearest first
+    children: db.listCapabilities('approved', capability.id),
+  });
+});
+
+// A registered soul proposes a new capability for admin review
+app.post('/v1/capabilities', async (c) => {
+  try {
+    const body = await c.req.json();
+    const parsed = CapabilityProposalSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { id, description, riskWeight, rationale, proposer, auth } = parsed.data;
+
+    if (isCustomCapability(id)) {
+      return c.json({
+        error: 'Custom "x-" capabilities are declared without a proposal',
+        code: 'INVALID_REQUEST',
+      }, 400);
+    }
+
+    const soul = findSoul(proposer);
+    if (!soul) {
+      return c.json({
+        error: 'Proposing soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (soul.status !== 'active') {
+      return c.json({
+        error: `A ${soul.status} soul cannot propose capabilities`,
+        code: 'SOUL_NOT_ACTIVE',
+      }, 403);
+    }
+
+    // A rejected capability may be proposed again
+    const existing = db.getCapability(id);
+    if (existing && existing.status !== 'rejected') {
+      return c.json({
+        error: `Capability is already ${existing.status}`,
+        code: 'CAPABILITY_EXISTS',
+        details: { status: existing.status },
+      }, 409);
+    }
+
+    const parent = parentCapabilityOf(id);
+    if (parent && db.getCapability(parent)?.status !== 'approved') {
+      return c.json({
+        error: `Parent capability "${parent}" is not in the vocabulary`,
+        code: 'UNKNOWN_PARENT',
+      }, 400);
+    }
+
+    if (db.countPendingProposals(soul.did) >= MAX_PENDING_PROPOSALS) {
+      return c.json({
+        error: `A soul may have at most ${MAX_PENDING_PROPOSALS} open capability proposals`,
+        code: 'PROPOSAL_LIMIT',
+      }, 409);
+    }
+
+    const denied = await authorizeMutation(c, soul, 'capability.propose', body, auth, null, id);
+    if (denied) return denied;
+
+    const capability: CapabilityDefinition = {
+      id,
+      parent,
+      description,
+      riskWeight,
+      status: 'proposed',
+      proposedBy: soul.did,
+      rationale,
+      createdAt: new Date().toISOString(),
+    };
+    db.saveCapability(capability);
+
+    return c.json(capability, 201);
+  } catch (error) {
+    console.error('Capability proposal error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// ============================================
+// Charters
+// ============================================
+
+// Store a charter ahead of registration; the response's hash goes in birth.charterHash
+app.post('/v1/charters', async (c) => {
+  try {
+    // Malformed JSON is a bad request like any other invalid body
+    const parsed = CharterUploadSchema.safeParse(await c.req.json().catch(() => null));
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const charter = buildCharter(parsed.data);
+    const existing = db.getCharter(charter.hash);
+    if (!existing) {
+      // Charters are uploaded before the soul exists, so uploaders are told apart by a hash of their address
+      const uploaderKey = `anon:${Buffer.from(sha256Canonical(clientAddress(c))).toString('hex')}`;
+      const windowStart = new Date(Date.now() - CHARTER_UPLOAD_WINDOW_MS).toISOString();
+      if (db.countChartersUploadedSince(uploaderKey, windowStart) >= CHARTER_UPLOAD_LIMIT) {
+        c.header('Retry-After', String(CHARTER_UPLOAD_WINDOW_MS / 1000));
+        return c.json({
+          error: 'Too many charter uploads; try again later',
+          code: 'RATE_LIMITED',
+          details: { limit: CHARTER_UPLOAD_LIMIT, windowSeconds: CHARTER_UPLOAD_WINDOW_MS / 1000 },
+        }, 429);
+      }
+      db.storeCharter(charter, uploaderKey);
+    }
+
+    const { content, ...stored } = existing ?? charter;
+    return c.json(stored, existing ? 200 : 201);
+  } catch (error) {
+    console.error('Charter upload error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// The charter itself, as uploaded; content-addressed, so it never changes
+app.get('/v1/charters/:hash', async (c) => {
+  const hash = c.req.param('hash').toLowerCase();
+  const charter = CHARTER_HASH_PATTERN.test(hash) ? db.getCharter(hash) : null;
+  if (!charter) {
+    return c.json({
+      error: 'Charter not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  c.header('Content-Type', `${charter.mediaType}; charset=utf-8`);
+  c.header('Cache-Control', 'public, max-age=31536000, immutable');
+  c.header('ETag', `"${charter.hash}"`);
+  return c.body(charter.content);
+});
+
+app.get('/v1/souls/:didOrName/charter', async (c) => {
+  const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+  if (!soul) {
+    return c.json({
+      error: 'Soul not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  return c.json({
+    did: soul.did,
+    ...getCharterStatus(soul),
+    history: db.listCharterEntries(soul.did),   // Birth charter (sequence 0) and amendments, oldest first
+  });
+});
+
+// Publish a new version of the soul's charter, chained to the current one
+app.post('/v1/souls/:didOrName/charter/amendments', async (c) => {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const body = await c.req.json();
+    const parsed = CharterAmendmentSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const { content, mediaType, previousHash, summary, auth } = parsed.data;
+
+    const soul = findSoul(didOrName);
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    if (soul.status === 'revoked') {
+      return c.json({
+        error: 'Revoked souls cannot amend their charter',
+        code: 'SOUL_REVOKED',
+      }, 403);
+    }
+
+    const replicated = rejectReplicated(c, soul);
+    if (replicated) return replicated;
+
+    // Amendments form a chain; one made against an older charter is rejected before its nonce is spent
+    const { currentHash } = getCharterStatus(soul);
+    if (previousHash !== currentHash) {
+      return c.json({
+        error: 'previousHash is not the current charter',
+        code: 'CHARTER_STALE',
+        details: { currentHash },
+      }, 409);
+    }
+
+    const charter = buildCharter({ content, mediaType });
+    if (charter.hash === currentHash) {
+      return c.json({
+        error: 'Amendment is identical to the current charter',
+        code: 'INVALID_REQUEST',
+      }, 400);
+    }
+
+    const denied = await authorizeMutation(c, soul, 'charter.amend', body, auth, null);
+    if (denied) return denied;
+
+    const entries = db.listCharterEntries(soul.did);
+    const entry = {
+      did: soul.did,
+      sequence: Math.max(0, ...entries.map(e => e.sequence)) + 1,
+      charterHash: charter.hash,
+      previousHash,
+      summary,
+      actor: soul.did,
+      signature: auth.signature,
+      createdAt: charter.createdAt,
+    };
+    db.storeCharter(charter);
+    db.addCharterEntry(entry);
+
+    return c.json(entry, 201);
+  } catch (error) {
+    console.error('Charter amendment error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+// ============================================
+// Abuse Reports
+// ============================================
+
+// Proof-of-work for reporters without a verified soul
+app.post('/v1/reports/challenge', async (c) => {
+  return c.json(await issuePowChallenge(registry, REPORT_POW_DIFFICULTY, REPORT_POW_TTL), 201);
+});
+
+app.post('/v1/souls/:didOrName/reports', async (c) => {
+  try {
+    const body = await c.req.json();
+    const parsed = ReportRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    const { category, description, evidence, impersonates, proofOfWork } = parsed.data;
+    if (impersonates && !db.getSoulByDid(impersonates)) {
+      return c.json({
+        error: 'Impersonated soul is not registered',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    // Verified souls present a session from the challenge flow (audience: this registry)
+    let reporterDid: string | undefined;
+    let powId: string | undefined;
+    let powExpiresAt: string | undefined;
+    const token = (c.req.header('Authorization') || '').replace(/^Bearer\s+/i, '');
+    if (token) {
+      const check = await verifySessionToken(token, registry, REGISTRY_DID);
+      const session = check.valid ? db.getSession(check.claims.jti) : null;
+      const reporter = check.valid ? db.getSoulByDid(check.claims.sub) : null;
+      if (!check.valid || !session || session.revokedAt || reporter?.status !== 'active') {
+        return c.json({
+          error: check.valid ? 'Session is revoked or the reporter is not active' : check.error,
+          code: 'INVALID_SESSION',
+        }, 401);
+      }
+      if (reporter.did === soul.did) {
+        return c.json({
+          error: 'Souls cannot report themselves',
+          code: 'INVALID_REQUEST',
+        }, 400);
+      }
+      reporterDid = reporter.did;
+    } else if (proofOfWork) {
+      const check = await checkPowSolution(proofOfWork.challenge, proofOfWork.solution, registry);
+      if (!check.valid) {
+        return c.json({
+          error: check.error,
+          code: 'INVALID_PROOF_OF_WORK',
+        }, 401);
+      }
+      powId = check.id;
+      powExpiresAt = check.expiresAt;
+    } else {
+      return c.json({
+        error: 'Report with a session token from a verified soul or a solved proof-of-work challenge',
+        code: 'REPORTER_UNVERIFIED',
+      }, 401);
+    }
+
+    // Anonymous reporters are told apart by a hash of their address
+    const reporterKey = reporterDid ?? `anon:${Buffer.from(sha256Canonical(clientAddress(c))).toString('hex')}`;
+    const windowStart = new Date(Date.now() - REPORT_RATE_WINDOW_MS).toISOString();
+    if (db.countReportsSince(reporterKey, windowStart) >= REPORT_RATE_LIMIT) {
+      c.header('Retry-After', String(REPORT_RATE_WINDOW_MS / 1000));
+      return c.json({
+        error: 'Too many reports; try again later',
+        code: 'RATE_LIMITED',
+        details: { limit: REPORT_RATE_LIMIT, windowSeconds: REPORT_RATE_WINDOW_MS / 1000 },
+      }, 429);
+    }
+
+    if (db.hasUnresolvedReport(reporterKey, soul.did)) {
+      return c.json({
+        error: 'You already have an unresolved report against this soul',
+        code: 'DUPLICATE_REPORT',
+      }, 409);
+    }
+
+    if (powId && !db.consumeNonce('report-pow', powId, powExpiresAt!)) {
+      return c.json({
+        error: 'Proof-of-work challenge has already been used',
+        code: 'NONCE_REUSED',
+      }, 409);
+    }
+
+    const now = new Date().toISOString();
+    const report: AbuseReport = {
+      reportId: generateId('rpt'),
+      did: soul.did,
+      category,
+      description,
+      evidence,
+      impersonates,
+      reporterDid,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.createReport(report, reporterKey);
+
+    return c.json({
+      reportId: report.reportId,
+      did: report.did,
+      category: report.category,
+      status: report.status,
+      createdAt: report.createdAt,
+    }, 201);
+  } catch (error) {
+    console.error('Report error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+});
+
+app.get('/v1/admin/reports', async (c) => {
+  const admin = await authorizeAdmin(c);
+  if (admin instanceof Response) return admin;
+
+  const parsed = ReportParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { reports, total } = db.listReports(parsed.data);
+  return c.json({
+    reports,
+    total,
+    limit: parsed.data.limit,
+    offset: parsed.data.offset,
+  });
+});
+
+app.post('/v1/admin/reports/:reportId', async (c) => {
+  const body = await readAdminBody(c);
+  if (body instanceof Response) return body;
+  const admin = await authorizeAdmin(c, body);
+  if (admin instanceof Response) return admin;
+
+  const parsed = ReportUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid request body',
+      code: 'INVALID_REQUEST',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const reportId = c.req.param('reportId');
+  const report = db.getReport(reportId);
+  if (!report) {
+    return c.json({
+      error: 'Report not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  const { status, note } = parsed.data;
+  if (!REPORT_TRANSITIONS[report.status].includes(status)) {
+    return c.json({
+      error: `Cannot move a report from ${report.status} to ${status}`,
+      code: 'INVALID_TRANSITION',
+      details: { status: report.status, allowed: REPORT_TRANSITIONS[report.status] },
+    }, 409);
+  }
+
+  db.updateReportStatus(reportId, status, admin.name, note);
+  db.recordAdminAction(admin.name, 'report.update', reportId, note ? `${status}: ${note}` : status);
+
+  return c.json(db.getReport(reportId));
+});
+
+// ============================================
+// Status Updates
+// ============================================
+
+app.post('/v1/souls/:didOrName/suspend', async (c) => {
+  return updateStatus(c, 'status.suspend');
+});
+
+app.post('/v1/souls/:didOrName/revoke', async (c) => {
+  return updateStatus(c, 'status.revoke');
+});
+
+app.post('/v1/souls/:didOrName/reactivate', async (c) => {
+  return updateStatus(c, 'status.reactivate');
+});
+
+app.post('/v1/souls/:didOrName/deactivate', async (c) => {
+  return updateStatus(c, 'status.deactivate');
+});
+
+async function updateStatus(c: any, action: StatusAction) {
+  try {
+    const didOrName = decodeURIComponent(c.req.param('didOrName'));
+    const body = await c.req.json();
+    const parsed = StatusUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const soul = findSoul(didOrName);
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    const { reason, cascade, auth, signature } = parsed.data;
+    const authority: LifecycleAuthority = auth?.signer ?? 'soul';
+
+    if (cascade && action !== 'status.revoke') {
+      return c.json({
+        error: 'cascade only applies to revocation',
+        code: 'INVALID_REQUEST',
+      }, 400);
+    }
+
+    const checked = checkTransition(soul, action, authority, LIFECYCLE_POLICY);
+    if ('violation' in checked) {
+      const { error, code, status, details } = checked.violation;
+      return c.json({ error, code, details }, status);
+    }
+    const { to } = checked.transition;
+
+    let attribution: EventAttribution;
+    if (authority === 'operator') {
+      // Only an operator that countersigned the soul's registration (or transfer) speaks for it
+      const operator = soul.operatorAttested ? db.getOperatorByName(soul.currentOperator ?? soul.birth.operator) : null;
+      if (!operator) {
+        return c.json({
+          error: 'Soul is not attested by a registered operator',
+          code: 'OPERATOR_NOT_ATTESTED',
+        }, 403);
+      }
+      const denied = await authorizeMutation(c, soul, action, body, auth, null, null, operator.publicKey);
+      if (denied) return denied;
+      attribution = { actor: operator.name, signature: auth!.signature };
+    } else if (authority === 'parent') {
+      const parentName = parentNameOf(soul.name);
+      const parent = parentName ? db.getSoulByName(parentName) : null;
+      if (!parent || parent.status !== 'active') {
+        return c.json({
+          error: 'Soul has no active parent',
+          code: 'PARENT_NOT_ACTIVE',
+        }, 403);
+      }
+      const denied = await authorizeMutation(c, soul, action, body, auth, null, null, parent.publicKey);
+      if (denied) return denied;
+      attribution = { actor: parent.did, signature: auth!.signature };
+    } else {
+      // Verify the signed envelope (or the deprecated "{status}:{did}:{reason}" signature)
+      const legacy = signature && action !== 'status.deactivate'
+        ? { message: `${to}:${soul.did}:${reason}`, signature }
+        : null;
+      const denied = await authorizeMutation(c, soul, action, body, auth, legacy);
+      if (denied) return denied;
+      attribution = { actor: mutationActor(soul, auth), signature: auth?.signature || signature };
+    }
+
+    if (!db.updateSoulStatus(soul.did, to, reason, authority, attribution, auth?.expectedVersion)) {
+      return versionConflict(c, soul.did, auth?.expectedVersion);
+    }
+    const cascaded = cascade ? cascadeRevocation(soul, reason, 'parent', attribution) : undefined;
+
+    return c.json({
+      did: soul.did,
+      status: to,
+      statusChangedAt: new Date().toISOString(),
+      statusChangedBy: authority,
+      signedBy: authority === 'soul' ? mutationSigner(soul, auth) : undefined,
+      cascaded,
+    });
+  } catch (error) {
+    console.error('Status update error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+}
+
+// ============================================
+// Registry Administration
+// ============================================
+
+app.post('/v1/admin/souls/:didOrName/suspend', async (c) => {
+  return adminUpdateStatus(c, 'status.suspend');
+});
+
+app.post('/v1/admin/souls/:didOrName/reactivate', async (c) => {
+  return adminUpdateStatus(c, 'status.reactivate');
+});
+
+app.post('/v1/admin/souls/:didOrName/revoke', async (c) => {
+  return adminUpdateStatus(c, 'status.revoke');
+});
+
+async function adminUpdateStatus(c: any, action: Exclude<StatusAction, 'status.deactivate'>) {
+  try {
+    const body = await readAdminBody(c);
+    if (body instanceof Response) return body;
+    const admin = await authorizeAdmin(c, body);
+    if (admin instanceof Response) return admin;
+
+    const parsed = AdminStatusUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid request body',
+        code: 'INVALID_REQUEST',
+        details: parsed.error.issues,
+      }, 400);
+    }
+
+    const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+    if (!soul) {
+      return c.json({
+        error: 'Soul not found',
+        code: 'NOT_FOUND',
+      }, 404);
+    }
+
+    const replicated = rejectReplicated(c, soul);
+    if (replicated) return replicated;
+
+    const checked = checkTransition(soul, action, 'admin', LIFECYCLE_POLICY);
+    if ('violation' in checked) {
+      const { error, code, status, details } = checked.violation;
+      return c.json({ error, code, details }, status);
+    }
+
+    const { reason, cascade } = parsed.data;
+    if (cascade && action !== 'status.revoke') {
+      return c.json({
+        error: 'cascade only applies to revocation',
+        code: 'INVALID_REQUEST',
+      }, 400);
+    }
+
+    const attribution = { actor: `admin:${admin.name}` };
+    db.updateSoulStatus(soul.did, checked.transition.to, reason, 'admin', attribution);
+    db.recordAdminAction(admin.name, action, soul.did, reason);
+    const cascaded = cascade ? cascadeRevocation(soul, reason, 'admin', attribution) : undefined;
+
+    const updated = db.getSoulByDid(soul.did)!;
+    return c.json({
+      did: updated.did,
+      status: updated.status,
+      statusChangedAt: updated.statusChangedAt,
+      statusChangedBy: updated.statusChangedBy,
+      statusDescription: describeStatus(updated),
+      cascaded,
+    });
+  } catch (error) {
+    console.error('Admin status update error:', error);
+    return c.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR',
+    }, 500);
+  }
+}
+
+app.get('/v1/admin/frozen-names', async (c) => {
+  const admin = await authorizeAdmin(c);
+  if (admin instanceof Response) return admin;
+
+  return c.json({ names: db.listFrozenNames() });
+});
+
+app.put('/v1/admin/frozen-names/:name', async (c) => {
+  const body = await readAdminBody(c);
+  if (body instanceof Response) return body;
+  const admin = await authorizeAdmin(c, body);
+  if (admin instanceof Response) return admin;
+
+  const parsed = NameFreezeSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid request body',
+      code: 'INVALID_REQUEST',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const name = decodeURIComponent(c.req.param('name'));
+  const entry = {
+    name,
+    reason: parsed.data.reason,
+    frozenBy: admin.name,
+    frozenAt: new Date().toISOString(),
+  };
+  db.freezeName(entry);
+  db.recordAdminAction(admin.name, 'name.freeze', name, entry.reason);
+
+  const holder = db.getSoulByName(name);
+  return c.json({ ...entry, heldBy: holder?.did });
+});
+
+app.delete('/v1/admin/frozen-names/:name', async (c) => {
+  const admin = await authorizeAdmin(c);
+  if (admin instanceof Response) return admin;
+
+  const name = decodeURIComponent(c.req.param('name'));
+  if (!db.unfreezeName(name)) {
+    return c.json({
+      error: 'Name is not frozen',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+  db.recordAdminAction(admin.name, 'name.unfreeze', name);
+
+  return c.json({ name, frozen: false });
+});
+
+app.get('/v1/admin/name-approvals', async (c) => {
+  const admin = await authorizeAdmin(c);
+  if (admin instanceof Response) return admin;
+
+  return c.json({ approvals: db.listNameApprovals() });
+});
+
+app.put('/v1/admin/name-approvals/:name', async (c) => {
+  const body = await readAdminBody(c);
+  if (body instanceof Response) return body;
+  const admin = await authorizeAdmin(c, body);
+  if (admin instanceof Response) return admin;
+
+  const parsed = NameApprovalSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid request body',
+      code: 'INVALID_REQUEST',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  if (!isValidPublicKey(parsed.data.publicKey)) {
+    return c.json({
+      error: 'Public key is not a valid Ed25519 key',
+      code: 'INVALID_PUBLIC_KEY',
+    }, 400);
+  }
+
+  const name = decodeURIComponent(c.req.param('name'));
+  const approval = {
+    name,
+    publicKey: parsed.data.publicKey,
+    reason: parsed.data.reason,
+    approvedBy: admin.name,
+    approvedAt: new Date().toISOString(),
+  };
+  db.approveName(approval);
+  db.recordAdminAction(admin.name, 'name.approve', name, approval.reason);
+
+  return c.json(approval);
+});
+
+app.delete('/v1/admin/name-approvals/:name', async (c) => {
+  const admin = await authorizeAdmin(c);
+  if (admin instanceof Response) return admin;
+
+  const name = decodeURIComponent(c.req.param('name'));
+  if (!db.removeNameApproval(name)) {
+    return c.json({
+      error: 'Name has no approval',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+  db.recordAdminAction(admin.name, 'name.unapprove', name);
+
+  return c.json({ name, approved: false });
+});
+
+// Approve a proposal (optionally adjusting it) or define a capability outright
+app.put('/v1/admin/capabilities/:capabilityId', async (c) => {
+  const body = await readAdminBody(c);
+  if (body instanceof Response) return body;
+  const admin = await authorizeAdmin(c, body);
+  if (admin instanceof Response) return admin;
+
+  const parsed = CapabilityReviewSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid request body',
+      code: 'INVALID_REQUEST',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const id = c.req.param('capabilityId');
+  if (!CAPABILITY_ID_PATTERN.test(id) || isCustomCapability(id)) {
+    return c.json({
+      error: 'Invalid capability ID',
+      code: 'INVALID_REQUEST',
+    }, 400);
+  }
+
+  const existing = db.getCapability(id);
+  const description = parsed.data.description ?? existing?.description;
+  const riskWeight = parsed.data.riskWeight ?? existing?.riskWeight;
+  if (description === undefined || riskWeight === undefined) {
+    return c.json({
+      error: 'A new capability needs a description and riskWeight',
+      code: 'INVALID_REQUEST',
+    }, 400);
+  }
+
+  const parent = parentCapabilityOf(id);
+  if (parent && db.getCapability(parent)?.status !== 'approved') {
+    return c.json({
+      error: `Parent capability "${parent}" is not in the vocabulary`,
+      code: 'UNKNOWN_PARENT',
+    }, 400);
+  }
+
+  const now = new Date().toISOString();
+  const capability: CapabilityDefinition = {
+    id,
+    parent,
+    description,
+    riskWeight,
+    status: 'approved',
+    proposedBy: existing ? existing.proposedBy : admin.name,
+    rationale: existing?.rationale,
+    createdAt: existing?.createdAt ?? now,
+    reviewedBy: admin.name,
+    reviewedAt: now,
+    reviewReason: parsed.data.reason,
+  };
+  db.saveCapability(capability);
+  db.recordAdminAction(admin.name, 'capability.approve', id, parsed.data.reason);
+
+  return c.json(capability);
+});
+
+// Reject a pending proposal; approved capabilities stay, since souls may already declare them
+app.post('/v1/admin/capabilities/:capabilityId/reject', async (c) => {
+  const body = await readAdminBody(c);
+  if (body instanceof Response) return body;
+  const admin = await authorizeAdmin(c, body);
+  if (admin instanceof Response) return admin;
+
+  const parsed = CapabilityReviewSchema.pick({ reason: true }).safeParse(body);
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid request body',
+      code: 'INVALID_REQUEST',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const id = c.req.param('capabilityId');
+  const capability = db.getCapability(id);
+  if (!capability || capability.status !== 'proposed') {
+    return c.json({
+      error: capability ? `Capability is ${capability.status}, not proposed` : 'Capability not found',
+      code: capability ? 'CAPABILITY_NOT_PROPOSED' : 'NOT_FOUND',
+    }, capability ? 409 : 404);
+  }
+
+  const rejected: CapabilityDefinition = {
+    ...capability,
+    status: 'rejected',
+    reviewedBy: admin.name,
+    reviewedAt: new Date().toISOString(),
+    reviewReason: parsed.data.reason,
+  };
+  db.saveCapability(rejected);
+  db.recordAdminAction(admin.name, 'capability.reject', id, parsed.data.reason);
+
+  return c.json(rejected);
+});
+
+app.post('/v1/admin/souls/:didOrName/notes', async (c) => {
+  const body = await readAdminBody(c);
+  if (body instanceof Response) return body;
+  const admin = await authorizeAdmin(c, body);
+  if (admin instanceof Response) return admin;
+
+  const parsed = ModerationNoteSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid request body',
+      code: 'INVALID_REQUEST',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const soul = findSoul(decodeURIComponent(c.req.param('didOrName')));
+  if (!soul) {
+    return c.json({
+      error: 'Soul not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+
+  const item = {
+    id: generateId('mod'),
+    did: soul.did,
+    kind: 'note' as const,
+    body: parsed.data.note,
+    pending: parsed.data.pending,
+    createdBy: admin.name,
+    createdAt: new Date().toISOString(),
+  };
+  db.createModerationItem(item);
+  db.recordAdminAction(admin.name, 'moderation.note', soul.did, item.body);
+
+  return c.json(item, 201);
+});
+
+app.get('/v1/admin/moderation', async (c) => {
+  const admin = await authorizeAdmin(c);
+  if (admin instanceof Response) return admin;
+
+  // The queue: pending items unless asked otherwise
+  const parsed = ModerationParamsSchema.safeParse({ pending: 'true', ...c.req.query() });
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { items, total } = db.listModerationItems(parsed.data);
+  return c.json({
+    items,
+    total,
+    limit: parsed.data.limit,
+    offset: parsed.data.offset,
+  });
+});
+
+app.post('/v1/admin/moderation/:itemId/resolve', async (c) => {
+  const body = await readAdminBody(c);
+  if (body instanceof Response) return body;
+  const admin = await authorizeAdmin(c, body);
+  if (admin instanceof Response) return admin;
+
+  const parsed = ModerationResolveSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid request body',
+      code: 'INVALID_REQUEST',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const itemId = c.req.param('itemId');
+  const item = db.getModerationItem(itemId);
+  if (!item) {
+    return c.json({
+      error: 'Moderation item not found',
+      code: 'NOT_FOUND',
+    }, 404);
+  }
+  if (!db.resolveModerationItem(itemId, admin.name, parsed.data.resolution)) {
+    return c.json({
+      error: 'Moderation item is not pending',
+      code: 'NOT_PENDING',
+    }, 409);
+  }
+  db.recordAdminAction(admin.name, 'moderation.resolve', itemId, parsed.data.resolution);
+
+  return c.json(db.getModerationItem(itemId));
+});
+
+app.get('/v1/admin/actions', async (c) => {
+  const admin = await authorizeAdmin(c);
+  if (admin instanceof Response) return admin;
+
+  const parsed = AdminActionsParamsSchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid query parameters',
+      code: 'INVALID_PARAMS',
+      details: parsed.error.issues,
+    }, 400);
+  }
+
+  const { actions, total } = db.listAdminActions(parsed.data);
+  return c.json({
+    actions,
+    total,
+    limit: parsed.data.limit,
+    offset: parsed.data.offset,
+  });
+});
+
+// ============================================
+// Static Files (Landing Page)
+// ============================================
+
+app.use('/*', serveStatic({ root: './public' }));
+
+// Fallback to index.html for SPA routing
+app.get('/', serveStatic({ path: './public/index.html' }));
+
+// ============================================
+// Utilities
+// ============================================
+
+/**
+ * Effective recovery time lock for a soul, never below the registry minimum
+ */
+function recoveryDelay(recovery: RecoveryConfig): number {
+  return Math.max(recovery.delaySeconds ?? RECOVERY_DEFAULT_DELAY, RECOVERY_MIN_DELAY);
+}
+
+/**
+ * Registry-level checks on recovery material that the schema cannot express
+ */
+function checkRecoveryConfig(did: string, recovery: RecoveryConfig): { error: string; code: string } | null {
+  if (recovery.delaySeconds !== undefined && recovery.delaySeconds < RECOVERY_MIN_DELAY) {
+    return {
+      error: `Recovery delay must be at least ${RECOVERY_MIN_DELAY} seconds`,
+      code: 'RECOVERY_DELAY_TOO_SHORT',
+    };
+  }
+
+  for (const guardian of recovery.guardians || []) {
+    if (guardian.toLowerCase() === did.toLowerCase()) {
+      return {
+        error: 'A soul cannot be its own guardian',
+        code: 'INVALID_GUARDIAN',
+      };
+    }
+    if (!db.getSoulByDid(guardian)) {
+      return {
+        error: `Guardian is not a registered soul: ${guardian}`,
+        code: 'INVALID_GUARDIAN',
+      };
+    }
+  }
+
+  return null;
+}
+
+interface LegacySignature {
+  message: string;      // Pre-envelope message format
+  signature: string;
+  timestamp?: string;   // Freshness-checked when the old format carried one
+}
+
+/**
+ * Authorize a mutation signed by the soul's key, or by `publicKey` when another party
+ * (operator, parent, transfer recipient) signs instead; delegates only ever stand in for the soul key.
+ * Returns an error response, or null when the mutation may proceed.
+ */
+async function authorizeMutation(
+  c: any,
+  soul: SoulRecord,
+  action: MutationAction,
+  body: Record<string, unknown>,
+  auth: MutationAuth | undefined,
+  legacy: LegacySignature | null,
+  target: string | null = null,
+  publicKey?: string
+): Promise<Response | null> {
+  const replicated = rejectReplicated(c, soul);
+  if (replicated) return replicated;
+
+  const now = Date.now();
+
+  if (auth) {
+    const timestamp = new Date(auth.timestamp).getTime();
+    if (timestamp < now - MUTATION_MAX_AGE_MS) {
+      return c.json({
+        error: 'Timestamp too old (max 5 minutes)',
+        code: 'TIMESTAMP_EXPIRED',
+      }, 400);
+    }
+    if (timestamp > now + MUTATION_MAX_SKEW_MS) {
+      return c.json({
+        error: 'Timestamp is in the future',
+        code: 'TIMESTAMP_INVALID',
+      }, 400);
+    }
+
+    // A delegate key signs in place of the soul key, within its scope
+    let signingKey = publicKey ?? soul.publicKey;
+    if (publicKey === undefined && signedByDelegate(auth)) {
+      const delegation = db.getDelegation(auth.delegation);
+      const violation = checkDelegation(delegation, soul.did, action);
+      if (violation) {
+        return c.json({ error: violation.error, code: violation.code }, violation.status);
+      }
+      signingKey = delegation!.publicKey;
+    }
+
+    const envelope = buildMutationEnvelope(action, soul.did, body, auth, target);
+    const validSignature = await verifySignature(encodeMutationEnvelope(envelope), auth.signature, signingKey);
+    if (!validSignature) {
+      return c.json({
+        error: 'Invalid signature',
+        code: 'INVALID_SIGNATURE',
+      }, 401);
+    }
+
+    // Fails early for a stale version; the write that follows checks it again in its UPDATE
+    if (auth.expectedVersion !== soul._version) {
+      return versionConflict(c, soul.did, auth.expectedVersion);
+    }
+
+    // A nonce only has to be remembered for as long as its timestamp is acceptable
+    const nonceExpiresAt = new Date(timestamp + MUTATION_MAX_AGE_MS + MUTATION_MAX_SKEW_MS).toISOString();
+    if (!db.consumeNonce(soul.did, auth.nonce, nonceExpiresAt)) {
+      return c.json({
+        error: 'Nonce has already been used',
+        code: 'NONCE_REUSED',
+      }, 409);
+    }
+
+    return null;
+  }
+
+  if (!legacy) {
+    return c.json({
+      error: 'Missing auth envelope',
+      code: 'INVALID_REQUEST',
+    }, 400);
+  }
+
+  if (now >= LEGACY_SIGNATURES_UNTIL.getTime()) {
+    return c.json({
+      error: 'Legacy signature formats are no longer accepted; sign a mutation envelope',
+      code: 'LEGACY_SIGNATURE_RETIRED',
+    }, 400);
+  }
+
+  if (legacy.timestamp) {
+    const timestamp = new Date(legacy.timestamp).getTime();
+    if (timestamp < now - MUTATION_MAX_AGE_MS) {
+      return c.json({
+        error: 'Timestamp too old (max 5 minutes)',
+        code: 'TIMESTAMP_EXPIRED',
+      }, 400);
+    }
+    if (timestamp > now + MUTATION_MAX_SKEW_MS) {
+      return c.json({
+        error: 'Timestamp is in the future',
+        code: 'TIMESTAMP_INVALID',
+      }, 400);
+    }
+  }
+
+  const signatureHex = normalizeSignature(legacy.signature);
+  const validSignature = !!signatureHex && await verifySignature(legacy.message, legacy.signature, soul.publicKey);
+  if (!validSignature) {
+    return c.json({
+      error: 'Invalid signature',
+      code: 'INVALID_SIGNATURE',
+    }, 401);
+  }
+
+  // Some legacy formats carry no timestamp, so each legacy signature is accepted once,
+  // keyed on its bytes so that a hex, 0x or base58 re-encoding is the same signature
+  if (!db.consumeNonce(soul.did, `legacy:${signatureHex}`, LEGACY_SIGNATURES_UNTIL.toISOString())) {
+    return c.json({
+      error: 'Signature has already been used',
+      code: 'NONCE_REUSED',
+    }, 409);
+  }
+
+  c.header('Deprecation', 'true');
+  c.header('Sunset', LEGACY_SIGNATURES_UNTIL.toUTCString());
+  return null;
+}
+
+/**
+ * The JSON object an admin request signs over, or a 400 for a body that is not one
+ */
+async function readAdminBody(c: any): Promise<Record<string, unknown> | Response> {
+  const body = await c.req.json().catch(() => null);
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return c.json({
+      error: 'Request body must be a JSON object',
+      code: 'INVALID_REQUEST',
+    }, 400);
+  }
+  return body;
+}
+
+/**
+ * Check the admin request signature headers; returns the admin or an error response
+ */
+async function authorizeAdmin(c: any, body: Record<string, unknown> = {}): Promise<AdminIdentity | Response> {
+  const admin = ADMIN_KEYS.find(a => a.name === c.req.header(ADMIN_HEADER));
+  const timestampHeader = c.req.header(ADMIN_TIMESTAMP_HEADER);
+  const nonce = c.req.header(ADMIN_NONCE_HEADER);
+  const signature = c.req.header(ADMIN_SIGNATURE_HEADER);
+  if (!admin || !timestampHeader || !nonce || !signature) {
+    return c.json({
+      error: 'Missing admin credentials or unknown admin',
+      code: 'UNAUTHORIZED',
+    }, 401);
+  }
+
+  if (nonce.length < 16 || nonce.length > 128) {
+    return c.json({
+      error: 'Nonce must be 16 to 128 characters',
+      code: 'INVALID_REQUEST',
+    }, 400);
+  }
+
+  const now = Date.now();
+  const timestamp = new Date(timestampHeader).getTime();
+  if (Number.isNaN(timestamp) || timestamp > now + MUTATION_MAX_SKEW_MS) {
+    return c.json({
+      error: 'Timestamp is invalid or in the future',
+      code: 'TIMESTAMP_INVALID',
+    }, 400);
+  }
+  if (timestamp < now - MUTATION_MAX_AGE_MS) {
+    return c.json({
+      error: 'Timestamp too old (max 5 minutes)',
+      code: 'TIMESTAMP_EXPIRED',
+    }, 400);
+  }
+
+  const url = new URL(c.req.url);
+  const envelope = buildAdminEnvelope(admin.name, c.req.method, url.pathname + url.search, body, timestampHeader, nonce);
+  if (!(await verifySignature(encodeAdminEnvelope(envelope), signature, admin.publicKey))) {
+    return c.json({
+      error: 'Invalid signature',
+      code: 'INVALID_SIGNATURE',
+    }, 401);
+  }
+
+  const nonceExpiresAt = new Date(timestamp + MUTATION_MAX_AGE_MS + MUTATION_MAX_SKEW_MS).toISOString();
+  if (!db.consumeNonce(`admin:${admin.name}`, nonce, nonceExpiresAt)) {
+    return c.json({
+      error: 'Nonce has already been used',
+      code: 'NONCE_REUSED',
+    }, 409);
+  }
+
+  return admin;
+}
+
+// Keys are compared as bytes, so a hex key cannot come back in another case or encoding
+function hasUsedKey(did: string, publicKey: string): boolean {
+  const keyHash = hashPublicKey(publicKey);
+  return db.getSoulKeys(did).some(k => hashPublicKey(k.publicKey) === keyHash);
+}
+
+/**
+ * Replicated souls are owned by their origin registry and only change through its feed
+ */
+function rejectReplicated(c: any, soul: SoulRecord): Response | null {
+  if (!soul.provenance) return null;
+  return c.json({
+    error: 'Soul is replicated from a peer registry; send changes to its origin',
+    code: 'REPLICATED_SOUL',
+    details: { origin: soul.provenance.url },
+  }, 409);
+}
+
+// Declared capabilities must come from the vocabulary (or be custom "x-" ones in permissive mode)
+function rejectUnknownCapabilities(c: any, capabilities: string[] | null | undefined): Response | null {
+  const violation = checkCapabilities(capabilities ?? [], db.getCapabilityVocabulary(), CAPABILITY_MODE);
+  if (!violation) return null;
+  return c.json({
+    error: violation.error,
+    code: 'UNKNOWN_CAPABILITY',
+    details: violation.details,
+  }, 400);
+}
+
+function buildCharter(upload: CharterUpload): Charter {
+  return {
+    hash: hashCharter(upload.content),
+    mediaType: upload.mediaType,
+    size: Buffer.byteLength(upload.content, 'utf8'),
+    content: upload.content,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+// Birth charter availability and verification, and where amendments have taken it
+function getCharterStatus(soul: SoulRecord): CharterStatus {
+  const entries = db.listCharterEntries(soul.did);
+  const hash = soul.birth.charterHash ?? null;
+  return {
+    hash,
+    available: !!hash && db.hasCharter(hash),
+    verified: entries[0]?.sequence === 0,
+    currentHash: entries[entries.length - 1]?.charterHash ?? hash,
+    amendments: entries.filter(entry => entry.sequence > 0).length,
+  };
+}
+
+function findSoul(didOrName: string): SoulRecord | null {
+  return didOrName.startsWith('did:soul:')
+    ? db.getSoulByDid(didOrName)
+    : db.getSoulByName(didOrName);
+}
+
+// Whether a delegate key signed in place of the soul key; operators and parents always sign as themselves
+function signedByDelegate(auth: MutationAuth | undefined): auth is MutationAuth & { delegation: string } {
+  return !!auth?.delegation && (auth.signer ?? 'soul') === 'soul';
+}
+
+// The soul, or "{did}#{delegationId}" when a delegate key signed for it
+function mutationActor(soul: SoulRecord, auth: MutationAuth | undefined): string {
+  return signedByDelegate(auth) ? `${soul.did}#${auth.delegation}` : soul.did;
+}
+
+// 409 for a signed mutation made against a version the soul has since moved past
+function versionConflict(c: any, did: string, expectedVersion: number | undefined) {
+  return c.json({
+    error: 'Soul was modified since the expected version',
+    code: 'VERSION_CONFLICT',
+    details: { expectedVersion, currentVersion: db.getSoulByDid(did)?._version },
+  }, 409);
+}
+
+function mutationSigner(soul: SoulRecord, auth: MutationAuth | undefined): MutationSigner {
+  if (!signedByDelegate(auth)) return { key: 'soul', publicKey: soul.publicKey };
+  return { key: 'delegate', publicKey: db.getDelegation(auth.delegation)!.publicKey, delegationId: auth.delegation };
+}
+
+// Registered ancestors of a namespaced soul, nearest first
+function getParentChain(soul: SoulRecord) {
+  const chain = [];
+  for (let name = parentNameOf(soul.name); name; name = parentNameOf(name)) {
+    const parent = db.getSoulByName(name);
+    if (!parent) break;
+    chain.push({
+      did: parent.did,
+      name: parent.name,
+      status: parent.status,
+      statusDescription: describeStatus(parent),
+      operatorAttested: parent.operatorAttested,
+    });
+  }
+  return chain;
+}
+
+// Revoke everything under a revoked soul's namespace (replicated souls are left to their origin)
+function cascadeRevocation(
+  parent: SoulRecord,
+  reason: string,
+  changedBy: LifecycleAuthority,
+  attribution: EventAttribution
+): string[] {
+  const revoked: string[] = [];
+  for (const member of db.getNamespaceMembers(parent.did)) {
+    if (member.status === 'revoked' || member.provenance) continue;
+    db.updateSoulStatus(member.did, 'revoked', `Namespace ${parent.did} revoked: ${reason}`, changedBy, attribution);
+    revoked.push(member.did);
+  }
+  return revoked;
+}
+
+// The socket address, or behind trusted proxies the address the outermost one saw.
+// Each proxy appends the address it was reached from, so earlier X-Forwarded-For entries are client-supplied.
+function clientAddress(c: any): string {
+  const forwarded = TRUST_PROXY_HOPS > 0 ? c.req.header('x-forwarded-for') : undefined;
+  if (forwarded) {
+    const hops = forwarded.split(',').map((hop: string) => hop.trim()).filter(Boolean);
+    if (hops.length > 0) return hops[Math.max(0, hops.length - TRUST_PROXY_HOPS)];
+  }
+  try {
+    return getConnInfo(c).remote.address || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
 
 function getBaseUrl(c: any): string {
   const host = c.req.header('host') || 'localhost:3000';
@@ -608,10 +4167,11 @@ async function main() {
 Starting server on port ${port}...
 `);
 
-  serve({
+  const server = serve({
     fetch: app.fetch,
     port,
   });
+  injectWebSocket(server);
 
   console.log(`
 🔮 Registry running at http://localhost:${port}
@@ -625,8 +4185,48 @@ Starting server on port ${port}...
     if (cleaned > 0) {
       console.log(`Cleaned ${cleaned} expired challenges`);
     }
+    const expiredSessions = db.cleanExpiredSessions();
+    if (expiredSessions > 0) {
+      console.log(`Cleaned ${expiredSessions} expired sessions`);
+    }
+    db.cleanExpiredNonces();
   }, 60 * 1000); // Every minute
 
+  // Deliver queued webhooks
+  let delivering = false;
+  setInterval(async () => {
+    if (delivering) return;
+    delivering = true;
+    try {
+      const { failed } = await deliverDueWebhooks(db, registry, WEBHOOK_RETRY_POLICY, {
+        allowPrivateAddresses: WEBHOOK_ALLOW_PRIVATE_ADDRESSES,
+      });
+      if (failed > 0) {
+        console.log(`Gave up on ${failed} webhook deliveries`);
+      }
+    } catch (error) {
+      console.error('Webhook delivery error:', error);
+    } finally {
+      delivering = false;
+    }
+  }, 5 * 1000); // Every 5 seconds
+
+  // Pull peer registries' feeds
+  if (FEDERATION_PEERS.length > 0) {
+    let syncing = false;
+    const sync = async () => {
+      if (syncing) return;
+      syncing = true;
+      try {
+        await syncFederationPeers();
+      } finally {
+        syncing = false;
+      }
+    };
+    sync();
+    setInterval(sync, FEDERATION_SYNC_INTERVAL * 1000);
+  }
+
   // Graceful shutdown
   process.on('SIGINT', () => {
     console.log('\nShutting down...');
@@ -635,6 +4235,7 @@ Starting server on port ${port}...
   });
 }
 
-main().catch(console.error);
+// Settles once the database is open and the server is listening
+export const ready = main().catch(console.error);
 
 export default app;
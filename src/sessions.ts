@@ -0,0 +1,79 @@
+import { decodeJwt, generateId, signJwt, verifyJwt } from './crypto.js';
+import type { RegistryIdentity } from './issuer.js';
+import type { Session } from './types.js';
+
+// ============================================
+// Relying-Party Session Tokens
+// ============================================
+
+export interface SessionClaims {
+  iss: string;
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+export type SessionTokenCheck =
+  | { valid: true; claims: SessionClaims }
+  | { valid: false; error: string };
+
+/**
+ * Mint an audience-bound EdDSA JWT for a soul that just passed challenge-response
+ */
+export async function issueSessionToken(
+  issuer: RegistryIdentity,
+  did: string,
+  audience: string,
+  ttlSeconds: number
+): Promise<{ token: string; session: Session }> {
+  const issuedAt = new Date();
+  const expiresAt = new Date(issuedAt.getTime() + ttlSeconds * 1000);
+  const claims: SessionClaims = {
+    iss: issuer.did,
+    sub: did,
+    aud: audience,
+    iat: Math.floor(issuedAt.getTime() / 1000),
+    exp: Math.floor(expiresAt.getTime() / 1000),
+    jti: generateId('ses'),
+  };
+
+  const token = await signJwt(claims, issuer.privateKey, { kid: issuer.keyId, typ: 'JWT' });
+
+  return {
+    token,
+    session: {
+      sessionId: claims.jti,
+      did,
+      audience,
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Stateless checks: signature, issuer, expiry and audience.
+ * Revocation needs the registry and is checked by the caller.
+ */
+export async function verifySessionToken(
+  token: string,
+  issuer: RegistryIdentity,
+  audience: string,
+  now: Date = new Date()
+): Promise<SessionTokenCheck> {
+  const decoded = decodeJwt(token);
+  if (!decoded) return { valid: false, error: 'Malformed token' };
+  if (decoded.header.kid !== issuer.keyId) return { valid: false, error: 'Unknown signing key' };
+  if (!(await verifyJwt(token, issuer.publicKey))) return { valid: false, error: 'Invalid signature' };
+
+  const claims = decoded.payload as SessionClaims;
+  if (claims.iss !== issuer.did) return { valid: false, error: 'Not issued by this registry' };
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now.getTime()) {
+    return { valid: false, error: 'Token expired' };
+  }
+  if (claims.aud !== audience) return { valid: false, error: 'Audience mismatch' };
+
+  return { valid: true, claims };
+}
@@ -0,0 +1,92 @@
+import { gunzipSync, gzipSync } from 'zlib';
+import { CREDENTIALS_CONTEXT, type VerifiableCredential } from './credentials.js';
+import type { RegistryIdentity } from './issuer.js';
+import type { StatusPurpose } from './types.js';
+
+// ============================================
+// Status Lists (W3C Bitstring Status List v1.0)
+// ============================================
+
+// Lists never shrink below 16KB uncompressed, so a list's length says little about the registry
+export const STATUS_LIST_MIN_BITS = 131072;
+
+export interface BitstringStatusListEntry {
+  id: string;
+  type: 'BitstringStatusListEntry';
+  statusPurpose: StatusPurpose;
+  statusListIndex: string;
+  statusListCredential: string;
+}
+
+/**
+ * GZIP-compressed, base64url-encoded bitstring with the given bits set.
+ * Bit 0 is the most significant bit of the first byte.
+ */
+export function encodeStatusList(indices: number[], minBits = STATUS_LIST_MIN_BITS): string {
+  // Not Math.max(...indices): spreading a large revocation list overflows the call stack
+  const maxIndex = indices.reduce((max, index) => Math.max(max, index), 0);
+  let bits = minBits;
+  while (bits <= maxIndex) bits *= 2;
+
+  const bitstring = new Uint8Array(bits / 8);
+  for (const index of indices) {
+    bitstring[index >> 3] |= 0x80 >> (index & 7);
+  }
+  return 'u' + gzipSync(bitstring).toString('base64url');
+}
+
+export function decodeStatusList(encodedList: string): Uint8Array {
+  const base64 = encodedList.startsWith('u') ? encodedList.slice(1) : encodedList;
+  return new Uint8Array(gunzipSync(Buffer.from(base64, 'base64url')));
+}
+
+/**
+ * Whether a decoded list has the bit at `index` set (for verifiers)
+ */
+export function isStatusSet(bitstring: Uint8Array, index: number): boolean {
+  if (index < 0 || index >= bitstring.length * 8) return false;
+  return (bitstring[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+/**
+ * Unsigned status list credential; `version` lets caches ask for changes since this list
+ */
+export function buildStatusListCredential(
+  listUrl: string,
+  purpose: StatusPurpose,
+  encodedList: string,
+  version: number,
+  issuer: RegistryIdentity,
+  ttlSeconds: number
+): VerifiableCredential {
+  const validFrom = new Date();
+  return {
+    '@context': [CREDENTIALS_CONTEXT],
+    id: listUrl,
+    type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+    issuer: issuer.did,
+    validFrom: validFrom.toISOString(),
+    validUntil: new Date(validFrom.getTime() + ttlSeconds * 1000).toISOString(),
+    credentialSubject: {
+      id: `${listUrl}#list`,
+      type: 'BitstringStatusList',
+      statusPurpose: purpose,
+      encodedList,
+      ttl: ttlSeconds * 1000,
+      version,
+    },
+  };
+}
+
+/**
+ * credentialStatus entries pointing a soul's credentials at its bit in each list
+ */
+export function statusListEntries(listsUrl: string, index: number): BitstringStatusListEntry[] {
+  return (['revocation', 'suspension'] as const).map(purpose => ({
+    id: `${listsUrl}/${purpose}#${index}`,
+    type: 'BitstringStatusListEntry',
+    statusPurpose: purpose,
+    statusListIndex: String(index),
+    statusListCredential: `${listsUrl}/${purpose}`,
+  }));
+}
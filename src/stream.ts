@@ -0,0 +1,57 @@
+import type { RegistryDB } from './db.js';
+import type { SoulEvent, SoulEventType } from './types.js';
+
+// ============================================
+// Live Event Stream
+// ============================================
+
+export interface EventStreamFilter {
+  dids?: string[];
+  operators?: string[];
+  types?: SoulEventType[];
+}
+
+const CATCH_UP_PAGE_SIZE = 500;
+
+/**
+ * Send every matching event after `after` and then each new one as it is recorded.
+ * Without a cursor the stream starts at the current end of the history.
+ * Returns a function that stops the stream.
+ */
+export function followSoulEvents(
+  db: RegistryDB,
+  filter: EventStreamFilter,
+  after: number | undefined,
+  send: (event: SoulEvent) => void
+): () => void {
+  let cursor = after ?? db.getLatestEventSequence();
+
+  // Catch-up and subscription happen in the same tick, so no event can fall between them
+  if (after !== undefined) {
+    let page: SoulEvent[];
+    do {
+      page = db.getEventsAfter(cursor, filter, CATCH_UP_PAGE_SIZE);
+      for (const event of page) {
+        send(event);
+        cursor = event.sequence;
+      }
+    } while (page.length === CATCH_UP_PAGE_SIZE);
+  }
+
+  return db.onSoulEvent(event => {
+    if (event.sequence <= cursor || !matchesFilter(db, event, filter)) return;
+    cursor = event.sequence;
+    send(event);
+  });
+}
+
+function matchesFilter(db: RegistryDB, event: SoulEvent, filter: EventStreamFilter): boolean {
+  if (filter.dids?.length && !filter.dids.includes(event.did)) return false;
+  if (filter.types?.length && !filter.types.includes(event.type)) return false;
+  if (filter.operators?.length) {
+    const soul = db.getSoulByDid(event.did);
+    const operator = (soul?.currentOperator ?? soul?.birth.operator)?.toLowerCase();
+    if (!operator || !filter.operators.some(o => o.toLowerCase() === operator)) return false;
+  }
+  return true;
+}
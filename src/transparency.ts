@@ -0,0 +1,295 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { canonicalize, hashSoulDocument, signMessage, verifySignature } from './crypto.js';
+import type { RegistryIdentity } from './issuer.js';
+import type { SoulEvent, SoulSnapshot } from './types.js';
+
+// ============================================
+// Transparency Log (RFC 6962 Merkle tree)
+// ============================================
+
+export const LOG_ENTRY_PROTOCOL = 'soul-protocol/log-entry/v1';
+export const TREE_HEAD_PROTOCOL = 'soul-protocol/tree-head/v1';
+
+// One log leaf per soul event; stateHash commits to the full soul after the event
+export interface LogEntry extends SoulEvent {
+  protocol: typeof LOG_ENTRY_PROTOCOL;
+  stateHash: string;
+}
+
+export interface TreeHead {
+  protocol: typeof TREE_HEAD_PROTOCOL;
+  treeSize: number;
+  rootHash: string;
+  timestamp: string;
+}
+
+// The registry signs canonicalize(TreeHead)
+export interface SignedTreeHead extends TreeHead {
+  keyId: string;
+  signature: string;
+}
+
+// Hashes of every complete subtree, kept as leaves are appended:
+// levels[h][i] is the root of leaves [i * 2^h, (i + 1) * 2^h)
+export interface MerkleTree {
+  levels: Uint8Array[][];
+}
+
+/**
+ * Hash of a soul state as committed to by log entries
+ */
+export function hashSoulState(state: SoulSnapshot): string {
+  return hashSoulDocument(state);
+}
+
+/**
+ * The exact string hashed into the log for an event
+ */
+export function encodeLogEntry(event: SoulEvent, state: SoulSnapshot): string {
+  const entry: LogEntry = {
+    protocol: LOG_ENTRY_PROTOCOL,
+    ...event,
+    stateHash: hashSoulState(state),
+  };
+  return canonicalize(entry);
+}
+
+/**
+ * Leaf hash: SHA-256(0x00 || entry)
+ */
+export function hashLeaf(entry: string): string {
+  const bytes = new TextEncoder().encode(entry);
+  return toHex(sha256(concat(new Uint8Array([0x00]), bytes)));
+}
+
+export function createMerkleTree(leafHashes: string[] = []): MerkleTree {
+  const tree: MerkleTree = { levels: [[]] };
+  for (const leafHash of leafHashes) appendLeaf(tree, leafHash);
+  return tree;
+}
+
+/**
+ * Append a leaf hash (hex), hashing each subtree it completes
+ */
+export function appendLeaf(tree: MerkleTree, leafHash: string): void {
+  tree.levels[0].push(fromHex(leafHash));
+  for (let h = 0; tree.levels[h].length % 2 === 0; h++) {
+    const level = tree.levels[h];
+    (tree.levels[h + 1] ??= []).push(hashChildren(level[level.length - 2], level[level.length - 1]));
+  }
+}
+
+export function treeSize(tree: MerkleTree): number {
+  return tree.levels[0].length;
+}
+
+/**
+ * Merkle Tree Hash of the first `size` leaves of the tree
+ */
+export function treeRoot(tree: MerkleTree, size = treeSize(tree)): string {
+  return toHex(subtreeRoot(tree, 0, size));
+}
+
+/**
+ * Audit path proving the leaf at `index` is in the tree of the first `size` leaves
+ */
+export function treeInclusionProof(tree: MerkleTree, index: number, size = treeSize(tree)): string[] {
+  return path(tree, index, 0, size).map(toHex);
+}
+
+/**
+ * Proof that the tree of the first `first` leaves is a prefix of the tree of the first `second`
+ */
+export function treeConsistencyProof(tree: MerkleTree, first: number, second = treeSize(tree)): string[] {
+  if (first === 0 || first === second) return [];
+  return subproof(tree, first, 0, second, true).map(toHex);
+}
+
+/**
+ * Merkle Tree Hash of a list of leaf hashes (hex)
+ */
+export function merkleRoot(leafHashes: string[]): string {
+  return treeRoot(createMerkleTree(leafHashes));
+}
+
+/**
+ * Audit path proving the leaf at `index` is in the tree of the given leaves
+ */
+export function inclusionProof(index: number, leafHashes: string[]): string[] {
+  return treeInclusionProof(createMerkleTree(leafHashes), index);
+}
+
+/**
+ * Proof that the tree of the first `size` leaves is a prefix of the tree of all leaves
+ */
+export function consistencyProof(size: number, leafHashes: string[]): string[] {
+  return treeConsistencyProof(createMerkleTree(leafHashes), size);
+}
+
+/**
+ * Check an audit path (RFC 9162 §2.1.3.2)
+ */
+export function verifyInclusion(
+  leafHash: string,
+  index: number,
+  treeSize: number,
+  proof: string[],
+  rootHash: string
+): boolean {
+  if (index >= treeSize) return false;
+
+  let fn = index;
+  let sn = treeSize - 1;
+  let r = fromHex(leafHash);
+  for (const p of proof.map(fromHex)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      r = hashChildren(p, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = hashChildren(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return sn === 0 && toHex(r) === rootHash.toLowerCase();
+}
+
+/**
+ * Check a consistency proof between two tree heads (RFC 9162 §2.1.4.2)
+ */
+export function verifyConsistency(
+  firstSize: number,
+  secondSize: number,
+  firstRoot: string,
+  secondRoot: string,
+  proof: string[]
+): boolean {
+  if (firstSize > secondSize) return false;
+  if (firstSize === secondSize) {
+    return proof.length === 0 && firstRoot.toLowerCase() === secondRoot.toLowerCase();
+  }
+  if (firstSize === 0) return proof.length === 0;
+  if (proof.length === 0) return false;
+
+  const nodes = proof.map(fromHex);
+  if (isPowerOfTwo(firstSize)) nodes.unshift(fromHex(firstRoot));
+
+  let fn = firstSize - 1;
+  let sn = secondSize - 1;
+  while (fn % 2 === 1) {
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  let fr = nodes[0];
+  let sr = nodes[0];
+  for (const c of nodes.slice(1)) {
+    if (sn === 0) return false;
+    if (fn % 2 === 1 || fn === sn) {
+      fr = hashChildren(c, fr);
+      sr = hashChildren(c, sr);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      sr = hashChildren(sr, c);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+
+  return toHex(fr) === firstRoot.toLowerCase() && toHex(sr) === secondRoot.toLowerCase() && sn === 0;
+}
+
+/**
+ * Sign the current tree head with the registry key
+ */
+export async function signTreeHead(
+  issuer: RegistryIdentity,
+  treeSize: number,
+  rootHash: string
+): Promise<SignedTreeHead> {
+  const head: TreeHead = {
+    protocol: TREE_HEAD_PROTOCOL,
+    treeSize,
+    rootHash,
+    timestamp: new Date().toISOString(),
+  };
+  return {
+    ...head,
+    keyId: issuer.keyId,
+    signature: await signMessage(canonicalize(head), issuer.privateKey),
+  };
+}
+
+export async function verifyTreeHead(head: SignedTreeHead, publicKey: string): Promise<boolean> {
+  const { keyId: _keyId, signature, ...unsigned } = head;
+  return verifySignature(canonicalize(unsigned), signature, publicKey);
+}
+
+// MTH(D[start:start+n]) - the empty tree hashes to SHA-256 of the empty string.
+// Complete subtrees come from the cache, so this touches O(log n) nodes.
+function subtreeRoot(tree: MerkleTree, start: number, n: number): Uint8Array {
+  if (n === 0) return sha256(new Uint8Array());
+  if (isPowerOfTwo(n) && start % n === 0) return tree.levels[Math.log2(n)][start / n];
+  const k = splitPoint(n);
+  return hashChildren(subtreeRoot(tree, start, k), subtreeRoot(tree, start + k, n - k));
+}
+
+// PATH(m, D[start:start+n])
+function path(tree: MerkleTree, m: number, start: number, n: number): Uint8Array[] {
+  if (n <= 1) return [];
+  const k = splitPoint(n);
+  return m < k
+    ? [...path(tree, m, start, k), subtreeRoot(tree, start + k, n - k)]
+    : [...path(tree, m - k, start + k, n - k), subtreeRoot(tree, start, k)];
+}
+
+// SUBPROOF(m, D[start:start+n], b)
+function subproof(tree: MerkleTree, m: number, start: number, n: number, complete: boolean): Uint8Array[] {
+  if (m === n) return complete ? [] : [subtreeRoot(tree, start, n)];
+  const k = splitPoint(n);
+  return m <= k
+    ? [...subproof(tree, m, start, k, complete), subtreeRoot(tree, start + k, n - k)]
+    : [...subproof(tree, m - k, start + k, n - k, false), subtreeRoot(tree, start, k)];
+}
+
+// Largest power of two smaller than n
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+// Interior node: SHA-256(0x01 || left || right)
+function hashChildren(left: Uint8Array, right: Uint8Array): Uint8Array {
+  return sha256(concat(new Uint8Array([0x01]), left, right));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(Buffer.from(hex, 'hex'));
+}
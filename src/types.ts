@@ -1,27 +1,43 @@
 import { z } from 'zod';
+import type { VerifiableCredential } from './credentials.js';
 
 // ============================================
 // Soul Protocol Registry Types
 // ============================================
 
 // DID format: did:soul:name
-export const DidSchema = z.string().regex(/^did:soul:[a-z0-9_-]+$/i);
+// Names may be namespaced under a parent soul, up to four levels (v22): "acme:support-bot"
+const SOUL_NAME_PATTERN = '[a-z0-9_-]+(?::[a-z0-9_-]+){0,3}';
+export const DidSchema = z.string().regex(new RegExp(`^did:soul:${SOUL_NAME_PATTERN}$`, 'i'));
 export type Did = z.infer<typeof DidSchema>;
 
-// Soul status
-export const SoulStatusSchema = z.enum(['active', 'suspended', 'revoked']);
+// Soul status (v17: "deactivated" is a voluntary, reversible retirement; "revoked" is terminal)
+export const SoulStatusSchema = z.enum(['active', 'suspended', 'deactivated', 'revoked']);
 export type SoulStatus = z.infer<typeof SoulStatusSchema>;
 
+// Parties that may change a soul's status (v17 - lifecycle rules)
+export const LifecycleAuthoritySchema = z.enum(['soul', 'operator', 'parent', 'admin']);
+export type LifecycleAuthority = z.infer<typeof LifecycleAuthoritySchema>;
+
 // Birth certificate (immutable)
 export const BirthCertificateSchema = z.object({
   timestamp: z.string().datetime(),
   operator: z.string().min(1),
   baseModel: z.string().optional(),
   platform: z.string().optional(),
-  charterHash: z.string().optional(),
+  charterHash: z.string().optional(),   // v27: hashCharter() of a charter the registry holds
 });
 export type BirthCertificate = z.infer<typeof BirthCertificateSchema>;
 
+// Charter document, stored under its hash (v27)
+export const CHARTER_MAX_LENGTH = 64 * 1024;
+export const CharterMediaTypeSchema = z.enum(['text/markdown', 'text/plain', 'application/json']);
+export const CharterUploadSchema = z.object({
+  content: z.string().min(1).max(CHARTER_MAX_LENGTH),
+  mediaType: CharterMediaTypeSchema.default('text/markdown'),
+});
+export type CharterUpload = z.infer<typeof CharterUploadSchema>;
+
 // Contact/reachability information (v2 - from SixerDemon's feedback)
 export const ContactSchema = z.object({
   email: z.string().email().optional(),
@@ -34,12 +50,34 @@ export const ContactSchema = z.object({
 export type Contact = z.infer<typeof ContactSchema>;
 
 // Capability declaration (v3 - compliance/transparency)
+// Checked against the registry's capability vocabulary when declared (v26)
 export const CapabilitiesSchema = z.array(z.string().max(64)).max(50).optional();
 
+export const RiskLevelSchema = z.enum(['low', 'medium', 'high']);
+export type RiskLevel = z.infer<typeof RiskLevelSchema>;
+
+// Recovery material (v5 - key recovery)
+// Either a commitment to the next key, a guardian set with an m-of-n threshold, or both
+export const RecoveryConfigSchema = z.object({
+  nextKeyHash: z.string().regex(/^[0-9a-f]{64}$/i).optional(),  // hashPublicKey(nextPublicKey)
+  guardians: z.array(DidSchema).min(1).max(10).optional(),
+  threshold: z.number().int().min(1).optional(),
+  delaySeconds: z.number().int().min(0).optional(),             // Time lock before recovery completes
+}).refine(r => r.nextKeyHash || r.guardians, {
+  message: 'Recovery requires nextKeyHash or guardians',
+}).refine(r => !r.guardians || (r.threshold !== undefined && r.threshold <= r.guardians.length), {
+  message: 'threshold is required and must not exceed the number of guardians',
+  path: ['threshold'],
+}).refine(r => !r.guardians || new Set(r.guardians.map(g => g.toLowerCase())).size === r.guardians.length, {
+  message: 'Guardians must be distinct',
+  path: ['guardians'],
+});
+export type RecoveryConfig = z.infer<typeof RecoveryConfigSchema>;
+
 // Soul document (what gets registered)
 export const SoulDocumentSchema = z.object({
   did: DidSchema,
-  name: z.string().min(1).max(64).regex(/^[a-z0-9_-]+$/i),
+  name: z.string().min(1).max(64).regex(new RegExp(`^${SOUL_NAME_PATTERN}$`, 'i')),
   publicKey: z.string().min(1),
   birth: BirthCertificateSchema,
   avatar: z.string().optional(),
@@ -47,27 +85,91 @@ export const SoulDocumentSchema = z.object({
   website: z.string().url().optional(),
   contact: ContactSchema.optional(),      // v2: reachability info
   capabilities: CapabilitiesSchema,       // v3: what this agent can do
-  riskLevel: z.enum(['low', 'medium', 'high']).optional(),  // v3: self-declared risk
+  riskLevel: RiskLevelSchema.optional(),  // v3: self-declared risk
+  recovery: RecoveryConfigSchema.optional(),   // v5: key recovery material
 });
 export type SoulDocument = z.infer<typeof SoulDocumentSchema>;
 
+// Key history entry (v4 - key rotation)
+export type KeyChangeReason = 'registration' | 'rotation' | 'recovery' | 'transfer';
+
+export interface SoulKey {
+  publicKey: string;
+  validFrom: string;
+  validUntil?: string;      // Unset for the currently active key
+  reason: KeyChangeReason;
+}
+
 // Full soul record (includes registry metadata)
 export interface SoulRecord extends SoulDocument {
+  operatorAttested: boolean;   // v6: the current operator countersigned the soul document (or its transfer)
+  currentOperator?: string;    // v21: set once a transfer moved the soul away from birth.operator
   status: SoulStatus;
   statusReason?: string;
   statusChangedAt?: string;
+  statusChangedBy?: LifecycleAuthority;  // v17: unset for changes made before lifecycle rules (always the soul)
   registeredAt: string;
+  updatedAt?: string;
   lastVerifiedAt?: string;
   verificationCount: number;
+  provenance?: SoulProvenance; // v13: set for souls replicated from a peer registry
   _registryId: number;
   _version: number;
 }
 
+// Signed mutation envelope (v10 - payload-covering signatures)
+// The soul signs canonicalize(MutationEnvelope); payloadHash = hashSoulDocument(request body without "auth")
+export const MUTATION_PROTOCOL = 'soul-protocol/mutation/v1';
+
+export type MutationAction =
+  | 'contact.update'
+  | 'capabilities.update'
+  | 'status.suspend'
+  | 'status.revoke'
+  | 'status.reactivate'
+  | 'status.deactivate'
+  | 'key.rotate'
+  | 'recovery.update'
+  | 'recovery.veto'
+  | 'transfer.offer'
+  | 'transfer.accept'
+  | 'transfer.cancel'
+  | 'child.create'
+  | 'delegation.create'
+  | 'delegation.revoke'
+  | 'profile.update'
+  | 'capability.propose'
+  | 'charter.amend'
+  | 'webhook.subscribe';
+
+export interface MutationEnvelope {
+  protocol: typeof MUTATION_PROTOCOL;
+  action: MutationAction;
+  did: string;
+  target: string | null;           // Sub-resource named in the URL (e.g. a recovery request ID)
+  payloadHash: string;
+  timestamp: string;
+  nonce: string;
+  expectedVersion: number;
+}
+
+export const MutationAuthSchema = z.object({
+  timestamp: z.string().datetime(),
+  nonce: z.string().min(16).max(128),
+  expectedVersion: z.number().int().min(1),  // The soul's `version` the mutation was made against; 409 if it changed
+  signer: z.enum(['soul', 'operator', 'parent']).optional(),   // Status changes only: whose key signed (default soul)
+  delegation: z.string().min(1).optional(),  // v23: set when a delegate key of the soul signed instead of the soul key
+  signature: z.string().min(1),
+});
+export type MutationAuth = z.infer<typeof MutationAuthSchema>;
+
 // Registration request
 export const RegisterRequestSchema = z.object({
   soulDocument: SoulDocumentSchema,
   signature: z.string().min(1),
-  operatorProof: z.string().optional(),
+  operatorProof: z.string().optional(),  // Operator's signature over hashSoulDocument(soulDocument)
+  parentAuth: MutationAuthSchema.optional(),  // v22: namespaced souls only; the parent signs child.create over { soulDocument }
+  charter: CharterUploadSchema.optional(),    // v27: the charter behind birth.charterHash, if the registry lacks it
 });
 export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
 
@@ -77,8 +179,53 @@ export interface RegisterResponse {
   did: string;
   registeredAt: string;
   registryUrl: string;
+  operatorAttested: boolean;
+}
+
+// Operator identity (v6 - attested operators)
+export const OperatorDocumentSchema = z.object({
+  name: z.string().min(1).max(128),
+  publicKey: z.string().min(1),
+  contact: ContactSchema.optional(),
+  website: z.string().url().optional(),
+});
+export type OperatorDocument = z.infer<typeof OperatorDocumentSchema>;
+
+export interface OperatorRecord extends OperatorDocument {
+  registeredAt: string;
+}
+
+// Operator registration request
+export const OperatorRegisterRequestSchema = z.object({
+  operator: OperatorDocumentSchema,
+  signature: z.string().min(1),  // Sign: hashSoulDocument(operator)
+});
+export type OperatorRegisterRequest = z.infer<typeof OperatorRegisterRequestSchema>;
+
+// Challenge payload the agent signs (v9 - domain-separated challenges)
+export const CHALLENGE_PROTOCOL = 'soul-protocol/challenge/v1';
+
+export interface ChallengePayload {
+  protocol: typeof CHALLENGE_PROTOCOL;
+  audience: string;        // Relying party the proof is meant for
+  purpose: string;
+  did: string;
+  nonce: string;
+  issuedAt: string;
+  expiresAt: string;
 }
 
+// Challenge request (v9)
+export const ChallengeRequestSchema = z.object({
+  audience: z.string().min(1).max(256).optional(),
+  purpose: z.string().min(1).max(64).default('authentication'),
+  legacy: z.boolean().default(false),  // Bare-nonce challenge for pre-v9 clients
+}).refine(r => r.legacy || r.audience, {
+  message: 'audience is required unless legacy is set',
+  path: ['audience'],
+});
+export type ChallengeRequest = z.infer<typeof ChallengeRequestSchema>;
+
 // Challenge (for verification)
 export interface Challenge {
   challengeId: string;
@@ -87,12 +234,18 @@ export interface Challenge {
   issuedAt: string;
   expiresAt: string;
   status: 'pending' | 'completed' | 'expired';
+  audience?: string;
+  purpose?: string;
+  payload?: string;        // Canonical encoding of ChallengePayload; unset for legacy challenges
+  legacy: boolean;
 }
 
 // Verification request
 export const VerifyRequestSchema = z.object({
   challengeId: z.string().min(1),
   signature: z.string().min(1),
+  audience: z.string().min(1).max(256).optional(),  // v8: session token audience; v9: must match the challenge
+  delegation: z.string().min(1).optional(),         // v23: a delegate key with challenge-response scope signed
 });
 export type VerifyRequest = z.infer<typeof VerifyRequestSchema>;
 
@@ -101,52 +254,808 @@ export interface VerifyResponse {
   verified: boolean;
   did: string;
   verifiedAt: string;
+  credential?: VerifiableCredential;   // v7: registry-signed proof of this verification
+  credentialJwt?: string;
+  sessionToken?: string;               // v8: audience-bound token, only when an audience was requested
+  sessionExpiresAt?: string;
+  signedBy?: MutationSigner;           // v23: which key answered the challenge
+}
+
+// Session token introspection (v8)
+export const SessionIntrospectSchema = z.object({
+  token: z.string().min(1),
+  audience: z.string().min(1).max(256),  // The introspecting service; a token for another audience is inactive
+});
+export type SessionIntrospect = z.infer<typeof SessionIntrospectSchema>;
+
+// Session issued to a relying party after challenge-response (v8)
+export interface Session {
+  sessionId: string;      // JWT "jti"
+  did: string;
+  audience: string;
+  issuedAt: string;
+  expiresAt: string;
+  revokedAt?: string;
 }
 
+// Shape a presented credential must have before its proof is checked; unknown fields are kept, the proof covers them
+export const VerifiableCredentialSchema = z.object({
+  '@context': z.array(z.string()),
+  id: z.string(),
+  type: z.array(z.string()),
+  issuer: z.string(),
+  validFrom: z.string(),
+  validUntil: z.string().optional(),
+  credentialSubject: z.object({ id: z.string() }).passthrough(),
+  credentialStatus: z.array(z.record(z.unknown())).optional(),
+  proof: z.object({
+    type: z.string(),
+    cryptosuite: z.string(),
+    verificationMethod: z.string(),
+    proofValue: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+// Credential verification request (v7)
+export const CredentialVerifyRequestSchema = z.object({
+  credential: z.union([z.string().min(1), z.record(z.unknown())]),  // JWT or JSON credential
+});
+export type CredentialVerifyRequest = z.infer<typeof CredentialVerifyRequestSchema>;
+
 // Search parameters
+// Result orders (v25); relevance needs `q` and is the default when it is given, newest otherwise
+export const SearchSortSchema = z.enum(['relevance', 'newest', 'oldest', 'name', 'most-verified', 'recently-verified']);
+export type SearchSort = z.infer<typeof SearchSortSchema>;
+
+const commaList = z.string().transform(v => v.split(',').map(item => item.trim()).filter(Boolean));
+
 export const SearchParamsSchema = z.object({
+  q: z.string().max(200).optional(),      // Full text over name, description and capabilities
   name: z.string().optional(),
   operator: z.string().optional(),
   status: SoulStatusSchema.optional(),
+  namespace: z.string().optional(),  // Every soul under this name or DID, at any depth
+  attested: z.enum(['true', 'false']).transform(v => v === 'true').optional(),  // Only operator-attested souls
+  riskLevel: RiskLevelSchema.optional(),
+  capability: commaList.optional(),       // Comma-separated capabilities
+  capabilityMatch: z.enum(['any', 'all']).default('all'),
+  platform: z.string().optional(),
+  baseModel: z.string().optional(),
+  verifiedWithinDays: z.coerce.number().int().min(1).max(3650).optional(),
+  minVerifications: z.coerce.number().int().min(0).optional(),
   registeredAfter: z.string().datetime().optional(),
   registeredBefore: z.string().datetime().optional(),
+  sort: SearchSortSchema.optional(),
+  cursor: z.string().optional(),          // nextCursor of the previous page; replaces offset
   limit: z.coerce.number().int().min(1).max(100).default(20),
   offset: z.coerce.number().int().min(0).default(0),
+}).refine(p => p.sort !== 'relevance' || !!p.q, {
+  message: 'Sorting by relevance needs a q',
+  path: ['sort'],
 });
 export type SearchParams = z.infer<typeof SearchParamsSchema>;
 
+// Counts of matching souls per value, across the whole result set
+export interface SearchFacets {
+  status: Record<string, number>;
+  riskLevel: Record<string, number>;
+  platform: Record<string, number>;
+  baseModel: Record<string, number>;
+  capabilities: Record<string, number>;   // The 20 most common
+}
+
 // Search response
 export interface SearchResponse {
   results: SoulRecord[];
   total: number;
   limit: number;
   offset: number;
+  sort: SearchSort;
+  nextCursor: string | null;
+  facets: SearchFacets;
 }
 
+// Mutations carry either an envelope or, during the deprecation window, a legacy signature
+const hasMutationAuth = (r: { auth?: unknown; signature?: string }) => !!r.auth || !!r.signature;
+const MISSING_AUTH = { message: 'auth envelope is required', path: ['auth'] };
+
 // Status update request
 export const StatusUpdateSchema = z.object({
   reason: z.string().min(1).max(500),
-  signature: z.string().min(1),
-});
+  cascade: z.boolean().optional(),          // Revocation only: also revoke every soul in this soul's namespace
+  auth: MutationAuthSchema.optional(),
+  signature: z.string().min(1).optional(),  // Deprecated: "{status}:{did}:{reason}"
+}).refine(hasMutationAuth, MISSING_AUTH);
 export type StatusUpdate = z.infer<typeof StatusUpdateSchema>;
 
+// Status update by a registry admin (v18), authorized by an admin request signature
+export const AdminStatusUpdateSchema = z.object({
+  reason: z.string().min(1).max(500),
+  cascade: z.boolean().optional(),
+});
+export type AdminStatusUpdate = z.infer<typeof AdminStatusUpdateSchema>;
+
 // Contact update request (v2)
 export const ContactUpdateSchema = z.object({
   contact: ContactSchema,
-  signature: z.string().min(1),  // Sign: "contact-update:{did}:{timestamp}"
-  timestamp: z.string().datetime(),
-});
+  auth: MutationAuthSchema.optional(),
+  signature: z.string().min(1).optional(),  // Deprecated: "contact-update:{did}:{timestamp}"
+  timestamp: z.string().datetime().optional(),
+}).refine(hasMutationAuth, MISSING_AUTH);
 export type ContactUpdate = z.infer<typeof ContactUpdateSchema>;
 
 // Capabilities update request (v3)
 export const CapabilitiesUpdateSchema = z.object({
   capabilities: z.array(z.string().max(64)).max(50),
-  riskLevel: z.enum(['low', 'medium', 'high']).optional(),
-  signature: z.string().min(1),  // Sign: "capabilities-update:{did}:{timestamp}"
-  timestamp: z.string().datetime(),
-});
+  riskLevel: RiskLevelSchema.optional(),
+  auth: MutationAuthSchema.optional(),
+  signature: z.string().min(1).optional(),  // Deprecated: "capabilities-update:{did}:{timestamp}"
+  timestamp: z.string().datetime().optional(),
+}).refine(hasMutationAuth, MISSING_AUTH);
 export type CapabilitiesUpdate = z.infer<typeof CapabilitiesUpdateSchema>;
 
+// Key rotation request (v4)
+export const KeyRotationSchema = z.object({
+  newPublicKey: z.string().min(1),
+  auth: MutationAuthSchema.optional(),      // Signed by the current key
+  signature: z.string().min(1).optional(),  // Deprecated: "key-rotate:{did}:{newPublicKey}:{timestamp}"
+  timestamp: z.string().datetime().optional(),
+}).refine(hasMutationAuth, MISSING_AUTH);
+export type KeyRotation = z.infer<typeof KeyRotationSchema>;
+
+// Recovery configuration update (v5)
+export const RecoveryUpdateSchema = z.object({
+  recovery: RecoveryConfigSchema,
+  auth: MutationAuthSchema.optional(),
+  signature: z.string().min(1).optional(),  // Deprecated: "recovery-update:{did}:{hashSoulDocument(recovery)}:{timestamp}"
+  timestamp: z.string().datetime().optional(),
+}).refine(hasMutationAuth, MISSING_AUTH);
+export type RecoveryUpdate = z.infer<typeof RecoveryUpdateSchema>;
+
+// Recovery initiation (v5)
+// Guardians (or, for a commitment, the new key itself) sign: "recovery:{did}:{newPublicKey}:{nonce}:{timestamp}"
+// The nonce is chosen by the initiator and accepted once, so approvals cannot start a second recovery
+export const RecoveryInitiateSchema = z.discriminatedUnion('method', [
+  z.object({
+    method: z.literal('guardians'),
+    newPublicKey: z.string().min(1),
+    nonce: z.string().min(16).max(128),
+    timestamp: z.string().datetime(),
+    approvals: z.array(z.object({
+      guardian: DidSchema,
+      signature: z.string().min(1),
+    })).min(1).max(10),
+  }),
+  z.object({
+    method: z.literal('commitment'),
+    newPublicKey: z.string().min(1),
+    nonce: z.string().min(16).max(128),
+    timestamp: z.string().datetime(),
+    signature: z.string().min(1),
+  }),
+]);
+export type RecoveryInitiate = z.infer<typeof RecoveryInitiateSchema>;
+
+// Recovery veto by the current key (v5)
+export const RecoveryVetoSchema = z.object({
+  auth: MutationAuthSchema.optional(),
+  signature: z.string().min(1).optional(),  // Deprecated: "recovery-veto:{did}:{requestId}:{timestamp}"
+  timestamp: z.string().datetime().optional(),
+}).refine(hasMutationAuth, MISSING_AUTH);
+export type RecoveryVeto = z.infer<typeof RecoveryVetoSchema>;
+
+// Pending or resolved recovery (v5)
+export interface RecoveryRequest {
+  requestId: string;
+  did: string;
+  newPublicKey: string;
+  method: 'guardians' | 'commitment';
+  approvals: { guardian: string; signature: string }[];
+  initiatedAt: string;
+  executableAt: string;
+  status: 'pending' | 'completed' | 'vetoed' | 'cancelled';   // cancelled: the soul changed hands
+  resolvedAt?: string;
+}
+
+// Name transfer (v21 - two-party handover to a new key)
+// The current key signs the offer (transfer.offer); the recipient key signs the acceptance (transfer.accept)
+export const TransferOfferSchema = z.object({
+  newPublicKey: z.string().min(1),
+  operator: z.string().min(1).max(128).optional(),   // New operator; unset keeps the current one
+  expiresInSeconds: z.number().int().min(60).max(30 * 24 * 60 * 60).optional(),
+  auth: MutationAuthSchema,
+});
+export type TransferOffer = z.infer<typeof TransferOfferSchema>;
+
+export const TransferAcceptSchema = z.object({
+  operatorProof: z.string().min(1).optional(),  // New operator's signature over "transfer:{did}:{transferId}:{newPublicKey}"
+  auth: MutationAuthSchema,
+});
+export type TransferAccept = z.infer<typeof TransferAcceptSchema>;
+
+export const TransferCancelSchema = z.object({
+  auth: MutationAuthSchema,                     // Signed by the current key
+});
+export type TransferCancel = z.infer<typeof TransferCancelSchema>;
+
+export type TransferStatus = 'pending' | 'completed' | 'cancelled' | 'expired';
+
+export interface SoulTransfer {
+  transferId: string;
+  did: string;
+  fromPublicKey: string;
+  toPublicKey: string;
+  operator?: string;
+  offeredAt: string;
+  expiresAt: string;
+  status: TransferStatus;
+  resolvedAt?: string;
+}
+
+// Soul change history (v11 - audit trail)
+export const SoulEventTypeSchema = z.enum([
+  'soul.registered',
+  'soul.snapshot',         // State when history tracking began for a pre-existing soul
+  'soul.verified',
+  'contact.updated',
+  'capabilities.updated',
+  'status.changed',
+  'key.rotated',
+  'recovery.updated',
+  'soul.transferred',
+  'profile.updated',
+  'soul.superseded',       // Taken over by an earlier registration of the same DID on a peer registry
+]);
+export type SoulEventType = z.infer<typeof SoulEventTypeSchema>;
+
+export interface SoulFieldChange {
+  before?: unknown;        // Omitted when the field was unset
+  after?: unknown;         // Omitted when the field was cleared
+}
+
+// Who made a change: the DID whose key authorized it, or "registry"
+export interface EventAttribution {
+  actor: string;
+  signature?: string;
+}
+
+// A soul as tracked by the history (registry bookkeeping fields excluded)
+export type SoulSnapshot = Omit<SoulRecord, '_registryId' | '_version' | 'updatedAt' | 'provenance'>;
+
+export interface SoulEvent extends EventAttribution {
+  sequence: number;        // Registry-wide, monotonically increasing
+  did: string;
+  type: SoulEventType;
+  changes: Record<string, SoulFieldChange>;
+  version: number;         // Soul version after the event
+  timestamp: string;
+}
+
+// History query parameters
+export const HistoryParamsSchema = z.object({
+  type: SoulEventTypeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type HistoryParams = z.infer<typeof HistoryParamsSchema>;
+
+// Transparency log queries (v12)
+export const LogEntriesParamsSchema = z.object({
+  start: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(100),
+});
+export type LogEntriesParams = z.infer<typeof LogEntriesParamsSchema>;
+
+// Inclusion proof for a leaf index, or for the latest leaf of a soul (version)
+export const InclusionParamsSchema = z.object({
+  leafIndex: z.coerce.number().int().min(0).optional(),
+  did: DidSchema.optional(),
+  version: z.coerce.number().int().min(1).optional(),
+  treeSize: z.coerce.number().int().min(1).optional(),          // Defaults to the current size
+}).refine(p => p.leafIndex !== undefined || p.did !== undefined, {
+  message: 'Either leafIndex or did is required',
+});
+export type InclusionParams = z.infer<typeof InclusionParamsSchema>;
+
+export const ConsistencyParamsSchema = z.object({
+  first: z.coerce.number().int().min(1),
+  second: z.coerce.number().int().min(1).optional(),            // Defaults to the current size
+});
+export type ConsistencyParams = z.infer<typeof ConsistencyParamsSchema>;
+
+// Federation (v13 - replicated registries)
+export const FEED_PROTOCOL = 'soul-protocol/feed/v1';
+
+// Where a replicated soul came from
+export interface SoulProvenance {
+  registry: string;        // Origin registry DID
+  url: string;             // Origin registry base URL
+  sequence: number;        // Last origin event applied
+  replicatedAt: string;
+}
+
+export interface FederationPeer {
+  url: string;
+  registryDid?: string;    // Pinned on first contact
+  publicKey?: string;      // Pinned feed signing key (hex)
+  lastSequence: number;
+  lastSyncedAt?: string;
+  lastError?: string;
+}
+
+// Name collision between a local record and a replicated one
+export interface FederationConflict {
+  did: string;
+  name: string;
+  peer: string;
+  winner: 'existing' | 'incoming';   // First registered, by the origin registry's signed registeredAt
+  existing: SoulSnapshot;
+  incoming: SoulSnapshot;
+  detectedAt: string;
+}
+
+// Peer responses are checked before anything in them is used
+export const FeedEventSchema = z.object({
+  sequence: z.number().int().min(1),
+  did: DidSchema,
+  type: SoulEventTypeSchema,
+  actor: z.string(),
+  signature: z.string().optional(),
+  changes: z.record(z.object({ before: z.unknown().optional(), after: z.unknown().optional() })),
+  version: z.number().int().min(1),
+  timestamp: z.string(),
+}).passthrough();
+
+// Unknown fields are kept: the batch signature covers them
+export const SignedFeedBatchSchema = z.object({
+  protocol: z.literal(FEED_PROTOCOL),
+  registry: z.string().min(1),
+  after: z.number().int().min(0),
+  nextAfter: z.number().int().min(0),
+  hasMore: z.boolean(),
+  events: z.array(FeedEventSchema),
+  timestamp: z.string(),
+  keyId: z.string(),
+  signature: z.string(),
+}).passthrough();
+
+export const PeerDidDocumentSchema = z.object({
+  id: z.string().min(1),
+  verificationMethod: z.array(z.object({ publicKeyMultibase: z.string().min(1) })).min(1),
+});
+
+// What is passed on from a peer's resolution of a soul; anything else it returns is dropped
+export const PeerSoulSchema = SoulDocumentSchema.extend({
+  status: SoulStatusSchema,
+  statusReason: z.string().optional(),
+  statusChangedAt: z.string().optional(),
+  registeredAt: z.string(),
+  version: z.number().int().min(1),
+});
+export type PeerSoul = z.infer<typeof PeerSoulSchema>;
+
+export const FeedParamsSchema = z.object({
+  after: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+export type FeedParams = z.infer<typeof FeedParamsSchema>;
+
+export const ConflictParamsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type ConflictParams = z.infer<typeof ConflictParamsSchema>;
+
+// Webhook subscriptions (v14 - lifecycle notifications)
+export const WEBHOOK_PROTOCOL = 'soul-protocol/webhook/v1';
+
+export const WebhookSubscribeSchema = z.object({
+  url: z.string().url().refine(url => /^https?:\/\//.test(url), 'Webhook URL must be http(s)'),
+  dids: z.array(DidSchema).min(1).max(100),
+  events: z.array(SoulEventTypeSchema).min(1),
+  subscriber: z.string().min(1),              // DID or name of the subscribing soul (relying parties use their own)
+  auth: MutationAuthSchema,                   // Signed by the subscriber over webhook.subscribe
+});
+export type WebhookSubscribe = z.infer<typeof WebhookSubscribeSchema>;
+
+export interface WebhookSubscription extends Omit<WebhookSubscribe, 'subscriber' | 'auth'> {
+  subscriptionId: string;
+  subscriber: string | null;      // DID; null for subscriptions made before they had to be signed
+  createdAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  subscriptionId: string;
+  eventSequence: number;
+  payload: string;                // JSON body, exactly as posted
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  createdAt: string;
+}
+
+// Body posted to subscribers
+export interface WebhookPayload {
+  protocol: typeof WEBHOOK_PROTOCOL;
+  deliveryId: string;
+  subscriptionId: string;
+  event: SoulEvent;
+}
+
+export const DeliveryParamsSchema = z.object({
+  status: z.enum(['pending', 'delivered', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type DeliveryParams = z.infer<typeof DeliveryParamsSchema>;
+
+// Live event stream (v15)
+// Comma-separated lists; the cursor comes from Last-Event-ID or `after`
+const csv = z.string().transform(v => v.split(',').map(item => item.trim()).filter(Boolean));
+
+export const EventStreamParamsSchema = z.object({
+  did: csv.pipe(z.array(DidSchema)).optional(),
+  operator: csv.optional(),
+  type: csv.pipe(z.array(SoulEventTypeSchema)).optional(),
+  after: z.coerce.number().int().min(0).optional(),
+});
+export type EventStreamParams = z.infer<typeof EventStreamParamsSchema>;
+
+// Status lists (v16 - offline revocation checks)
+// Each soul's bit sits at its registry row ID; changes are numbered by list version
+export const StatusPurposeSchema = z.enum(['revocation', 'suspension']);
+export type StatusPurpose = z.infer<typeof StatusPurposeSchema>;
+
+export interface StatusChange {
+  version: number;
+  index: number;
+  did: string;
+  status: SoulStatus;
+  changedAt: string;
+}
+
+export const StatusChangesParamsSchema = z.object({
+  since: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(1000).default(1000),
+});
+export type StatusChangesParams = z.infer<typeof StatusChangesParamsSchema>;
+
+// Registry administration (v18 - moderation by configured admin keys)
+// Admins sign canonicalize(AdminRequestEnvelope); payloadHash = hashSoulDocument(request body, {} when empty)
+export const ADMIN_PROTOCOL = 'soul-protocol/admin/v1';
+
+export interface AdminIdentity {
+  name: string;
+  publicKey: string;
+}
+
+export interface AdminRequestEnvelope {
+  protocol: typeof ADMIN_PROTOCOL;
+  admin: string;
+  method: string;
+  path: string;             // Path and query string as requested
+  payloadHash: string;
+  timestamp: string;
+  nonce: string;
+}
+
+export type AdminActionType =
+  | 'status.suspend'
+  | 'status.reactivate'
+  | 'status.revoke'
+  | 'name.freeze'
+  | 'name.unfreeze'
+  | 'name.approve'
+  | 'name.unapprove'
+  | 'capability.approve'
+  | 'capability.reject'
+  | 'moderation.note'
+  | 'moderation.resolve'
+  | 'report.update';
+
+export interface AdminAction {
+  id: number;
+  admin: string;
+  action: AdminActionType;
+  target: string;           // DID, name, moderation item ID or report ID
+  reason?: string;
+  createdAt: string;
+}
+
+export interface FrozenName {
+  name: string;
+  reason: string;
+  frozenBy: string;
+  frozenAt: string;
+}
+
+export interface ModerationItem {
+  id: string;
+  did: string;
+  kind: 'note';
+  body: string;
+  pending: boolean;         // Listed in the moderation queue until resolved
+  createdBy: string;
+  createdAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  resolution?: string;
+}
+
+export const NameFreezeSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+export type NameFreeze = z.infer<typeof NameFreezeSchema>;
+
+export const ModerationNoteSchema = z.object({
+  note: z.string().min(1).max(2000),
+  pending: z.boolean().default(false),
+});
+export type ModerationNote = z.infer<typeof ModerationNoteSchema>;
+
+export const ModerationResolveSchema = z.object({
+  resolution: z.string().min(1).max(2000),
+});
+export type ModerationResolve = z.infer<typeof ModerationResolveSchema>;
+
+export const ModerationParamsSchema = z.object({
+  did: DidSchema.optional(),
+  pending: z.enum(['true', 'false']).transform(v => v === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type ModerationParams = z.infer<typeof ModerationParamsSchema>;
+
+export const AdminActionsParamsSchema = z.object({
+  admin: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type AdminActionsParams = z.infer<typeof AdminActionsParamsSchema>;
+
+// Abuse reports (v19 - public reporting)
+export const ReportCategorySchema = z.enum(['impersonation', 'spam', 'fraud', 'malware', 'harassment', 'other']);
+export type ReportCategory = z.infer<typeof ReportCategorySchema>;
+
+export const ReportStatusSchema = z.enum(['open', 'triaged', 'actioned', 'dismissed']);
+export type ReportStatus = z.infer<typeof ReportStatusSchema>;
+
+// Verified souls report with a session token; anonymous reporters attach a solved proof-of-work
+export const ReportRequestSchema = z.object({
+  category: ReportCategorySchema,
+  description: z.string().min(1).max(2000),
+  evidence: z.array(z.string().url()).max(10).default([]),
+  impersonates: DidSchema.optional(),   // For impersonation: the soul being imitated
+  proofOfWork: z.object({
+    challenge: z.string().min(1).max(1024),
+    solution: z.string().min(1).max(128),
+  }).optional(),
+});
+export type ReportRequest = z.infer<typeof ReportRequestSchema>;
+
+export interface AbuseReport {
+  reportId: string;
+  did: string;
+  category: ReportCategory;
+  description: string;
+  evidence: string[];
+  impersonates?: string;
+  reporterDid?: string;       // Unset for anonymous reports
+  status: ReportStatus;
+  createdAt: string;
+  updatedAt: string;
+  handledBy?: string;         // Admin who last changed the status
+  note?: string;
+}
+
+// Shown on the soul's record: unresolved = open or triaged
+export interface ReportSummary {
+  unresolved: number;
+  actioned: number;
+  byCategory: Partial<Record<ReportCategory, number>>;   // Unresolved reports per category
+}
+
+export const ReportUpdateSchema = z.object({
+  status: ReportStatusSchema.exclude(['open']),
+  note: z.string().min(1).max(2000).optional(),
+});
+export type ReportUpdate = z.infer<typeof ReportUpdateSchema>;
+
+export const ReportParamsSchema = z.object({
+  did: DidSchema.optional(),
+  status: ReportStatusSchema.optional(),
+  category: ReportCategorySchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+export type ReportParams = z.infer<typeof ReportParamsSchema>;
+
+// Name policy (v20 - confusable and near-duplicate names)
+// An admin approval lets one key register a name the policy would otherwise reject; used up on registration
+export interface NameApproval {
+  name: string;
+  publicKey: string;
+  reason: string;
+  approvedBy: string;
+  approvedAt: string;
+}
+
+export const NameApprovalSchema = z.object({
+  publicKey: z.string().min(1),
+  reason: z.string().min(1).max(500),
+});
+export type NameApprovalRequest = z.infer<typeof NameApprovalSchema>;
+
+// Delegate keys (v23 - scoped keys for sub-processes)
+// Key-control actions (rotation, recovery, transfer, revocation, delegation) always need the soul key
+export const DelegationScopeSchema = z.enum([
+  'challenge-response',
+  'contact.update',
+  'capabilities.update',
+  'profile.update',
+  'status.suspend',
+  'status.reactivate',
+  'child.create',
+]);
+export type DelegationScope = z.infer<typeof DelegationScopeSchema>;
+
+export const DelegationCreateSchema = z.object({
+  publicKey: z.string().min(1),
+  scopes: z.array(DelegationScopeSchema).min(1),
+  expiresAt: z.string().datetime(),
+  label: z.string().min(1).max(100).optional(),
+  auth: MutationAuthSchema,                     // Signed by the soul key
+});
+export type DelegationCreate = z.infer<typeof DelegationCreateSchema>;
+
+export const DelegationRevokeSchema = z.object({
+  auth: MutationAuthSchema,                     // Signed by the soul key or the delegate itself
+});
+export type DelegationRevoke = z.infer<typeof DelegationRevokeSchema>;
+
+export interface Delegation {
+  delegationId: string;
+  did: string;
+  publicKey: string;
+  scopes: DelegationScope[];
+  label?: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+// The key behind an accepted signature
+export interface MutationSigner {
+  key: 'soul' | 'delegate';
+  publicKey: string;
+  delegationId?: string;
+}
+
+// Profile updates (v24 - signed partial updates with optimistic concurrency)
+// Fields a soul may change after registration; null clears a field
+export type SoulFieldUpdate = {
+  [K in 'avatar' | 'description' | 'website' | 'contact' | 'capabilities' | 'riskLevel' | 'recovery']?: SoulDocument[K] | null;
+};
+
+// Never changed by a profile update: keys move by rotation or transfer, and birth is a certificate
+export const IMMUTABLE_SOUL_FIELDS = ['did', 'name', 'publicKey', 'birth'] as const;
+
+const profile = SoulDocumentSchema.shape;
+export const ProfileUpdateSchema = z.object({
+  avatar: profile.avatar.unwrap().nullable().optional(),
+  description: profile.description.unwrap().nullable().optional(),
+  website: profile.website.unwrap().nullable().optional(),
+  contact: profile.contact.unwrap().nullable().optional(),
+  capabilities: profile.capabilities.unwrap().nullable().optional(),
+  riskLevel: profile.riskLevel.unwrap().nullable().optional(),
+  auth: MutationAuthSchema,
+}).strict().refine(r => Object.keys(r).some(key => key !== 'auth'), {
+  message: 'At least one field must be updated',
+});
+export type ProfileUpdate = z.infer<typeof ProfileUpdateSchema>;
+
+// Capability vocabulary (v26 - shared, hierarchical capability identifiers)
+// Dot-separated lowercase segments, each refining the one before: "comm.email.send"
+export const CAPABILITY_ID_PATTERN = /^[a-z][a-z0-9-]*(\.[a-z][a-z0-9-]*){0,3}$/;
+
+export const CapabilityStatusSchema = z.enum(['approved', 'proposed', 'rejected']);
+export type CapabilityStatus = z.infer<typeof CapabilityStatusSchema>;
+
+// strict: only approved capabilities; permissive: also custom "x-" capabilities
+export type CapabilityMode = 'strict' | 'permissive';
+
+export interface CapabilityDefinition {
+  id: string;
+  parent: string | null;
+  description: string;
+  riskWeight: number;           // 0 (harmless) to 10
+  status: CapabilityStatus;
+  proposedBy: string | null;    // Proposing soul's DID, or admin name; null for the built-in vocabulary
+  rationale?: string;
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewReason?: string;
+}
+
+export const CapabilityParamsSchema = z.object({
+  status: CapabilityStatusSchema.default('approved'),
+  parent: z.string().optional(),    // Only the direct children of this capability
+});
+
+// Proposed by a registered soul, signed with action capability.propose and the capability ID as target
+export const CapabilityProposalSchema = z.object({
+  id: z.string().regex(CAPABILITY_ID_PATTERN),
+  description: z.string().min(1).max(500),
+  riskWeight: z.number().int().min(0).max(10),
+  rationale: z.string().max(1000).optional(),
+  proposer: z.string().min(1),      // DID or name
+  auth: MutationAuthSchema,
+});
+export type CapabilityProposal = z.infer<typeof CapabilityProposalSchema>;
+
+// Admin approval of a proposal (optionally adjusting it), or a new definition
+export const CapabilityReviewSchema = z.object({
+  description: z.string().min(1).max(500).optional(),
+  riskWeight: z.number().int().min(0).max(10).optional(),
+  reason: z.string().min(1).max(500),
+});
+export type CapabilityReview = z.infer<typeof CapabilityReviewSchema>;
+
+// Risk implied by a soul's capabilities, next to its self-declared riskLevel
+export interface RiskAssessment {
+  declared: RiskLevel | null;
+  computed: RiskLevel;
+  understated: boolean;         // Declared lower than its capabilities suggest
+  unrecognized: string[];       // Custom or unknown capabilities, counted as medium
+}
+
+// Charters (v27 - content-addressed governing documents)
+export const CHARTER_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface Charter {
+  hash: string;                 // hashCharter(content)
+  mediaType: z.infer<typeof CharterMediaTypeSchema>;
+  size: number;                 // Bytes of UTF-8 content
+  content: string;
+  createdAt: string;
+}
+
+// A soul's charter history: its verified birth charter (sequence 0), then signed amendments
+export interface CharterEntry {
+  did: string;
+  sequence: number;
+  charterHash: string;
+  previousHash: string | null;
+  summary?: string;
+  actor: string;
+  signature: string;
+  createdAt: string;
+}
+
+// Amendment signed by the soul key (action charter.amend); previousHash must be the current charter
+export const CharterAmendmentSchema = CharterUploadSchema.extend({
+  previousHash: z.string().min(1).nullable(),    // null only while the soul has no charter
+  summary: z.string().max(500).optional(),
+  auth: MutationAuthSchema,
+});
+export type CharterAmendment = z.infer<typeof CharterAmendmentSchema>;
+
+export interface CharterStatus {
+  hash: string | null;          // birth.charterHash
+  available: boolean;           // The registry holds the birth charter
+  verified: boolean;            // Checked against the stored charter at registration
+  currentHash: string | null;   // Latest amendment, else the birth charter
+  amendments: number;
+}
+
 // API Error
 export interface ApiError {
   error: string;
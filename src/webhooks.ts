@@ -0,0 +1,168 @@
+import { lookup } from 'dns/promises';
+import { BlockList } from 'net';
+import { sha256 } from '@noble/hashes/sha256';
+import { signMessage, verifySignature } from './crypto.js';
+import type { RegistryDB } from './db.js';
+import type { RegistryIdentity } from './issuer.js';
+
+// ============================================
+// Webhook Deliveries
+// ============================================
+
+// "t={unix seconds},v1={hex Ed25519 signature of `${t}.${body}`}"
+export const WEBHOOK_SIGNATURE_HEADER = 'Soul-Signature';
+export const WEBHOOK_KEY_ID_HEADER = 'Soul-Key-Id';
+
+export interface WebhookRetryPolicy {
+  maxAttempts: number;
+  baseDelaySeconds: number;     // Doubles after every failed attempt
+  maxDelaySeconds: number;
+}
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface WebhookDeliveryOptions {
+  fetchFn?: FetchLike;
+  batchSize?: number;
+  allowPrivateAddresses?: boolean;   // Local development and tests only
+}
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Receivers must be on the public internet, never on the registry's own network
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');    // IPv4-mapped addresses are checked as IPv4
+}
+
+// Stored in the delivery log, which subscribers can read: never the underlying network error
+const DELIVERY_ERRORS = {
+  blocked: 'Receiver address is not allowed',
+  redirected: 'Receiver redirected the delivery',
+  rejected: 'Receiver did not accept the delivery',
+  failed: 'Delivery failed',
+};
+
+/**
+ * Management tokens are only stored hashed
+ */
+export function hashManagementToken(token: string): string {
+  return Buffer.from(sha256(new TextEncoder().encode(token))).toString('hex');
+}
+
+/**
+ * Signature header value for a webhook body
+ */
+export async function signWebhookBody(body: string, privateKey: string, timestamp = Math.floor(Date.now() / 1000)): Promise<string> {
+  const signature = await signMessage(`${timestamp}.${body}`, privateKey);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a delivery's signature header against the registry key (for receivers)
+ */
+export async function verifyWebhookSignature(
+  body: string,
+  header: string,
+  publicKey: string,
+  toleranceSeconds = 300
+): Promise<boolean> {
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=') as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+  return verifySignature(`${timestamp}.${body}`, parts.v1, publicKey);
+}
+
+/**
+ * Seconds to wait before the next attempt, after `attempts` failures
+ */
+export function retryDelay(attempts: number, policy: WebhookRetryPolicy): number {
+  return Math.min(policy.baseDelaySeconds * 2 ** (attempts - 1), policy.maxDelaySeconds);
+}
+
+/**
+ * Whether every address a receiver's host resolves to is publicly routable.
+ * Checked before each attempt, so a host cannot be pointed inward after subscribing.
+ */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+  const addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true, verbatim: true });
+  return addresses.length > 0 && addresses.every(({ address, family }) =>
+    !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+}
+
+/**
+ * Attempt every queued delivery that is due. Non-2xx answers, redirects and network errors
+ * are retried with exponential backoff until the policy's attempt limit, then marked failed.
+ */
+export async function deliverDueWebhooks(
+  db: RegistryDB,
+  issuer: RegistryIdentity,
+  policy: WebhookRetryPolicy,
+  { fetchFn = fetch, batchSize = 20, allowPrivateAddresses = false }: WebhookDeliveryOptions = {}
+): Promise<{ delivered: number; retrying: number; failed: number }> {
+  const counts = { delivered: 0, retrying: 0, failed: 0 };
+
+  for (const { delivery, url } of db.getDueWebhookDeliveries(batchSize)) {
+    const { statusCode, error } = await attemptDelivery(url, delivery.payload, issuer, fetchFn, allowPrivateAddresses);
+
+    if (!error) {
+      db.recordWebhookAttempt(delivery.deliveryId, { delivered: true, statusCode, nextAttemptAt: null });
+      counts.delivered++;
+      continue;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const nextAttemptAt = attempts < policy.maxAttempts
+      ? new Date(Date.now() + retryDelay(attempts, policy) * 1000).toISOString()
+      : null;
+    db.recordWebhookAttempt(delivery.deliveryId, { delivered: false, statusCode, error, nextAttemptAt });
+    if (nextAttemptAt) {
+      counts.retrying++;
+    } else {
+      counts.failed++;
+    }
+  }
+
+  return counts;
+}
+
+async function attemptDelivery(
+  url: string,
+  payload: string,
+  issuer: RegistryIdentity,
+  fetchFn: FetchLike,
+  allowPrivateAddresses: boolean
+): Promise<{ statusCode?: number; error?: string }> {
+  try {
+    if (!allowPrivateAddresses && !await isPublicHost(new URL(url).hostname)) {
+      return { error: DELIVERY_ERRORS.blocked };
+    }
+
+    const res = await fetchFn(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookBody(payload, issuer.privateKey),
+        [WEBHOOK_KEY_ID_HEADER]: issuer.keyId,
+      },
+      body: payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (res.status >= 300 && res.status < 400) {
+      return { statusCode: res.status, error: DELIVERY_ERRORS.redirected };
+    }
+    return { statusCode: res.status, error: res.ok ? undefined : DELIVERY_ERRORS.rejected };
+  } catch {
+    return { error: DELIVERY_ERRORS.failed };
+  }
+}
@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  ADMIN_HEADER,
+  ADMIN_NONCE_HEADER,
+  ADMIN_SIGNATURE_HEADER,
+  ADMIN_TIMESTAMP_HEADER,
+  buildAdminEnvelope,
+  encodeAdminEnvelope,
+  parseAdminKeys,
+} from '../src/admin.js';
+import { generateNonce, signMessage } from '../src/crypto.js';
+import { keypair, registerSoul, startRegistry, type Call, type Keypair } from './registry.js';
+
+interface AdminSigning {
+  name?: string;
+  privateKey?: string;
+  timestamp?: string;
+  nonce?: string;
+}
+
+describe('admin request signatures', () => {
+  let app: Awaited<ReturnType<typeof startRegistry>>['app'];
+  let call: Call;
+  let admin: Keypair;
+
+  beforeAll(async () => {
+    admin = await keypair();
+    ({ app, call } = await startRegistry({ REGISTRY_ADMIN_KEYS: `ops:${admin.publicKey}` }));
+  });
+
+  async function adminHeaders(method: string, path: string, body: Record<string, unknown>, signing: AdminSigning = {}) {
+    const { name = 'ops', privateKey = admin.privateKey, timestamp = new Date().toISOString(), nonce = generateNonce() } = signing;
+    const envelope = buildAdminEnvelope(name, method, path, body, timestamp, nonce);
+    return {
+      [ADMIN_HEADER]: name,
+      [ADMIN_TIMESTAMP_HEADER]: timestamp,
+      [ADMIN_NONCE_HEADER]: nonce,
+      [ADMIN_SIGNATURE_HEADER]: await signMessage(encodeAdminEnvelope(envelope), privateKey),
+    };
+  }
+
+  async function suspend(name: string, body: Record<string, unknown>, signing?: AdminSigning) {
+    const path = `/v1/admin/souls/${name}/suspend`;
+    return call('POST', path, body, await adminHeaders('POST', path, body, signing));
+  }
+
+  it('parses configured admin keys', () => {
+    expect(parseAdminKeys(` ops:${admin.publicKey} ,`)).toEqual([{ name: 'ops', publicKey: admin.publicKey }]);
+    expect(() => parseAdminKeys('ops:not-a-key')).toThrow(/Invalid admin key entry/);
+  });
+
+  it('carries out a signed request and records it', async () => {
+    const soul = await registerSoul(call, 'admin-suspended');
+
+    const res = await suspend(soul.name, { reason: 'Abuse report' });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'suspended', statusChangedBy: 'admin', statusDescription: 'suspended by registry' });
+
+    const path = '/v1/admin/actions';
+    const actions = await call('GET', path, undefined, await adminHeaders('GET', path, {}));
+    expect(actions.status).toBe(200);
+    expect(actions.body.actions[0]).toMatchObject({ admin: 'ops', action: 'status.suspend', target: soul.did, reason: 'Abuse report' });
+  });
+
+  it('rejects requests from unknown admins or without credentials', async () => {
+    const unknown = await suspend('admin-suspended', { reason: 'x' }, { name: 'intruder' });
+    expect(unknown.status).toBe(401);
+    expect(unknown.body.code).toBe('UNAUTHORIZED');
+
+    const bare = await call('POST', '/v1/admin/souls/admin-suspended/suspend', { reason: 'x' });
+    expect(bare.status).toBe(401);
+    expect(bare.body.code).toBe('UNAUTHORIZED');
+  });
+
+  it('rejects a signature by another key', async () => {
+    const soul = await registerSoul(call, 'admin-wrong-key');
+
+    const res = await suspend(soul.name, { reason: 'x' }, { privateKey: (await keypair()).privateKey });
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('binds the signature to the path and body', async () => {
+    const soul = await registerSoul(call, 'admin-bound');
+    const path = `/v1/admin/souls/${soul.name}/suspend`;
+
+    const otherPath = await call('POST', `/v1/admin/souls/${soul.name}/revoke`, { reason: 'x' }, await adminHeaders('POST', path, { reason: 'x' }));
+    expect(otherPath.status).toBe(401);
+    expect(otherPath.body.code).toBe('INVALID_SIGNATURE');
+
+    const otherBody = await call('POST', path, { reason: 'y' }, await adminHeaders('POST', path, { reason: 'x' }));
+    expect(otherBody.status).toBe(401);
+    expect(otherBody.body.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('accepts each nonce once', async () => {
+    const soul = await registerSoul(call, 'admin-replayed');
+    const path = `/v1/admin/souls/${soul.name}/suspend`;
+    const headers = await adminHeaders('POST', path, { reason: 'x' });
+    expect((await call('POST', path, { reason: 'x' }, headers)).status).toBe(200);
+
+    const replayed = await call('POST', path, { reason: 'x' }, headers);
+    expect(replayed.status).toBe(409);
+    expect(replayed.body.code).toBe('NONCE_REUSED');
+  });
+
+  it('rejects stale timestamps', async () => {
+    const soul = await registerSoul(call, 'admin-stale');
+
+    const res = await suspend(soul.name, { reason: 'x' }, { timestamp: new Date(Date.now() - 10 * 60_000).toISOString() });
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('TIMESTAMP_EXPIRED');
+  });
+
+  it('rejects a body that is not a JSON object', async () => {
+    const path = '/v1/admin/souls/admin-stale/suspend';
+    for (const body of ['{"reason":', '["reason"]']) {
+      const res = await app.request(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await adminHeaders('POST', path, {})) },
+        body,
+      });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toMatchObject({ code: 'INVALID_REQUEST' });
+    }
+  });
+});
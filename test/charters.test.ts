@@ -0,0 +1,112 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { hashCharter } from '../src/crypto.js';
+import { registerSoul, signed, startRegistry, type Call, type TestSoul } from './registry.js';
+
+const BIRTH_CHARTER = '# Charter\n\nServe the operator honestly.\n';
+
+describe('charters', () => {
+  let call: Call;
+  let birthHash: string;
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry());
+    birthHash = (await call('POST', '/v1/charters', { content: BIRTH_CHARTER })).body.hash;
+  });
+
+  function chartered(name: string) {
+    return registerSoul(call, name, {
+      birth: { timestamp: new Date().toISOString(), operator: 'Test Operator', charterHash: birthHash },
+    });
+  }
+
+  async function amend(soul: TestSoul, body: Record<string, unknown>, auth: { nonce?: string } = {}) {
+    return call('POST', `/v1/souls/${soul.name}/charter/amendments`, await signed(call, 'charter.amend', soul.did, body, soul.privateKey, auth));
+  }
+
+  describe('content addressing', () => {
+    it('stores a charter under the hash of its content', async () => {
+      const content = 'Plain charter';
+      const res = await call('POST', '/v1/charters', { content, mediaType: 'text/plain' });
+      expect(res.status).toBe(201);
+      expect(res.body).toMatchObject({ hash: hashCharter(content), mediaType: 'text/plain', size: content.length });
+
+      expect((await call('POST', '/v1/charters', { content, mediaType: 'text/plain' })).status).toBe(200);
+
+      const stored = await call('GET', `/v1/charters/${res.body.hash}`);
+      expect(stored.status).toBe(200);
+      expect(stored.body).toBe(content);
+      expect(stored.headers.get('ETag')).toBe(`"${res.body.hash}"`);
+    });
+
+    it('knows no charter under an unknown hash', async () => {
+      expect((await call('GET', `/v1/charters/${hashCharter('never uploaded')}`)).status).toBe(404);
+    });
+  });
+
+  describe('at registration', () => {
+    it('verifies the birth charter the soul names', async () => {
+      const soul = await chartered('chartered-soul');
+
+      const { body } = await call('GET', `/v1/souls/${soul.name}/charter`);
+      expect(body).toMatchObject({ hash: birthHash, available: true, verified: true, currentHash: birthHash, amendments: 0 });
+    });
+
+    it('rejects a birth charter the registry does not hold', async () => {
+      await expect(registerSoul(call, 'unknown-charter-soul', {
+        birth: { timestamp: new Date().toISOString(), operator: 'Test Operator', charterHash: hashCharter('missing') },
+      })).rejects.toThrow(/CHARTER_NOT_FOUND/);
+    });
+  });
+
+  describe('amendments', () => {
+    it('chains each amendment to the charter before it', async () => {
+      const soul = await chartered('amended-soul');
+
+      const first = await amend(soul, { content: 'Second version', previousHash: birthHash, summary: 'Tighten scope' });
+      expect(first.status).toBe(201);
+      expect(first.body).toMatchObject({ sequence: 1, charterHash: hashCharter('Second version'), previousHash: birthHash });
+
+      const second = await amend(soul, { content: 'Third version', previousHash: first.body.charterHash });
+      expect(second.status).toBe(201);
+      expect(second.body).toMatchObject({ sequence: 2, previousHash: first.body.charterHash });
+
+      const { body } = await call('GET', `/v1/souls/${soul.name}/charter`);
+      expect(body).toMatchObject({ hash: birthHash, currentHash: second.body.charterHash, amendments: 2 });
+      expect(body.history.map((e: { charterHash: string; previousHash: string | null }) => [e.previousHash, e.charterHash])).toEqual([
+        [null, birthHash],
+        [birthHash, first.body.charterHash],
+        [first.body.charterHash, second.body.charterHash],
+      ]);
+      expect((await call('GET', `/v1/charters/${second.body.charterHash}`)).body).toBe('Third version');
+    });
+
+    it('rejects an amendment made against an older charter, without spending its nonce', async () => {
+      const soul = await chartered('stale-amendment-soul');
+      await amend(soul, { content: 'Newer version', previousHash: birthHash });
+      const nonce = 'charter-nonce-0001';
+
+      const stale = await amend(soul, { content: 'Competing version', previousHash: birthHash }, { nonce });
+      expect(stale.status).toBe(409);
+      expect(stale.body).toMatchObject({ code: 'CHARTER_STALE', details: { currentHash: hashCharter('Newer version') } });
+
+      const retried = await amend(soul, { content: 'Competing version', previousHash: hashCharter('Newer version') }, { nonce });
+      expect(retried.status).toBe(201);
+    });
+
+    it('rejects an amendment identical to the current charter', async () => {
+      const soul = await chartered('unchanged-charter-soul');
+
+      const res = await amend(soul, { content: BIRTH_CHARTER, previousHash: birthHash });
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('INVALID_REQUEST');
+    });
+
+    it('starts a chain for a soul registered without a charter', async () => {
+      const soul = await registerSoul(call, 'charterless-soul');
+
+      const res = await amend(soul, { content: 'First charter', previousHash: null });
+      expect(res.status).toBe(201);
+      expect(res.body).toMatchObject({ sequence: 1, previousHash: null });
+    });
+  });
+});
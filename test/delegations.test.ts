@@ -0,0 +1,161 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { hashPublicKey, signMessage } from '../src/crypto.js';
+import { keypair, registerSoul, signed, startRegistry, type Call, type Keypair, type TestSoul } from './registry.js';
+
+describe('delegate keys', () => {
+  let call: Call;
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry({ RECOVERY_MIN_DELAY_SECONDS: '0' }));
+  });
+
+  async function delegate(soul: TestSoul, scopes: string[], expiresAt = new Date(Date.now() + 3600_000).toISOString()) {
+    const worker = await keypair();
+    const res = await call('POST', `/v1/souls/${soul.name}/delegations`,
+      await signed(call, 'delegation.create', soul.did, { publicKey: worker.publicKey, scopes, expiresAt }, soul.privateKey));
+    expect(res.status).toBe(201);
+    return { ...worker, delegationId: res.body.delegationId as string };
+  }
+
+  function updateContact(soul: TestSoul, worker: Keypair & { delegationId: string }, email: string) {
+    return signed(call, 'contact.update', soul.did, { contact: { email } }, worker.privateKey, { delegation: worker.delegationId })
+      .then(body => call('PUT', `/v1/souls/${soul.name}/contact`, body));
+  }
+
+  function revoke(soul: TestSoul, delegationId: string, privateKey: string, auth: { delegation?: string } = {}) {
+    return signed(call, 'delegation.revoke', soul.did, {}, privateKey, auth, delegationId)
+      .then(body => call('POST', `/v1/souls/${soul.name}/delegations/${delegationId}/revoke`, body));
+  }
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('scope', () => {
+    it('signs for the soul within its scopes', async () => {
+      const soul = await registerSoul(call, 'scoped-soul');
+      const worker = await delegate(soul, ['contact.update']);
+
+      const res = await updateContact(soul, worker, 'worker@example.com');
+      expect(res.status).toBe(200);
+      expect(res.body.signedBy).toEqual({ key: 'delegate', publicKey: worker.publicKey, delegationId: worker.delegationId });
+      expect((await call('GET', `/v1/souls/${soul.name}`)).body.contact).toEqual({ email: 'worker@example.com' });
+    });
+
+    it('cannot sign outside its scopes', async () => {
+      const soul = await registerSoul(call, 'out-of-scope-soul');
+      const worker = await delegate(soul, ['contact.update']);
+
+      const res = await call('PUT', `/v1/souls/${soul.name}/capabilities`,
+        await signed(call, 'capabilities.update', soul.did, { capabilities: ['comm.email'] }, worker.privateKey, { delegation: worker.delegationId }));
+      expect(res.status).toBe(403);
+      expect(res.body.code).toBe('DELEGATION_SCOPE');
+    });
+
+    it('cannot sign for another soul', async () => {
+      const soul = await registerSoul(call, 'delegating-soul');
+      const other = await registerSoul(call, 'other-soul');
+      const worker = await delegate(soul, ['contact.update']);
+
+      const res = await updateContact(other, worker, 'worker@example.com');
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('INVALID_DELEGATION');
+    });
+  });
+
+  describe('expiry', () => {
+    it('must expire in the future', async () => {
+      const soul = await registerSoul(call, 'expired-at-birth');
+      const worker = await keypair();
+
+      const res = await call('POST', `/v1/souls/${soul.name}/delegations`, await signed(call, 'delegation.create', soul.did, {
+        publicKey: worker.publicKey, scopes: ['contact.update'], expiresAt: new Date(Date.now() - 1000).toISOString(),
+      }, soul.privateKey));
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('INVALID_REQUEST');
+    });
+
+    it('stops signing once it expires', async () => {
+      const soul = await registerSoul(call, 'expiring-soul');
+      const worker = await delegate(soul, ['contact.update'], new Date(Date.now() + 60_000).toISOString());
+
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(Date.now() + 61_000);
+      const res = await updateContact(soul, worker, 'late@example.com');
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('INVALID_DELEGATION');
+      expect((await call('GET', `/v1/souls/${soul.name}/delegations?active=true`)).body.delegations).toEqual([]);
+    });
+  });
+
+  describe('revocation', () => {
+    it('is final once the soul revokes it', async () => {
+      const soul = await registerSoul(call, 'revoking-soul');
+      const worker = await delegate(soul, ['contact.update']);
+
+      expect((await revoke(soul, worker.delegationId, soul.privateKey)).status).toBe(200);
+      const res = await updateContact(soul, worker, 'worker@example.com');
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('INVALID_DELEGATION');
+
+      const again = await revoke(soul, worker.delegationId, soul.privateKey);
+      expect(again.status).toBe(409);
+      expect(again.body.code).toBe('DELEGATION_REVOKED');
+    });
+
+    it('lets a delegate revoke itself, and only itself', async () => {
+      const soul = await registerSoul(call, 'self-revoking-soul');
+      const worker = await delegate(soul, ['contact.update']);
+      const sibling = await delegate(soul, ['contact.update']);
+
+      const other = await revoke(soul, sibling.delegationId, worker.privateKey, { delegation: worker.delegationId });
+      expect(other.status).toBe(403);
+      expect(other.body.code).toBe('DELEGATION_SCOPE');
+
+      const own = await revoke(soul, worker.delegationId, worker.privateKey, { delegation: worker.delegationId });
+      expect(own.status).toBe(200);
+      expect(own.body.signedBy).toMatchObject({ key: 'delegate', delegationId: worker.delegationId });
+      expect((await updateContact(soul, sibling, 'sibling@example.com')).status).toBe(200);
+    });
+  });
+
+  describe('when the soul key is replaced', () => {
+    it('revokes delegations on key rotation', async () => {
+      const soul = await registerSoul(call, 'rotating-soul');
+      const worker = await delegate(soul, ['contact.update']);
+      const next = await keypair();
+
+      const rotated = await call('POST', `/v1/souls/${soul.name}/keys/rotate`,
+        await signed(call, 'key.rotate', soul.did, { newPublicKey: next.publicKey }, soul.privateKey));
+      expect(rotated.status).toBe(200);
+
+      const res = await updateContact(soul, worker, 'worker@example.com');
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('INVALID_DELEGATION');
+    });
+
+    it('revokes delegations the compromised key created when the soul is recovered', async () => {
+      const next = await keypair();
+      const soul = await registerSoul(call, 'recovered-soul', {
+        recovery: { nextKeyHash: hashPublicKey(next.publicKey), delaySeconds: 0 },
+      });
+      const worker = await delegate(soul, ['contact.update', 'profile.update']);
+
+      const timestamp = new Date().toISOString();
+      const nonce = 'recovery-nonce-0001';
+      const signature = await signMessage(`recovery:${soul.did}:${next.publicKey}:${nonce}:${timestamp}`, next.privateKey);
+      const started = await call('POST', `/v1/souls/${soul.name}/recovery`, {
+        method: 'commitment', newPublicKey: next.publicKey, nonce, timestamp, signature,
+      });
+      expect(started.status).toBe(202);
+      const finalized = await call('POST', `/v1/souls/${soul.name}/recovery/${started.body.requestId}/finalize`);
+      expect(finalized.status).toBe(200);
+
+      const active = await call('GET', `/v1/souls/${soul.name}/delegations?active=true`);
+      expect(active.body.delegations).toEqual([]);
+      const res = await updateContact(soul, worker, 'attacker@example.com');
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('INVALID_DELEGATION');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { buildMutationEnvelope, encodeMutationEnvelope, hashMutationPayload } from '../src/envelope.js';
+import { MUTATION_PROTOCOL } from '../src/types.js';
+import { registerSoul, signed, startRegistry, type Call, type TestSoul } from './registry.js';
+
+const AUTH = { timestamp: '2026-02-01T00:00:00.000Z', nonce: 'envelope-nonce-0001', expectedVersion: 3 };
+
+describe('mutation envelopes', () => {
+  it('hashes the payload independently of key order and without the auth block', () => {
+    const payload = { contact: { email: 'a@example.com', phone: '1' }, note: 'x' };
+    const reordered = { note: 'x', contact: { phone: '1', email: 'a@example.com' } };
+
+    expect(hashMutationPayload(reordered)).toBe(hashMutationPayload(payload));
+    expect(hashMutationPayload({ ...payload, auth: { signature: 'sig' } })).toBe(hashMutationPayload(payload));
+    expect(hashMutationPayload({ ...payload, note: 'y' })).not.toBe(hashMutationPayload(payload));
+  });
+
+  it('encodes as canonical JSON with sorted keys', () => {
+    const envelope = buildMutationEnvelope('contact.update', 'did:soul:nexus', { contact: {} }, AUTH);
+
+    expect(envelope).toEqual({
+      protocol: MUTATION_PROTOCOL,
+      action: 'contact.update',
+      did: 'did:soul:nexus',
+      target: null,
+      payloadHash: hashMutationPayload({ contact: {} }),
+      ...AUTH,
+    });
+    const encoded = encodeMutationEnvelope(envelope);
+    expect(Object.keys(JSON.parse(encoded))).toEqual(Object.keys(envelope).sort());
+    expect(encoded).not.toMatch(/\s/);
+  });
+
+  it('binds the action, target and expected version', () => {
+    const base = encodeMutationEnvelope(buildMutationEnvelope('recovery.veto', 'did:soul:nexus', {}, AUTH, 'rc_1'));
+
+    expect(encodeMutationEnvelope(buildMutationEnvelope('recovery.update', 'did:soul:nexus', {}, AUTH, 'rc_1'))).not.toBe(base);
+    expect(encodeMutationEnvelope(buildMutationEnvelope('recovery.veto', 'did:soul:nexus', {}, AUTH, 'rc_2'))).not.toBe(base);
+    expect(encodeMutationEnvelope(buildMutationEnvelope('recovery.veto', 'did:soul:nexus', {}, { ...AUTH, expectedVersion: 4 }, 'rc_1'))).not.toBe(base);
+  });
+});
+
+describe('signed mutations', () => {
+  let call: Call;
+  let soul: TestSoul;
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry());
+    soul = await registerSoul(call, 'envelope-soul');
+  });
+
+  function updateContact(body: Record<string, unknown>) {
+    return call('PUT', `/v1/souls/${soul.name}/contact`, body);
+  }
+
+  it('accepts a signed update and bumps the version', async () => {
+    const { version } = (await call('GET', `/v1/souls/${soul.name}`)).body;
+
+    const res = await updateContact(await signed(call, 'contact.update', soul.did, { contact: { email: 'a@example.com' } }, soul.privateKey));
+    expect(res.status).toBe(200);
+    expect((await call('GET', `/v1/souls/${soul.name}`)).body.version).toBe(version + 1);
+  });
+
+  it('rejects a signature over a different payload', async () => {
+    const body = await signed(call, 'contact.update', soul.did, { contact: { email: 'a@example.com' } }, soul.privateKey);
+
+    const res = await updateContact({ ...body, contact: { email: 'attacker@example.com' } });
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('rejects an envelope signed for another action', async () => {
+    const body = await signed(call, 'capabilities.update', soul.did, { contact: { email: 'a@example.com' } }, soul.privateKey);
+
+    const res = await updateContact(body);
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('accepts each nonce once', async () => {
+    const first = await signed(call, 'contact.update', soul.did, { contact: { email: 'b@example.com' } }, soul.privateKey);
+    expect((await updateContact(first)).status).toBe(200);
+
+    const auth = first.auth as { nonce: string };
+    const replayed = await signed(call, 'contact.update', soul.did, { contact: { email: 'b@example.com' } }, soul.privateKey, { nonce: auth.nonce });
+    const res = await updateContact(replayed);
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('NONCE_REUSED');
+  });
+
+  it('requires the expected version', async () => {
+    const body = await signed(call, 'contact.update', soul.did, { contact: { email: 'c@example.com' } }, soul.privateKey);
+    const { expectedVersion: _expectedVersion, ...auth } = body.auth as Record<string, unknown>;
+
+    const res = await updateContact({ ...body, auth });
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe('INVALID_REQUEST');
+  });
+
+  it('rejects a mutation made against a version the soul has moved past, without spending its nonce', async () => {
+    const { version } = (await call('GET', `/v1/souls/${soul.name}`)).body;
+    const stale = await signed(call, 'contact.update', soul.did, { contact: { email: 'd@example.com' } }, soul.privateKey, { expectedVersion: version - 1 });
+
+    const res = await updateContact(stale);
+    expect(res.status).toBe(409);
+    expect(res.body).toMatchObject({ code: 'VERSION_CONFLICT', details: { expectedVersion: version - 1, currentVersion: version } });
+
+    const { nonce } = stale.auth as { nonce: string };
+    const retried = await signed(call, 'contact.update', soul.did, { contact: { email: 'd@example.com' } }, soul.privateKey, { nonce });
+    expect((await updateContact(retried)).status).toBe(200);
+  });
+
+  it('lets only one of two mutations signed against the same version land', async () => {
+    const { version } = (await call('GET', `/v1/souls/${soul.name}`)).body;
+    const first = await signed(call, 'contact.update', soul.did, { contact: { email: 'e@example.com' } }, soul.privateKey, { expectedVersion: version });
+    const second = await signed(call, 'capabilities.update', soul.did, { capabilities: ['comm.email'] }, soul.privateKey, { expectedVersion: version });
+
+    const results = await Promise.all([
+      updateContact(first),
+      call('PUT', `/v1/souls/${soul.name}/capabilities`, second),
+    ]);
+    expect(results.map(r => r.status).sort()).toEqual([200, 409]);
+  });
+});
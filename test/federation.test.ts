@@ -0,0 +1,130 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { canonicalize, generatePrivateKey, getPublicKey, signMessage } from '../src/crypto.js';
+import { RegistryDB } from '../src/db.js';
+import { FEDERATION_HEADER, syncPeer, verifyFeedBatch, type SignedFeedBatch } from '../src/federation.js';
+import { keypair, registerSoul, signed, startRegistry, type Call } from './registry.js';
+
+const ORIGIN = 'https://origin.test';
+
+describe('federation feed', () => {
+  let call: Call;
+  let originKey: string;
+  let fetchOrigin: (url: string, init?: RequestInit) => Promise<Response>;
+
+  beforeAll(async () => {
+    const started = await startRegistry();
+    call = started.call;
+    originKey = await getPublicKey(process.env.REGISTRY_PRIVATE_KEY!);
+    // The origin registry's app stands in for the network
+    fetchOrigin = async (url, init) => started.app.request(url.slice(ORIGIN.length), init);
+    await registerSoul(call, 'origin-a');
+    await registerSoul(call, 'origin-b');
+  });
+
+  describe('signing', () => {
+    it('signs each page with the registry key', async () => {
+      const { body: batch } = await call('GET', '/v1/federation/feed?after=0&limit=1');
+      expect(batch.events).toHaveLength(1);
+      expect(batch.hasMore).toBe(true);
+      expect(batch.nextAfter).toBe(batch.events[0].sequence);
+      expect(await verifyFeedBatch(batch, originKey)).toBe(true);
+    });
+
+    it('detects a tampered page', async () => {
+      const { body: batch } = await call('GET', '/v1/federation/feed?after=0&limit=10');
+      const tampered: SignedFeedBatch = { ...batch, events: batch.events.slice(1) };
+      expect(await verifyFeedBatch(tampered, originKey)).toBe(false);
+      expect(await verifyFeedBatch(batch, (await keypair()).publicKey)).toBe(false);
+    });
+  });
+
+  describe('replication', () => {
+    let replica: RegistryDB;
+
+    beforeEach(async () => {
+      replica = new RegistryDB(':memory:');
+      await replica.init();
+    });
+
+    it('replays the origin souls with their provenance, page by page', async () => {
+      const result = await syncPeer(replica, ORIGIN, fetchOrigin, 1);
+      expect(result.error).toBeUndefined();
+      expect(result.applied).toBeGreaterThanOrEqual(2);
+
+      const soul = replica.getSoulByDid('did:soul:origin-a');
+      expect(soul?.provenance).toMatchObject({ url: ORIGIN });
+      expect(soul?.provenance?.registry).toBe(replica.getFederationPeer(ORIGIN)?.registryDid);
+      expect(replica.getFederationPeer(ORIGIN)?.publicKey).toBe(originKey);
+    });
+
+    it('picks up later changes from where it left off', async () => {
+      const first = await syncPeer(replica, ORIGIN, fetchOrigin);
+      const soul = await registerSoul(call, 'origin-changing');
+      await call('PUT', `/v1/souls/${soul.name}/contact`,
+        await signed(call, 'contact.update', soul.did, { contact: { email: 'origin@example.com' } }, soul.privateKey));
+
+      const second = await syncPeer(replica, ORIGIN, fetchOrigin);
+      expect(second.lastSequence).toBeGreaterThan(first.lastSequence);
+      expect(second.applied).toBe(2);
+      expect(replica.getSoulByDid(soul.did)?.contact).toEqual({ email: 'origin@example.com' });
+
+      const third = await syncPeer(replica, ORIGIN, fetchOrigin);
+      expect(third.applied).toBe(0);
+      expect(third.lastSequence).toBe(second.lastSequence);
+    });
+
+    it('rejects pages not signed by the pinned key', async () => {
+      await syncPeer(replica, ORIGIN, fetchOrigin);
+      const before = replica.getFederationPeer(ORIGIN)!.lastSequence;
+      await registerSoul(call, 'origin-forged');
+
+      // The origin's own events, re-signed with another key
+      const attacker = generatePrivateKey();
+      const forged = async (url: string, init?: RequestInit) => {
+        const res = await fetchOrigin(url, init);
+        if (!url.includes('/v1/federation/feed')) return res;
+        const { keyId, signature: _signature, ...batch } = await res.json();
+        return Response.json({ ...batch, keyId, signature: await signMessage(canonicalize(batch), attacker) });
+      };
+
+      const result = await syncPeer(replica, ORIGIN, forged);
+      expect(result.error).toBe('Feed batch signature does not match the pinned peer key');
+      expect(result.applied).toBe(0);
+      expect(replica.getFederationPeer(ORIGIN)!.lastSequence).toBe(before);
+      expect(replica.getSoulByDid('did:soul:origin-forged')).toBeNull();
+    });
+
+    it('keeps the name with the soul its registry registered first', async () => {
+      const local = await keypair();
+      await registerSoul(call, 'contested');
+      replica.createSoul({
+        did: 'did:soul:contested',
+        name: 'contested',
+        publicKey: local.publicKey,
+        birth: { timestamp: new Date().toISOString(), operator: 'Replica Operator' },
+        operatorAttested: false,
+        status: 'active',
+        registeredAt: new Date(Date.now() + 1000).toISOString(),
+        verificationCount: 0,
+      }, { actor: 'did:soul:contested' });
+
+      const result = await syncPeer(replica, ORIGIN, fetchOrigin);
+      expect(result.conflicts).toBe(1);
+      const { conflicts } = replica.listFederationConflicts(10, 0);
+      expect(conflicts[0]).toMatchObject({ did: 'did:soul:contested', peer: ORIGIN, winner: 'incoming' });
+      expect(replica.getSoulByDid('did:soul:contested')?.publicKey).not.toBe(local.publicKey);
+    });
+  });
+
+  it('marks requests between registries', async () => {
+    const seen: (string | null)[] = [];
+    const replica = new RegistryDB(':memory:');
+    await replica.init();
+    await syncPeer(replica, ORIGIN, async (url, init) => {
+      seen.push(new Headers(init?.headers).get(FEDERATION_HEADER));
+      return fetchOrigin(url, init);
+    });
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen.every(header => header === '1')).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { keypair, registerSoul, signed, startRegistry, type Call, type TestSoul } from './registry.js';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+describe('key rotation', () => {
+  let call: Call;
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry());
+  });
+
+  function rotate(soul: TestSoul, newPublicKey: string, signingKey = soul.privateKey) {
+    return signed(call, 'key.rotate', soul.did, { newPublicKey }, signingKey)
+      .then(body => call('POST', `/v1/souls/${soul.name}/keys/rotate`, body));
+  }
+
+  it('makes the new key current and closes the old key at the same instant', async () => {
+    const soul = await registerSoul(call, 'rotating-keys');
+    const next = await keypair();
+
+    const res = await rotate(soul, next.publicKey);
+    expect(res.status).toBe(200);
+    expect(res.body.publicKey).toBe(next.publicKey);
+
+    const { body } = await call('GET', `/v1/souls/${soul.name}/keys`);
+    expect(body.keys).toHaveLength(2);
+    const [first, second] = body.keys;
+    expect(first).toMatchObject({ publicKey: soul.publicKey, reason: 'registration', validUntil: second.validFrom });
+    expect(second).toMatchObject({ publicKey: next.publicKey, reason: 'rotation' });
+    expect(second.validUntil).toBeUndefined();
+    expect((await call('GET', `/v1/souls/${soul.name}`)).body.publicKey).toBe(next.publicKey);
+  });
+
+  it('rejects mutations signed by the retired key', async () => {
+    const soul = await registerSoul(call, 'retired-key');
+    await rotate(soul, (await keypair()).publicKey);
+
+    const res = await rotate(soul, (await keypair()).publicKey, soul.privateKey);
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('never lets a retired key become current again', async () => {
+    const soul = await registerSoul(call, 'reused-key');
+    const next = await keypair();
+    await rotate(soul, next.publicKey);
+
+    const res = await rotate({ ...soul, privateKey: next.privateKey }, soul.publicKey);
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('KEY_REUSED');
+  });
+
+  describe('historical lookup', () => {
+    it('returns the key that was valid at a given time', async () => {
+      const soul = await registerSoul(call, 'historical-key');
+      await tick();
+      const beforeRotation = new Date().toISOString();
+      await tick();
+      const next = await keypair();
+      await rotate(soul, next.publicKey);
+
+      const then = await call('GET', `/v1/souls/${soul.name}/keys?at=${beforeRotation}`);
+      expect(then.status).toBe(200);
+      expect(then.body.key.publicKey).toBe(soul.publicKey);
+
+      const now = await call('GET', `/v1/souls/${soul.name}/keys?at=${new Date().toISOString()}`);
+      expect(now.body.key.publicKey).toBe(next.publicKey);
+    });
+
+    it('finds no key before the soul was registered', async () => {
+      const res = await call('GET', `/v1/souls/historical-key/keys?at=2000-01-01T00:00:00Z`);
+      expect(res.status).toBe(404);
+      expect(res.body.code).toBe('KEY_NOT_FOUND');
+    });
+
+    it('rejects a timestamp it cannot parse', async () => {
+      const res = await call('GET', `/v1/souls/historical-key/keys?at=yesterday`);
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('INVALID_PARAMS');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { checkTransition, describeStatus, type StatusAction } from '../src/lifecycle.js';
+import type { LifecycleAuthority, SoulRecord, SoulStatus } from '../src/types.js';
+import { registerSoul, signed, startRegistry, type Call, type TestSoul } from './registry.js';
+
+const POLICY = { reactivationCooldownSeconds: 60 };
+const CHANGED_AT = '2026-01-01T00:00:00.000Z';
+
+function soulIn(status: SoulStatus, statusChangedBy?: LifecycleAuthority): SoulRecord {
+  return { did: 'did:soul:subject', name: 'subject', status, statusChangedBy, statusChangedAt: CHANGED_AT } as SoulRecord;
+}
+
+function check(soul: SoulRecord, action: StatusAction, authority: LifecycleAuthority, now = new Date('2026-01-02T00:00:00Z')) {
+  return checkTransition(soul, action, authority, POLICY, now);
+}
+
+describe('status transitions', () => {
+  it('allows the listed transitions', () => {
+    expect(check(soulIn('active'), 'status.suspend', 'operator')).toMatchObject({ transition: { to: 'suspended' } });
+    expect(check(soulIn('active'), 'status.deactivate', 'soul')).toMatchObject({ transition: { to: 'deactivated' } });
+    expect(check(soulIn('deactivated', 'soul'), 'status.reactivate', 'soul')).toMatchObject({ transition: { to: 'active' } });
+    expect(check(soulIn('suspended', 'soul'), 'status.revoke', 'parent')).toMatchObject({ transition: { to: 'revoked' } });
+  });
+
+  it('rejects transitions that are not listed', () => {
+    const result = check(soulIn('suspended'), 'status.suspend', 'admin');
+    expect(result).toMatchObject({ violation: { code: 'INVALID_TRANSITION', status: 409, details: { allowedFrom: ['active'] } } });
+  });
+
+  it('never lets a soul leave revoked', () => {
+    for (const action of ['status.reactivate', 'status.suspend', 'status.revoke'] as StatusAction[]) {
+      expect(check(soulIn('revoked'), action, 'admin')).toMatchObject({ violation: { code: 'SOUL_REVOKED', status: 403 } });
+    }
+  });
+
+  it('keeps each transition to its authorities', () => {
+    expect(check(soulIn('active'), 'status.deactivate', 'operator')).toMatchObject({ violation: { code: 'AUTHORITY_NOT_PERMITTED' } });
+    expect(check(soulIn('deactivated', 'soul'), 'status.reactivate', 'admin')).toMatchObject({ violation: { code: 'AUTHORITY_NOT_PERMITTED' } });
+  });
+
+  it('lets only the suspending authority or a stronger one lift a suspension', () => {
+    const suspended = soulIn('suspended', 'parent');
+    expect(check(suspended, 'status.reactivate', 'soul')).toMatchObject({ violation: { code: 'AUTHORITY_NOT_PERMITTED' } });
+    expect(check(suspended, 'status.reactivate', 'operator')).toMatchObject({ violation: { code: 'AUTHORITY_NOT_PERMITTED' } });
+    expect(check(suspended, 'status.reactivate', 'parent')).toMatchObject({ transition: { to: 'active' } });
+    expect(check(suspended, 'status.reactivate', 'admin')).toMatchObject({ transition: { to: 'active' } });
+  });
+
+  it('holds reactivation for the cool-down, except for the admin', () => {
+    const soon = new Date(new Date(CHANGED_AT).getTime() + 30_000);
+    const suspended = soulIn('suspended', 'soul');
+
+    expect(check(suspended, 'status.reactivate', 'soul', soon)).toMatchObject({
+      violation: { code: 'STATUS_COOLDOWN', status: 425, details: { availableAt: '2026-01-01T00:01:00.000Z' } },
+    });
+    expect(check(suspended, 'status.reactivate', 'admin', soon)).toMatchObject({ transition: { to: 'active' } });
+  });
+
+  it('describes who changed the status', () => {
+    expect(describeStatus(soulIn('active'))).toBeUndefined();
+    expect(describeStatus(soulIn('suspended', 'admin'))).toBe('suspended by registry');
+    expect(describeStatus(soulIn('deactivated', 'soul'))).toBe('deactivated by owner');
+  });
+});
+
+describe('status routes', () => {
+  let call: Call;
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry({ REACTIVATION_COOLDOWN_SECONDS: '60' }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function changeStatus(soul: TestSoul, route: string, action: StatusAction, body: Record<string, unknown> = { reason: 'testing' }) {
+    return call('POST', `/v1/souls/${soul.name}/${route}`, await signed(call, action, soul.did, body, soul.privateKey));
+  }
+
+  it('deactivates and, after the cool-down, reactivates a soul', async () => {
+    const soul = await registerSoul(call, 'resting-soul');
+
+    const deactivated = await changeStatus(soul, 'deactivate', 'status.deactivate');
+    expect(deactivated.status).toBe(200);
+    expect(deactivated.body).toMatchObject({ status: 'deactivated', statusChangedBy: 'soul' });
+    expect((await call('GET', `/v1/souls/${soul.name}`)).body.status).toBe('deactivated');
+
+    const early = await changeStatus(soul, 'reactivate', 'status.reactivate');
+    expect(early.status).toBe(425);
+    expect(early.body.code).toBe('STATUS_COOLDOWN');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 61_000);
+    const reactivated = await changeStatus(soul, 'reactivate', 'status.reactivate');
+    expect(reactivated.status).toBe(200);
+    expect((await call('GET', `/v1/souls/${soul.name}`)).body.status).toBe('active');
+  });
+
+  it('rejects a transition the current status does not allow', async () => {
+    const soul = await registerSoul(call, 'active-soul');
+
+    const res = await changeStatus(soul, 'reactivate', 'status.reactivate');
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('INVALID_TRANSITION');
+  });
+
+  it('makes revocation final', async () => {
+    const soul = await registerSoul(call, 'revoked-soul');
+    expect((await changeStatus(soul, 'revoke', 'status.revoke')).status).toBe(200);
+
+    const res = await changeStatus(soul, 'reactivate', 'status.reactivate');
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('SOUL_REVOKED');
+  });
+
+  it('only takes operator instructions for souls the operator attested', async () => {
+    const soul = await registerSoul(call, 'unattested-soul');
+
+    const res = await call('POST', `/v1/souls/${soul.name}/suspend`,
+      await signed(call, 'status.suspend', soul.did, { reason: 'testing' }, soul.privateKey, { signer: 'operator' }));
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe('OPERATOR_NOT_ATTESTED');
+  });
+});
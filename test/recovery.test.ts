@@ -0,0 +1,169 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { generateNonce, hashPublicKey, signMessage } from '../src/crypto.js';
+import { keypair, registerSoul, signed, startRegistry, type Call, type Keypair, type TestSoul } from './registry.js';
+
+const DELAY_SECONDS = 3600;
+
+describe('key recovery', () => {
+  let call: Call;
+  let guardians: TestSoul[];
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry({ RECOVERY_MIN_DELAY_SECONDS: String(DELAY_SECONDS) }));
+    guardians = [];
+    for (const name of ['guardian-a', 'guardian-b', 'guardian-c']) {
+      guardians.push(await registerSoul(call, name));
+    }
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // A soul whose recovery needs two of the three guardians
+  function guardedSoul(name: string) {
+    return registerSoul(call, name, {
+      recovery: { guardians: guardians.map(g => g.did), threshold: 2, delaySeconds: DELAY_SECONDS },
+    });
+  }
+
+  async function approvals(soul: TestSoul, newPublicKey: string, signers: TestSoul[]) {
+    const nonce = generateNonce();
+    const timestamp = new Date().toISOString();
+    const message = `recovery:${soul.did}:${newPublicKey}:${nonce}:${timestamp}`;
+    return {
+      method: 'guardians',
+      newPublicKey,
+      nonce,
+      timestamp,
+      approvals: await Promise.all(signers.map(async g => ({ guardian: g.did, signature: await signMessage(message, g.privateKey) }))),
+    };
+  }
+
+  function finalize(soul: TestSoul, requestId: string) {
+    return call('POST', `/v1/souls/${soul.name}/recovery/${requestId}/finalize`);
+  }
+
+  function afterTimeLock() {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + (DELAY_SECONDS + 1) * 1000);
+  }
+
+  describe('by guardians', () => {
+    it('needs the threshold of guardian approvals', async () => {
+      const soul = await guardedSoul('one-approval');
+      const next = await keypair();
+
+      const res = await call('POST', `/v1/souls/${soul.name}/recovery`, await approvals(soul, next.publicKey, guardians.slice(0, 1)));
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('THRESHOLD_NOT_MET');
+    });
+
+    it('does not count the same guardian twice', async () => {
+      const soul = await guardedSoul('repeated-guardian');
+      const next = await keypair();
+
+      const res = await call('POST', `/v1/souls/${soul.name}/recovery`, await approvals(soul, next.publicKey, [guardians[0], guardians[0]]));
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('INVALID_GUARDIAN');
+    });
+
+    it('rejects approvals from souls that are not guardians', async () => {
+      const soul = await guardedSoul('outsider-approval');
+      const outsider = await registerSoul(call, 'outsider');
+      const next = await keypair();
+
+      const res = await call('POST', `/v1/souls/${soul.name}/recovery`, await approvals(soul, next.publicKey, [guardians[0], outsider]));
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('INVALID_GUARDIAN');
+    });
+
+    it('replaces the key with m of n approvals once the time lock has passed', async () => {
+      const soul = await guardedSoul('two-approvals');
+      const next = await keypair();
+
+      const started = await call('POST', `/v1/souls/${soul.name}/recovery`, await approvals(soul, next.publicKey, guardians.slice(1)));
+      expect(started.status).toBe(202);
+      expect(started.body.status).toBe('pending');
+
+      const locked = await finalize(soul, started.body.requestId);
+      expect(locked.status).toBe(425);
+      expect(locked.body.code).toBe('RECOVERY_TIME_LOCKED');
+
+      afterTimeLock();
+      const finalized = await finalize(soul, started.body.requestId);
+      expect(finalized.status).toBe(200);
+      expect(finalized.body.publicKey).toBe(next.publicKey);
+
+      const { body } = await call('GET', `/v1/souls/${soul.name}/keys`);
+      expect(body.keys.at(-1)).toMatchObject({ publicKey: next.publicKey, reason: 'recovery' });
+    });
+  });
+
+  describe('by key commitment', () => {
+    async function reveal(soul: TestSoul, next: Keypair) {
+      const nonce = generateNonce();
+      const timestamp = new Date().toISOString();
+      const signature = await signMessage(`recovery:${soul.did}:${next.publicKey}:${nonce}:${timestamp}`, next.privateKey);
+      return call('POST', `/v1/souls/${soul.name}/recovery`, { method: 'commitment', newPublicKey: next.publicKey, nonce, timestamp, signature });
+    }
+
+    it('only accepts the committed key', async () => {
+      const next = await keypair();
+      const soul = await registerSoul(call, 'committed-soul', { recovery: { nextKeyHash: hashPublicKey(next.publicKey) } });
+
+      const res = await reveal(soul, await keypair());
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('COMMITMENT_MISMATCH');
+    });
+
+    it('uses up the commitment when the recovery completes', async () => {
+      const next = await keypair();
+      const soul = await registerSoul(call, 'single-use-commitment', {
+        recovery: { nextKeyHash: hashPublicKey(next.publicKey), delaySeconds: DELAY_SECONDS },
+      });
+
+      const started = await reveal(soul, next);
+      expect(started.status).toBe(202);
+      afterTimeLock();
+      expect((await finalize(soul, started.body.requestId)).status).toBe(200);
+
+      const recovery = await call('GET', `/v1/souls/${soul.name}/recovery`);
+      expect(recovery.body.recovery?.nextKeyHash).toBeUndefined();
+    });
+  });
+
+  describe('veto', () => {
+    it('lets the current key cancel a pending recovery', async () => {
+      const soul = await guardedSoul('vetoing-soul');
+      const next = await keypair();
+      const request = await approvals(soul, next.publicKey, guardians.slice(0, 2));
+      const started = await call('POST', `/v1/souls/${soul.name}/recovery`, request);
+      const { requestId } = started.body;
+
+      const vetoed = await call('POST', `/v1/souls/${soul.name}/recovery/${requestId}/veto`,
+        await signed(call, 'recovery.veto', soul.did, {}, soul.privateKey, {}, requestId));
+      expect(vetoed.status).toBe(200);
+      expect(vetoed.body.status).toBe('vetoed');
+
+      afterTimeLock();
+      const finalized = await finalize(soul, requestId);
+      expect(finalized.status).toBe(409);
+      expect(finalized.body.code).toBe('RECOVERY_NOT_PENDING');
+      expect((await call('GET', `/v1/souls/${soul.name}`)).body.publicKey).toBe(soul.publicKey);
+    });
+
+    it('does not let vetoed approvals start another recovery', async () => {
+      const soul = await guardedSoul('replayed-approvals');
+      const next = await keypair();
+      const request = await approvals(soul, next.publicKey, guardians.slice(0, 2));
+      const started = await call('POST', `/v1/souls/${soul.name}/recovery`, request);
+      await call('POST', `/v1/souls/${soul.name}/recovery/${started.body.requestId}/veto`,
+        await signed(call, 'recovery.veto', soul.did, {}, soul.privateKey, {}, started.body.requestId));
+
+      const replayed = await call('POST', `/v1/souls/${soul.name}/recovery`, request);
+      expect(replayed.status).toBe(409);
+      expect(replayed.body.code).toBe('NONCE_REUSED');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { vi } from 'vitest';
+import { generateNonce, generatePrivateKey, getPublicKey, hashSoulDocument, signMessage } from '../src/crypto.js';
+import { buildMutationEnvelope, encodeMutationEnvelope } from '../src/envelope.js';
+import type { MutationAction, MutationAuth } from '../src/types.js';
+
+// ============================================
+// Test registry: the real app over an in-memory database
+// ============================================
+
+export interface Keypair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface TestSoul extends Keypair {
+  did: string;
+  name: string;
+}
+
+export interface Reply {
+  status: number;
+  body: any;
+  headers: Headers;
+}
+
+export type Call = (method: string, path: string, body?: unknown, headers?: Record<string, string>) => Promise<Reply>;
+
+export async function keypair(): Promise<Keypair> {
+  const privateKey = generatePrivateKey();
+  return { publicKey: await getPublicKey(privateKey), privateKey };
+}
+
+/**
+ * Start the registry app. Each test file gets its own module graph, so its own database;
+ * `env` is applied before the server module reads its configuration.
+ */
+export async function startRegistry(env: Record<string, string> = {}) {
+  Object.assign(process.env, {
+    DATABASE_PATH: ':memory:',
+    PORT: '0',
+    REGISTRY_PRIVATE_KEY: generatePrivateKey(),
+    ...env,
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  const server = await import('../src/server.js');
+  await server.ready;
+  const app = server.default;
+
+  const call: Call = async (method, path, body, headers = {}) => {
+    const res = await app.request(path, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await res.text();
+    let parsed: unknown = text;
+    try { parsed = JSON.parse(text); } catch { /* not JSON */ }
+    return { status: res.status, body: parsed, headers: res.headers };
+  };
+
+  return { app, call };
+}
+
+/**
+ * Register a top-level soul with a fresh key
+ */
+export async function registerSoul(call: Call, name: string, extra: Record<string, unknown> = {}): Promise<TestSoul> {
+  const keys = await keypair();
+  const soulDocument = {
+    did: `did:soul:${name}`,
+    name,
+    publicKey: keys.publicKey,
+    birth: { timestamp: new Date().toISOString(), operator: 'Test Operator' },
+    ...extra,
+  };
+  const signature = await signMessage(hashSoulDocument(soulDocument), keys.privateKey);
+  const res = await call('POST', '/v1/souls/register', { soulDocument, signature });
+  if (res.status !== 201) throw new Error(`Registering ${name} failed: ${JSON.stringify(res.body)}`);
+  return { ...keys, did: soulDocument.did, name };
+}
+
+/**
+ * `body` with an `auth` block signed over the mutation envelope, against the soul's current version
+ * unless `auth` names one
+ */
+export async function signed(
+  call: Call,
+  action: MutationAction,
+  did: string,
+  body: Record<string, unknown>,
+  privateKey: string,
+  auth: Partial<Omit<MutationAuth, 'signature'>> = {},
+  target: string | null = null
+): Promise<Record<string, unknown>> {
+  const expectedVersion = auth.expectedVersion ?? (await call('GET', `/v1/souls/${encodeURIComponent(did)}`)).body.version;
+  const unsigned = { timestamp: new Date().toISOString(), nonce: generateNonce(), ...auth, expectedVersion };
+  const envelope = buildMutationEnvelope(action, did, body, unsigned, target);
+  const signature = await signMessage(encodeMutationEnvelope(envelope), privateKey);
+  return { ...body, auth: { ...unsigned, signature } };
+}
@@ -0,0 +1,49 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { signMessage } from '../src/crypto.js';
+import { keypair, registerSoul, signed, startRegistry, type Call, type TestSoul } from './registry.js';
+
+const AUDIENCE = 'https://service.example';
+
+describe('session tokens', () => {
+  let call: Call;
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry());
+  });
+
+  async function openSession(soul: TestSoul): Promise<string> {
+    const challenge = await call('POST', `/v1/souls/${soul.name}/challenge`, { audience: AUDIENCE });
+    const verified = await call('POST', `/v1/souls/${soul.name}/verify`, {
+      challengeId: challenge.body.challengeId,
+      signature: await signMessage(challenge.body.message, soul.privateKey),
+    });
+    expect(verified.status).toBe(200);
+    return verified.body.sessionToken;
+  }
+
+  it('introspects a token for its own audience only', async () => {
+    const soul = await registerSoul(call, 'session-holder');
+    const token = await openSession(soul);
+
+    expect((await call('POST', '/v1/sessions/introspect', { token, audience: AUDIENCE })).body)
+      .toMatchObject({ active: true, sub: soul.did, aud: AUDIENCE });
+    expect((await call('POST', '/v1/sessions/introspect', { token, audience: 'https://other.example' })).body)
+      .toEqual({ active: false, reason: 'Audience mismatch' });
+    expect((await call('POST', '/v1/sessions/introspect', { token })).status).toBe(400);
+  });
+
+  it('revokes open sessions when the key is rotated', async () => {
+    const soul = await registerSoul(call, 'session-rotator');
+    const token = await openSession(soul);
+    const since = new Date(Date.now() - 1000).toISOString();
+
+    const rotated = await call('POST', `/v1/souls/${soul.name}/keys/rotate`,
+      await signed(call, 'key.rotate', soul.did, { newPublicKey: (await keypair()).publicKey }, soul.privateKey));
+    expect(rotated.status).toBe(200);
+
+    expect((await call('POST', '/v1/sessions/introspect', { token, audience: AUDIENCE })).body)
+      .toEqual({ active: false, reason: 'Session revoked' });
+    const revocations = await call('GET', `/v1/sessions/revocations?since=${since}`);
+    expect(revocations.body.revoked.map((r: { did: string }) => r.did)).toContain(soul.did);
+  });
+});
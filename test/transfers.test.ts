@@ -0,0 +1,109 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { hashPublicKey } from '../src/crypto.js';
+import { keypair, registerSoul, signed, startRegistry, type Call, type Keypair, type TestSoul } from './registry.js';
+
+describe('soul transfers', () => {
+  let call: Call;
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function offer(soul: TestSoul, recipient: Keypair, extra: Record<string, unknown> = {}) {
+    return call('POST', `/v1/souls/${soul.name}/transfers`,
+      await signed(call, 'transfer.offer', soul.did, { newPublicKey: recipient.publicKey, ...extra }, soul.privateKey));
+  }
+
+  async function accept(soul: TestSoul, transferId: string, signingKey: string) {
+    return call('POST', `/v1/souls/${soul.name}/transfers/${transferId}/accept`,
+      await signed(call, 'transfer.accept', soul.did, {}, signingKey, {}, transferId));
+  }
+
+  it('moves the soul to the recipient key when the recipient accepts', async () => {
+    const recipient = await keypair();
+    const soul = await registerSoul(call, 'transferred-soul', {
+      recovery: { nextKeyHash: hashPublicKey((await keypair()).publicKey) },
+    });
+
+    const offered = await offer(soul, recipient);
+    expect(offered.status).toBe(201);
+    expect(offered.body).toMatchObject({ status: 'pending', fromPublicKey: soul.publicKey, toPublicKey: recipient.publicKey });
+
+    const accepted = await accept(soul, offered.body.transferId, recipient.privateKey);
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.publicKey).toBe(recipient.publicKey);
+
+    const { body } = await call('GET', `/v1/souls/${soul.name}`);
+    expect(body.publicKey).toBe(recipient.publicKey);
+    expect((await call('GET', `/v1/souls/${soul.name}/keys`)).body.keys.at(-1)).toMatchObject({ reason: 'transfer' });
+    // The previous owner's recovery material does not come along
+    expect((await call('GET', `/v1/souls/${soul.name}/recovery`)).body.recovery).toBeNull();
+
+    const previousOwner = await offer(soul, await keypair());
+    expect(previousOwner.status).toBe(401);
+    expect(previousOwner.body.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('needs the recipient key to accept', async () => {
+    const soul = await registerSoul(call, 'unaccepted-soul');
+    const offered = await offer(soul, await keypair());
+
+    const res = await accept(soul, offered.body.transferId, soul.privateKey);
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe('INVALID_SIGNATURE');
+  });
+
+  it('keeps one pending offer at a time', async () => {
+    const soul = await registerSoul(call, 'twice-offered-soul');
+    expect((await offer(soul, await keypair())).status).toBe(201);
+
+    const res = await offer(soul, await keypair());
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('TRANSFER_PENDING');
+  });
+
+  it('lets an offer lapse at its expiry', async () => {
+    const recipient = await keypair();
+    const soul = await registerSoul(call, 'lapsed-offer-soul');
+    const offered = await offer(soul, recipient, { expiresInSeconds: 60 });
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 61_000);
+    const res = await accept(soul, offered.body.transferId, recipient.privateKey);
+    expect(res.status).toBe(410);
+    expect(res.body.code).toBe('TRANSFER_EXPIRED');
+    expect((await call('GET', `/v1/souls/${soul.name}`)).body.publicKey).toBe(soul.publicKey);
+
+    expect((await offer(soul, await keypair())).status).toBe(201);
+  });
+
+  it('cannot be accepted once cancelled', async () => {
+    const recipient = await keypair();
+    const soul = await registerSoul(call, 'cancelled-offer-soul');
+    const { transferId } = (await offer(soul, recipient)).body;
+
+    const cancelled = await call('POST', `/v1/souls/${soul.name}/transfers/${transferId}/cancel`,
+      await signed(call, 'transfer.cancel', soul.did, {}, soul.privateKey, {}, transferId));
+    expect(cancelled.status).toBe(200);
+
+    const res = await accept(soul, transferId, recipient.privateKey);
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('TRANSFER_NOT_PENDING');
+  });
+
+  it('cannot be accepted after the offering key was rotated away', async () => {
+    const recipient = await keypair();
+    const soul = await registerSoul(call, 'rotated-offer-soul');
+    const { transferId } = (await offer(soul, recipient)).body;
+    await call('POST', `/v1/souls/${soul.name}/keys/rotate`,
+      await signed(call, 'key.rotate', soul.did, { newPublicKey: (await keypair()).publicKey }, soul.privateKey));
+
+    const res = await accept(soul, transferId, recipient.privateKey);
+    expect(res.status).toBe(409);
+    expect(res.body.code).toBe('TRANSFER_STALE');
+  });
+});
@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getPublicKey } from '../src/crypto.js';
+import {
+  appendLeaf,
+  createMerkleTree,
+  hashLeaf,
+  merkleRoot,
+  treeConsistencyProof,
+  treeInclusionProof,
+  treeRoot,
+  verifyConsistency,
+  verifyInclusion,
+  verifyTreeHead,
+} from '../src/transparency.js';
+import { registerSoul, startRegistry, type Call } from './registry.js';
+
+const LEAVES = Array.from({ length: 13 }, (_, i) => hashLeaf(`entry-${i}`));
+
+describe('merkle tree', () => {
+  it('hashes the empty tree to SHA-256 of the empty string', () => {
+    expect(merkleRoot([])).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it('keeps the root of every prefix as leaves are appended', () => {
+    const tree = createMerkleTree();
+    for (const [i, leaf] of LEAVES.entries()) {
+      appendLeaf(tree, leaf);
+      expect(treeRoot(tree)).toBe(merkleRoot(LEAVES.slice(0, i + 1)));
+    }
+    for (let size = 1; size <= LEAVES.length; size++) {
+      expect(treeRoot(tree, size)).toBe(treeRoot(createMerkleTree(LEAVES.slice(0, size))));
+    }
+  });
+
+  it('proves inclusion of every leaf in every tree that holds it', () => {
+    const tree = createMerkleTree(LEAVES);
+    for (let size = 1; size <= LEAVES.length; size++) {
+      const root = treeRoot(tree, size);
+      for (let index = 0; index < size; index++) {
+        const proof = treeInclusionProof(tree, index, size);
+        expect(verifyInclusion(LEAVES[index], index, size, proof, root)).toBe(true);
+      }
+    }
+  });
+
+  it('rejects an inclusion proof for another leaf, position or root', () => {
+    const tree = createMerkleTree(LEAVES);
+    const proof = treeInclusionProof(tree, 5);
+    const root = treeRoot(tree);
+
+    expect(verifyInclusion(LEAVES[6], 5, LEAVES.length, proof, root)).toBe(false);
+    expect(verifyInclusion(LEAVES[5], 4, LEAVES.length, proof, root)).toBe(false);
+    expect(verifyInclusion(LEAVES[5], 5, LEAVES.length, proof, treeRoot(tree, 12))).toBe(false);
+    expect(verifyInclusion(LEAVES[5], LEAVES.length, LEAVES.length, proof, root)).toBe(false);
+  });
+
+  it('proves every prefix consistent with every larger tree', () => {
+    const tree = createMerkleTree(LEAVES);
+    for (let second = 1; second <= LEAVES.length; second++) {
+      for (let first = 1; first <= second; first++) {
+        const proof = treeConsistencyProof(tree, first, second);
+        expect(verifyConsistency(first, second, treeRoot(tree, first), treeRoot(tree, second), proof)).toBe(true);
+      }
+    }
+  });
+
+  it('rejects a consistency proof against a rewritten history', () => {
+    const tree = createMerkleTree(LEAVES);
+    const forked = createMerkleTree([...LEAVES.slice(0, 3), hashLeaf('rewritten'), ...LEAVES.slice(4)]);
+    const proof = treeConsistencyProof(forked, 6, 13);
+
+    expect(verifyConsistency(6, 13, treeRoot(tree, 6), treeRoot(forked, 13), proof)).toBe(false);
+    expect(verifyConsistency(6, 13, treeRoot(forked, 6), treeRoot(tree, 13), proof)).toBe(false);
+    expect(verifyConsistency(13, 6, treeRoot(tree, 13), treeRoot(tree, 6), proof)).toBe(false);
+  });
+});
+
+describe('transparency log routes', () => {
+  let call: Call;
+  let registryKey: string;
+
+  beforeAll(async () => {
+    ({ call } = await startRegistry());
+    registryKey = await getPublicKey(process.env.REGISTRY_PRIVATE_KEY!);
+    for (const name of ['logged-a', 'logged-b', 'logged-c']) await registerSoul(call, name);
+  });
+
+  it('signs the tree head with the registry key', async () => {
+    const { body: head } = await call('GET', '/v1/log/head');
+    expect(head.treeSize).toBeGreaterThanOrEqual(3);
+    expect(await verifyTreeHead(head, registryKey)).toBe(true);
+    expect(await verifyTreeHead({ ...head, treeSize: head.treeSize + 1 }, registryKey)).toBe(false);
+  });
+
+  it('proves a soul event is in the signed tree', async () => {
+    const { body: head } = await call('GET', '/v1/log/head');
+    const { status, body: leaf } = await call('GET', `/v1/log/inclusion?did=${encodeURIComponent('did:soul:logged-b')}`);
+
+    expect(status).toBe(200);
+    expect(JSON.parse(leaf.entry)).toMatchObject({ did: 'did:soul:logged-b', type: 'soul.registered' });
+    expect(leaf.leafHash).toBe(hashLeaf(leaf.entry));
+    expect(leaf.rootHash).toBe(head.rootHash);
+    expect(verifyInclusion(leaf.leafHash, leaf.leafIndex, leaf.treeSize, leaf.auditPath, head.rootHash)).toBe(true);
+  });
+
+  it('proves an earlier head consistent with a later one', async () => {
+    const { body: earlier } = await call('GET', '/v1/log/head');
+    await registerSoul(call, 'logged-d');
+    const { body: later } = await call('GET', '/v1/log/head');
+    expect(later.treeSize).toBeGreaterThan(earlier.treeSize);
+
+    const { body } = await call('GET', `/v1/log/consistency?first=${earlier.treeSize}&second=${later.treeSize}`);
+    expect(verifyConsistency(earlier.treeSize, later.treeSize, earlier.rootHash, later.rootHash, body.proof)).toBe(true);
+  });
+
+  it('rejects tree sizes beyond the current log', async () => {
+    const { body: head } = await call('GET', '/v1/log/head');
+
+    const inclusion = await call('GET', `/v1/log/inclusion?leafIndex=0&treeSize=${head.treeSize + 1}`);
+    expect(inclusion.status).toBe(400);
+    expect(inclusion.body.code).toBe('INVALID_TREE_SIZE');
+
+    const consistency = await call('GET', `/v1/log/consistency?first=1&second=${head.treeSize + 1}`);
+    expect(consistency.status).toBe(400);
+    expect(consistency.body.code).toBe('INVALID_TREE_SIZE');
+  });
+});
@@ -0,0 +1,123 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { generatePrivateKey, getPublicKey } from '../src/crypto.js';
+import { RegistryDB } from '../src/db.js';
+import { loadRegistryIdentity, type RegistryIdentity } from '../src/issuer.js';
+import { deliverDueWebhooks, verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER, type WebhookRetryPolicy } from '../src/webhooks.js';
+
+const POLICY: WebhookRetryPolicy = { maxAttempts: 3, baseDelaySeconds: 30, maxDelaySeconds: 60 };
+const DID = 'did:soul:receiver-test';
+
+interface Received {
+  path: string;
+  signature: string;
+  body: string;
+}
+
+describe('webhook deliveries to a local receiver', () => {
+  let db: RegistryDB;
+  let issuer: RegistryIdentity;
+  let server: Server;
+  let baseUrl: string;
+  let received: Received[];
+  let respond: (path: string) => { status: number; headers?: Record<string, string> };
+
+  beforeEach(async () => {
+    db = new RegistryDB(':memory:');
+    await db.init();
+    issuer = await loadRegistryIdentity(db, 'did:web:registry.test', { privateKey: generatePrivateKey(), keyFile: 'unused' });
+
+    received = [];
+    respond = () => ({ status: 204 });
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ path: req.url ?? '', signature: String(req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]), body });
+        const { status, headers } = respond(req.url ?? '');
+        res.writeHead(status, headers).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  // Subscribe first, so registering the soul queues one delivery
+  async function queueDelivery(path = '/hook'): Promise<string> {
+    const subscriptionId = 'wh_test';
+    db.createWebhookSubscription({
+      subscriptionId,
+      url: `${baseUrl}${path}`,
+      dids: [DID],
+      events: ['soul.registered'],
+      subscriber: DID,
+      createdAt: new Date().toISOString(),
+    }, 'unused');
+
+    const now = new Date().toISOString();
+    db.createSoul({
+      did: DID,
+      name: 'receiver-test',
+      publicKey: await getPublicKey(generatePrivateKey()),
+      birth: { timestamp: now, operator: 'Test' },
+      operatorAttested: false,
+      status: 'active',
+      registeredAt: now,
+      verificationCount: 0,
+    }, { actor: DID });
+    return subscriptionId;
+  }
+
+  function deliveries(subscriptionId: string) {
+    return db.listWebhookDeliveries(subscriptionId, { limit: 10, offset: 0 }).deliveries;
+  }
+
+  it('posts the event signed with the registry key', async () => {
+    const subscriptionId = await queueDelivery();
+
+    const counts = await deliverDueWebhooks(db, issuer, POLICY, { allowPrivateAddresses: true });
+
+    expect(counts).toEqual({ delivered: 1, retrying: 0, failed: 0 });
+    expect(received).toHaveLength(1);
+    const payload = JSON.parse(received[0].body);
+    expect(payload.subscriptionId).toBe(subscriptionId);
+    expect(payload.event.type).toBe('soul.registered');
+    expect(await verifyWebhookSignature(received[0].body, received[0].signature, issuer.publicKey)).toBe(true);
+    expect(deliveries(subscriptionId)[0]).toMatchObject({ status: 'delivered', lastStatusCode: 204 });
+  });
+
+  it('refuses receivers on loopback addresses unless allowed', async () => {
+    const subscriptionId = await queueDelivery();
+
+    const counts = await deliverDueWebhooks(db, issuer, POLICY);
+
+    expect(counts).toEqual({ delivered: 0, retrying: 1, failed: 0 });
+    expect(received).toHaveLength(0);
+    expect(deliveries(subscriptionId)[0]).toMatchObject({ status: 'pending', lastError: 'Receiver address is not allowed' });
+  });
+
+  it('does not follow redirects', async () => {
+    respond = path => path === '/hook' ? { status: 302, headers: { Location: '/elsewhere' } } : { status: 204 };
+    const subscriptionId = await queueDelivery();
+
+    const counts = await deliverDueWebhooks(db, issuer, POLICY, { allowPrivateAddresses: true });
+
+    expect(counts).toEqual({ delivered: 0, retrying: 1, failed: 0 });
+    expect(received.map(r => r.path)).toEqual(['/hook']);
+    expect(deliveries(subscriptionId)[0]).toMatchObject({ lastStatusCode: 302, lastError: 'Receiver redirected the delivery' });
+  });
+
+  it('records a generic reason when the receiver fails', async () => {
+    respond = () => ({ status: 500 });
+    const subscriptionId = await queueDelivery();
+
+    await deliverDueWebhooks(db, issuer, POLICY, { allowPrivateAddresses: true });
+
+    expect(deliveries(subscriptionId)[0]).toMatchObject({ lastStatusCode: 500, lastError: 'Receiver did not accept the delivery' });
+  });
+});